@@ -0,0 +1,64 @@
+/**
+ * CLI output fixtures for Ronginus
+ * Stores captured CLI output in the vault and replays it through the provider parsers
+ */
+
+import { normalizePath, Vault } from "obsidian";
+import type { CliConfig, CliFixture, StreamChunk } from "../types";
+import { createReplayProvider, CliFixtureRecorder } from "./cliProvider";
+
+/**
+ * Create a recorder that writes each fixture as a JSON file in the given vault folder
+ */
+export function createVaultFixtureRecorder(vault: Vault, folder: string): CliFixtureRecorder {
+  let sequence = 0;
+  return async (fixture: CliFixture) => {
+    const folderPath = normalizePath(folder);
+    if (!(await vault.adapter.exists(folderPath))) {
+      await vault.adapter.mkdir(folderPath);
+    }
+    // Parallel participants finish within the same second, so add a sequence number
+    sequence++;
+    const timestamp = new Date(fixture.timestamp).toISOString().replace(/[:.]/g, "-").slice(0, 19);
+    const provider = fixture.provider.replace(/[\\/:*?"<>|]/g, "_");
+    const path = normalizePath(`${folderPath}/${timestamp}-${sequence}-${provider}.json`);
+    await vault.adapter.write(path, JSON.stringify(fixture, null, 2));
+  };
+}
+
+/**
+ * Parse and validate a fixture file
+ */
+export function parseCliFixture(content: string): CliFixture {
+  const parsed = JSON.parse(content) as Partial<CliFixture>;
+  if (
+    parsed.version !== 1 ||
+    typeof parsed.provider !== "string" ||
+    !Array.isArray(parsed.stdout) ||
+    !parsed.stdout.every(line => typeof line === "string")
+  ) {
+    throw new Error("Not a Ronginus CLI fixture");
+  }
+  return {
+    version: 1,
+    provider: parsed.provider,
+    command: typeof parsed.command === "string" ? parsed.command : "",
+    args: Array.isArray(parsed.args) ? parsed.args : [],
+    stdout: parsed.stdout,
+    stderr: typeof parsed.stderr === "string" ? parsed.stderr : "",
+    exitCode: typeof parsed.exitCode === "number" ? parsed.exitCode : null,
+    timestamp: typeof parsed.timestamp === "number" ? parsed.timestamp : 0,
+  };
+}
+
+/**
+ * Run a fixture through its provider's parser and collect the chunks it produces
+ */
+export async function replayCliFixture(fixture: CliFixture, cliConfig: CliConfig): Promise<StreamChunk[]> {
+  const provider = createReplayProvider(fixture, cliConfig);
+  const chunks: StreamChunk[] = [];
+  for await (const chunk of provider.chatStream([], "", "")) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
@@ -0,0 +1,182 @@
+/**
+ * Executable discovery for macOS and Linux
+ * Obsidian started from a desktop launcher does not inherit the shell PATH, so look where node version managers and package managers install CLIs
+ */
+
+// Marks the PATH in the shell output so lines printed by rc files are ignored
+const PATH_MARKER = "__RONGINUS_PATH__";
+
+let searchPathCache: string[] | undefined;
+const executableCache = new Map<string, string | null>();
+// The login shell PATH, read once in the background; empty until then
+let loginShellPath: string[] = [];
+let loginShellPathPromise: Promise<void> | undefined;
+
+/**
+ * Load a Node module on desktop only (undefined on mobile or when it cannot be loaded)
+ */
+export function loadNodeModule<T>(id: string): T | undefined {
+  const loader =
+    (globalThis as unknown as { require?: (id: string) => unknown }).require ||
+    (globalThis as unknown as { module?: { require?: (id: string) => unknown } }).module?.require;
+  if (!loader) return undefined;
+  try {
+    return loader(id) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * PATH of the user's login shell (empty when it cannot be read in time).
+ * Runs asynchronously: a slow .zshrc or .bashrc must not block Obsidian.
+ */
+function readLoginShellPath(): Promise<string[]> {
+  const childProcess = loadNodeModule<typeof import("child_process")>("child_process");
+  const shell = process.env.SHELL || "/bin/sh";
+  if (!childProcess) return Promise.resolve([]);
+
+  // fish keeps PATH as a list, so join it explicitly
+  const script = shell.endsWith("/fish")
+    ? `printf '${PATH_MARKER}%s${PATH_MARKER}' (string join : $PATH)`
+    : `printf '${PATH_MARKER}%s${PATH_MARKER}' "$PATH"`;
+  return new Promise((resolve) => {
+    try {
+      const proc = childProcess.execFile(shell, ["-ilc", script], { encoding: "utf8", timeout: 5000 }, (error, output) => {
+        if (error) {
+          resolve([]);
+          return;
+        }
+        const start = output.indexOf(PATH_MARKER);
+        const end = output.indexOf(PATH_MARKER, start + PATH_MARKER.length);
+        if (start === -1 || end === -1) {
+          resolve([]);
+          return;
+        }
+        resolve(output.slice(start + PATH_MARKER.length, end).split(":").filter(Boolean));
+      });
+      proc.stdin?.end();
+    } catch {
+      resolve([]);
+    }
+  });
+}
+
+/**
+ * Read the login shell PATH once (started at plugin load; awaited before looking up a CLI).
+ * Later calls return the same promise, so verifying again does not start another shell.
+ */
+export function loadLoginShellPath(): Promise<void> {
+  if (typeof process === "undefined" || process.platform === "win32") {
+    return Promise.resolve();
+  }
+  loginShellPathPromise ??= readLoginShellPath().then((dirs) => {
+    loginShellPath = dirs;
+    // Lookups made before the PATH was known may have missed a CLI
+    clearCliPathCache();
+  });
+  return loginShellPathPromise;
+}
+
+/**
+ * Subfolders of a version manager's install folder, newest version first
+ */
+function listVersionDirectories(parent: string, suffix: string): string[] {
+  const fs = loadNodeModule<typeof import("fs")>("fs");
+  if (!fs) return [];
+  try {
+    const versions = fs.readdirSync(parent);
+    const parse = (name: string) => (name.match(/\d+/g) || []).map(Number);
+    versions.sort((a, b) => {
+      const left = parse(a);
+      const right = parse(b);
+      for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const diff = (right[i] ?? 0) - (left[i] ?? 0);
+        if (diff !== 0) return diff;
+      }
+      return 0;
+    });
+    return versions.map(version => `${parent}/${version}${suffix}`);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Folders searched for CLIs: the login shell PATH (once loaded), the inherited PATH, then common install locations
+ */
+export function getCliSearchPath(): string[] {
+  if (searchPathCache) return searchPathCache;
+  if (typeof process === "undefined" || process.platform === "win32") {
+    searchPathCache = [];
+    return searchPathCache;
+  }
+
+  const home = process.env.HOME;
+  const dirs = [...loginShellPath, ...(process.env.PATH || "").split(":")];
+  if (home) {
+    dirs.push(
+      ...listVersionDirectories(`${home}/.nvm/versions/node`, "/bin"),
+      ...listVersionDirectories(`${home}/.local/share/fnm/node-versions`, "/installation/bin"),
+      ...listVersionDirectories(`${home}/Library/Application Support/fnm/node-versions`, "/installation/bin"),
+      ...listVersionDirectories(`${home}/.fnm/node-versions`, "/installation/bin"),
+      `${home}/.volta/bin`,
+      `${home}/.asdf/shims`,
+      `${home}/.local/bin`,
+      `${home}/.npm-global/bin`,
+      `${home}/.npm-packages/bin`,
+      `${home}/bin`
+    );
+  }
+  dirs.push("/opt/homebrew/bin", "/home/linuxbrew/.linuxbrew/bin", "/usr/local/bin", "/usr/bin");
+
+  searchPathCache = [...new Set(dirs.filter(Boolean))];
+  return searchPathCache;
+}
+
+/**
+ * Full path of a CLI on macOS or Linux (undefined when it is not found or on Windows)
+ */
+export function findCliExecutable(name: string): string | undefined {
+  const cached = executableCache.get(name);
+  if (cached !== undefined) return cached ?? undefined;
+
+  const fs = loadNodeModule<typeof import("fs")>("fs");
+  let found: string | null = null;
+  if (fs) {
+    for (const dir of getCliSearchPath()) {
+      const candidate = `${dir}/${name}`;
+      try {
+        fs.accessSync(candidate, fs.constants.X_OK);
+        found = candidate;
+        break;
+      } catch {
+        // Not here
+      }
+    }
+  }
+  executableCache.set(name, found);
+  return found ?? undefined;
+}
+
+/**
+ * Forget discovered paths so the next lookup probes again (e.g. after installing a CLI).
+ * The login shell PATH is kept; it is read once per plugin load.
+ */
+export function clearCliPathCache(): void {
+  searchPathCache = undefined;
+  executableCache.clear();
+}
+
+/**
+ * Environment with the command's folder added to PATH.
+ * npm-installed CLIs start with "#!/usr/bin/env node", and node lives next to them under nvm, fnm, volta or homebrew.
+ */
+export function withExecutableDirectory(env: NodeJS.ProcessEnv | undefined, command: string): NodeJS.ProcessEnv | undefined {
+  const slash = command.lastIndexOf("/");
+  if (!env || slash <= 0 || (typeof process !== "undefined" && process.platform === "win32")) return env;
+  const dir = command.slice(0, slash);
+  const path = env.PATH || "";
+  if (path.split(":").includes(dir)) return env;
+  return { ...env, PATH: path ? `${dir}:${path}` : dir };
+}
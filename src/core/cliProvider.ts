@@ -1,10 +1,25 @@
 /**
  * CLI Provider for Ronginus
- * Handles execution of Gemini CLI, Claude CLI, and Codex CLI
+ * Handles execution of Gemini CLI, Claude CLI, Codex CLI, and custom command providers
  */
 
 import { Platform } from "obsidian";
-import type { CliType, Message, StreamChunk } from "../types";
+import type {
+  CliConfig,
+  CliFixture,
+  CliType,
+  CustomProviderConfig,
+  Message,
+  PromptDelivery,
+  ProviderCapabilities,
+  ProviderOptions,
+  SafetyLevel,
+  StreamChunk,
+} from "../types";
+import { DEFAULT_FAKE_PROVIDER_CONFIG, getSafetyLevel, toCustomCliType } from "../types";
+import { clearCliPathCache, findCliExecutable, loadLoginShellPath, loadNodeModule, withExecutableDirectory } from "./cliPath";
+import { OpenAiCompatibleProvider } from "./httpProvider";
+import { FakeCliProvider } from "./fakeProvider";
 
 // Type for ChildProcess (avoid static import)
 type ChildProcessType = import("child_process").ChildProcess;
@@ -13,13 +28,11 @@ type ChildProcessType = import("child_process").ChildProcess;
  * Load child_process on desktop only.
  */
 function getChildProcess(): typeof import("child_process") {
-  const loader =
-    (globalThis as unknown as { require?: (id: string) => unknown }).require ||
-    (globalThis as unknown as { module?: { require?: (id: string) => unknown } }).module?.require;
-  if (!loader) {
+  const childProcess = loadNodeModule<typeof import("child_process")>("child_process");
+  if (!childProcess) {
     throw new Error("child_process is not available in this environment");
   }
-  return loader("child_process") as typeof import("child_process");
+  return childProcess;
 }
 
 /**
@@ -34,18 +47,62 @@ export function isWindows(): boolean {
  * Check if a file exists (synchronously)
  */
 function fileExistsSync(path: string): boolean {
+  const fs = loadNodeModule<typeof import("fs")>("fs");
+  return fs?.existsSync(path) ?? false;
+}
+
+// Isolated folders not yet removed, so they can all be deleted when the plugin unloads
+const isolatedDirectories = new Set<string>();
+
+/**
+ * New empty folder outside the vault for isolated runs.
+ * The random name means another local user cannot create it in advance.
+ */
+function createIsolatedDirectory(): string {
+  const fs = loadNodeModule<typeof import("fs")>("fs");
+  const os = loadNodeModule<typeof import("os")>("os");
+  const path = loadNodeModule<typeof import("path")>("path");
+  if (!fs || !os || !path) {
+    throw new Error("fs is not available in this environment");
+  }
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ronginus-"));
+  isolatedDirectories.add(dir);
+  return dir;
+}
+
+/**
+ * Delete an isolated folder and everything the CLIs wrote to it
+ */
+function removeIsolatedDirectory(dir: string): void {
+  isolatedDirectories.delete(dir);
   try {
-    const loader =
-      (globalThis as unknown as { require?: (id: string) => unknown }).require ||
-      (globalThis as unknown as { module?: { require?: (id: string) => unknown } }).module?.require;
-    if (!loader) return false;
-    const fs = loader("fs") as typeof import("fs");
-    return fs.existsSync(path);
+    const fs = loadNodeModule<typeof import("fs")>("fs");
+    fs?.rmSync(dir, { recursive: true, force: true });
   } catch {
-    return false;
+    // Left for the OS to clean up
+  }
+}
+
+/**
+ * Delete every isolated folder still in use (when the plugin unloads)
+ */
+export function removeAllIsolatedDirectories(): void {
+  for (const dir of [...isolatedDirectories]) {
+    removeIsolatedDirectory(dir);
   }
 }
 
+/**
+ * Working directory for a provider: its own folder (absolute, or relative to the vault root) or the vault root
+ */
+function resolveWorkingDirectory(providerDirectory: string | undefined, vaultDirectory: string): string {
+  const dir = providerDirectory?.trim();
+  if (!dir) return vaultDirectory;
+  const path = loadNodeModule<typeof import("path")>("path");
+  if (!path) return dir;
+  return path.isAbsolute(dir) || !vaultDirectory ? dir : path.join(vaultDirectory, dir);
+}
+
 /**
  * Get candidate Windows npm global node_modules paths
  */
@@ -95,10 +152,41 @@ function findWindowsNpmScript(packagePath: string): string | undefined {
   return undefined;
 }
 
+/**
+ * Per-call options (participant-specific model and extra CLI arguments)
+ */
+export interface ChatOptions {
+  model?: string;
+  extraArgs?: string[];
+  // Session to resume (ignored by providers without session support)
+  sessionId?: string;
+}
+
+/**
+ * Insert model flag and extra arguments into CLI arguments
+ */
+function applyChatOptions(args: string[], modelFlag: string, options?: ChatOptions, insertAt = 0): string[] {
+  const extra: string[] = [];
+  if (options?.model) {
+    extra.push(modelFlag, options.model);
+  }
+  if (options?.extraArgs) {
+    extra.push(...options.extraArgs);
+  }
+  if (extra.length === 0) return args;
+  return [...args.slice(0, insertAt), ...extra, ...args.slice(insertAt)];
+}
+
 /**
  * Resolve CLI commands for each provider
  */
-function resolveGeminiCommand(args: string[], customPath?: string): { command: string; args: string[] } {
+function resolveGeminiCommand(
+  baseArgs: string[],
+  customPath?: string,
+  options?: ChatOptions
+): { command: string; args: string[] } {
+  const args = applyChatOptions(baseArgs, "-m", options);
+
   if (customPath && fileExistsSync(customPath)) {
     if (isWindows()) {
       return { command: "node", args: [customPath, ...args] };
@@ -118,10 +206,16 @@ function resolveGeminiCommand(args: string[], customPath?: string): { command: s
     return { command: "node", args: [fallbackPath, ...args] };
   }
 
-  return { command: "gemini", args };
+  return { command: findCliExecutable("gemini") || "gemini", args };
 }
 
-function resolveClaudeCommand(args: string[], customPath?: string): { command: string; args: string[] } {
+function resolveClaudeCommand(
+  baseArgs: string[],
+  customPath?: string,
+  options?: ChatOptions
+): { command: string; args: string[] } {
+  const args = applyChatOptions(baseArgs, "--model", options);
+
   if (customPath && fileExistsSync(customPath)) {
     if (isWindows()) {
       if (customPath.toLowerCase().endsWith(".exe")) {
@@ -151,28 +245,17 @@ function resolveClaudeCommand(args: string[], customPath?: string): { command: s
     return { command: "node", args: [fallbackPath, ...args] };
   }
 
-  // Non-Windows: check common installation paths
-  if (typeof process !== "undefined") {
-    const home = process.env?.HOME;
-    const candidatePaths: string[] = [];
-    if (home) {
-      candidatePaths.push(`${home}/.local/bin/claude`);
-      candidatePaths.push(`${home}/.npm-global/bin/claude`);
-    }
-    candidatePaths.push("/opt/homebrew/bin/claude");
-    candidatePaths.push("/usr/local/bin/claude");
-
-    for (const path of candidatePaths) {
-      if (fileExistsSync(path)) {
-        return { command: path, args };
-      }
-    }
-  }
-
-  return { command: "claude", args };
+  return { command: findCliExecutable("claude") || "claude", args };
 }
 
-function resolveCodexCommand(args: string[], customPath?: string): { command: string; args: string[] } {
+function resolveCodexCommand(
+  baseArgs: string[],
+  customPath?: string,
+  options?: ChatOptions
+): { command: string; args: string[] } {
+  // Options belong to the "exec" subcommand
+  const args = applyChatOptions(baseArgs, "-m", options, baseArgs[0] === "exec" ? 1 : 0);
+
   if (customPath && fileExistsSync(customPath)) {
     if (isWindows()) {
       return { command: "node", args: [customPath, ...args] };
@@ -192,7 +275,25 @@ function resolveCodexCommand(args: string[], customPath?: string): { command: st
     return { command: "node", args: [fallbackPath, ...args] };
   }
 
-  return { command: "codex", args };
+  return { command: findCliExecutable("codex") || "codex", args };
+}
+
+/**
+ * Flags that keep each CLI from changing files unless the safety level allows edits
+ */
+function getGeminiSafetyArgs(level: SafetyLevel): string[] {
+  // Non-interactive Gemini already skips tools that need approval, so only writes need a flag
+  return level === "write" ? ["--approval-mode", "auto_edit"] : [];
+}
+
+function getClaudeSafetyArgs(level: SafetyLevel): string[] {
+  return level === "write"
+    ? ["--permission-mode", "acceptEdits"]
+    : ["--disallowedTools", "Bash,Edit,MultiEdit,Write,NotebookEdit"];
+}
+
+function getCodexSafetyArgs(level: SafetyLevel): string[] {
+  return ["--sandbox", level === "write" ? "workspace-write" : "read-only"];
 }
 
 /**
@@ -219,21 +320,252 @@ function formatHistoryAsPrompt(messages: Message[], systemPrompt: string): strin
   return parts.join("\n");
 }
 
+/**
+ * Split an argument template into arguments (supports single and double quotes)
+ */
+export function parseArgsTemplate(template: string): string[] {
+  const args: string[] = [];
+  let current = "";
+  let quote: "'" | "\"" | null = null;
+  let hasToken = false;
+
+  for (const char of template) {
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (char === "'" || char === "\"") {
+      quote = char;
+      hasToken = true;
+    } else if (/\s/.test(char)) {
+      if (hasToken) {
+        args.push(current);
+        current = "";
+        hasToken = false;
+      }
+    } else {
+      current += char;
+      hasToken = true;
+    }
+  }
+
+  if (hasToken) {
+    args.push(current);
+  }
+
+  return args;
+}
+
+/**
+ * Expand a custom provider argument template.
+ * If the template has no {prompt} placeholder, the prompt is sent via stdin.
+ * {model} is replaced with the participant's model (a bare "{model}" and its
+ * preceding flag are dropped when no model is set), and extra arguments are
+ * inserted before the prompt.
+ */
+function expandArgsTemplate(
+  template: string,
+  prompt: string,
+  options?: ChatOptions
+): { args: string[]; promptInArgs: boolean } {
+  const tokens = parseArgsTemplate(template);
+  const args: string[] = [];
+  let promptInArgs = false;
+
+  for (const token of tokens) {
+    if (token === "{model}" && !options?.model) {
+      if (args.length > 0 && args[args.length - 1].startsWith("-")) {
+        args.pop();
+      }
+      continue;
+    }
+
+    let arg = token.split("{model}").join(options?.model || "");
+    if (arg.includes("{prompt}")) {
+      if (!promptInArgs && options?.extraArgs) {
+        args.push(...options.extraArgs);
+      }
+      promptInArgs = true;
+      arg = arg.split("{prompt}").join(prompt);
+    }
+    args.push(arg);
+  }
+
+  if (!promptInArgs && options?.extraArgs) {
+    args.push(...options.extraArgs);
+  }
+
+  return { args, promptInArgs };
+}
+
+/**
+ * Read a value from an object using a dot path (e.g., "choices.0.delta.content")
+ */
+function getValueAtPath(value: unknown, path: string): unknown {
+  let current: unknown = value;
+  for (const key of path.split(".").filter(Boolean)) {
+    if (current === null || typeof current !== "object") {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+// Prompts up to this length are passed as an argument in "auto" delivery mode
+const AUTO_ARGV_PROMPT_LIMIT = 4000;
+
+// Hard limit for prompts passed as an argument (Windows command lines max out at 32,767 characters)
+function getMaxArgvPromptLength(): number {
+  return isWindows() ? 30000 : 120000;
+}
+
+// Hard limit for prompts passed via stdin
+const MAX_STDIN_PROMPT_LENGTH = 2000000;
+
+/**
+ * Decide how to deliver a prompt to a CLI
+ */
+function choosePromptDelivery(
+  prompt: string,
+  delivery: PromptDelivery = "auto"
+): { mode: "stdin" | "argv"; error?: undefined } | { mode?: undefined; error: string } {
+  if (delivery === "argv") {
+    const limit = getMaxArgvPromptLength();
+    if (prompt.length > limit) {
+      return {
+        error: `Prompt is too large to pass as a command-line argument (${prompt.length} characters, limit ${limit}). Switch prompt delivery to "stdin" in the CLI settings.`,
+      };
+    }
+    return { mode: "argv" };
+  }
+
+  if (prompt.length > MAX_STDIN_PROMPT_LENGTH) {
+    return {
+      error: `Prompt is too large (${prompt.length} characters, limit ${MAX_STDIN_PROMPT_LENGTH}). Reduce the number of turns or participants.`,
+    };
+  }
+
+  if (delivery === "auto" && prompt.length <= AUTO_ARGV_PROMPT_LIMIT) {
+    return { mode: "argv" };
+  }
+  return { mode: "stdin" };
+}
+
+/**
+ * Read a numeric field from parsed JSON (missing or invalid values count as 0)
+ */
+function toNumber(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Write the prompt to stdin (or just close it) without crashing on EPIPE
+ */
+function writeStdin(proc: ChildProcessType, input?: string): void {
+  if (!proc.stdin) return;
+  proc.stdin.on("error", (err) => {
+    console.error("[Ronginus] Failed to write to stdin:", err);
+  });
+  if (input !== undefined) {
+    proc.stdin.end(input);
+  } else {
+    proc.stdin.end();
+  }
+}
+
+/**
+ * Receives the raw output of each finished CLI process (capture mode)
+ */
+export type CliFixtureRecorder = (fixture: CliFixture) => Promise<void>;
+
+/**
+ * Process output consumed by the provider parsers: a live process, or a replayed fixture
+ */
+interface CliOutputSource {
+  stdout: AsyncIterable<string> | Iterable<string>;
+  stderr: Promise<string>;
+  exitCode: Promise<number | null>;
+}
+
+async function* readStdout(proc: ChildProcessType): AsyncGenerator<string> {
+  if (!proc.stdout) return;
+  proc.stdout.setEncoding("utf8");
+  for await (const chunk of proc.stdout) {
+    yield chunk as string;
+  }
+}
+
+/**
+ * Pass the output through unchanged and hand it to the recorder once the process has exited
+ */
+function recordOutput(
+  source: CliOutputSource,
+  recorder: CliFixtureRecorder,
+  fixture: Pick<CliFixture, "provider" | "command" | "args">
+): CliOutputSource {
+  async function* tap(): AsyncGenerator<string> {
+    let stdout = "";
+    try {
+      for await (const chunk of source.stdout) {
+        stdout += chunk;
+        yield chunk;
+      }
+    } finally {
+      void Promise.all([source.stderr, source.exitCode])
+        .then(([stderr, exitCode]) => recorder({
+          version: 1,
+          ...fixture,
+          stdout: stdout.split("\n"),
+          stderr,
+          exitCode,
+          timestamp: Date.now(),
+        }))
+        .catch((err) => {
+          console.error("[Ronginus] Failed to record CLI fixture:", err);
+        });
+    }
+  }
+  return { ...source, stdout: tap() };
+}
+
+/**
+ * Feed a captured fixture back line by line, as the process originally wrote it
+ */
+function replayOutput(fixture: CliFixture): CliOutputSource {
+  function* lines(): Generator<string> {
+    for (let i = 0; i < fixture.stdout.length; i++) {
+      const line = i < fixture.stdout.length - 1 ? `${fixture.stdout[i]}\n` : fixture.stdout[i];
+      if (line) yield line;
+    }
+  }
+  return {
+    stdout: lines(),
+    stderr: Promise.resolve(fixture.stderr),
+    exitCode: Promise.resolve(fixture.exitCode),
+  };
+}
+
 export interface CliProviderInterface {
   name: CliType;
   displayName: string;
   isAvailable(): Promise<boolean>;
+  verify(): Promise<CliVerifyResult>;
   chat(
     messages: Message[],
     systemPrompt: string,
     workingDirectory: string,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    options?: ChatOptions
   ): Promise<string>;
   chatStream(
     messages: Message[],
     systemPrompt: string,
     workingDirectory: string,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    options?: ChatOptions
   ): AsyncGenerator<StreamChunk>;
 }
 
@@ -243,55 +575,117 @@ export interface CliProviderInterface {
 abstract class BaseCliProvider implements CliProviderInterface {
   abstract name: CliType;
   abstract displayName: string;
+  protected providerOptions: ProviderOptions = {};
+  protected capabilities?: ProviderCapabilities;
+  private fixtureRecorder?: CliFixtureRecorder;
+  private replayFixture?: CliFixture;
+  // Folder for isolated runs, shared by the providers of one debate
+  private isolatedDirectory: () => string = createIsolatedDirectory;
 
   protected abstract resolveVersionCommand(): { command: string; args: string[] };
 
+  protected abstract resolveHelpCommand(): { command: string; args: string[] };
+
+  /**
+   * Read the supported flags from the help output
+   */
+  protected abstract detectCapabilities(help: string, version?: string): ProviderCapabilities;
+
+  /**
+   * Command that sends a short prompt to check that the CLI is logged in
+   */
+  protected abstract resolveAuthCheckCommand(capabilities: ProviderCapabilities): { command: string; args: string[] };
+
+  /**
+   * Turn a failed check's output into a message for the user
+   */
+  protected formatVerifyError(message: string | undefined): string | undefined {
+    return message;
+  }
+
   async isAvailable(): Promise<boolean> {
     if (Platform.isMobile) {
       return false;
     }
 
     try {
-      const { spawn } = getChildProcess();
+      await loadLoginShellPath();
       const { command, args } = this.resolveVersionCommand();
-
-      return new Promise((resolve) => {
-        try {
-          const proc = spawn(command, args, {
-            stdio: ["pipe", "pipe", "pipe"],
-            shell: false,
-            env: typeof process !== "undefined" ? process.env : undefined,
-          });
-
-          proc.on("close", (code: number | null) => {
-            resolve(code === 0);
-          });
-
-          proc.on("error", () => {
-            resolve(false);
-          });
-
-          setTimeout(() => {
-            proc.kill();
-            resolve(false);
-          }, 30000);
-        } catch {
-          resolve(false);
-        }
-      });
+      const result = await runCheckProcess(command, args, { env: this.processEnv, timeoutMs: 30000 });
+      return result.code === 0;
     } catch {
       return false;
     }
   }
 
+  /**
+   * Check the version, detect capabilities from the help output, then send a short prompt
+   */
+  async verify(): Promise<CliVerifyResult> {
+    if (Platform.isMobile) {
+      return { success: false, stage: "version", error: "CLI not available on mobile" };
+    }
+
+    // Look for the CLI again in case it was installed or moved since the last lookup
+    await loadLoginShellPath();
+    clearCliPathCache();
+
+    // Step 1: Check if CLI exists (--version)
+    const versionCommand = this.resolveVersionCommand();
+    const versionCheck = await runCheckProcess(versionCommand.command, versionCommand.args, {
+      env: this.processEnv,
+      timeoutMs: 30000,
+    });
+    if (versionCheck.code !== 0) {
+      return {
+        success: false,
+        stage: "version",
+        error: this.formatVerifyError(versionCheck.error || versionCheck.stderr) || `${this.displayName} CLI not found`,
+      };
+    }
+    const version = parseVersion(versionCheck.stdout);
+
+    // Step 2: Detect supported flags (an unreadable help output leaves only the basics)
+    const helpCommand = this.resolveHelpCommand();
+    const helpCheck = await runCheckProcess(helpCommand.command, helpCommand.args, {
+      env: this.processEnv,
+      timeoutMs: 30000,
+    });
+    const capabilities = {
+      ...this.detectCapabilities(`${helpCheck.stdout}\n${helpCheck.stderr}`, version),
+      // Windows npm installs run through node, so the script is what was found
+      executablePath: versionCommand.command === "node" ? versionCommand.args[0] : versionCommand.command,
+    };
+
+    // Step 3: Check if logged in (run a simple prompt)
+    const authCommand = this.resolveAuthCheckCommand(capabilities);
+    const authCheck = await runCheckProcess(authCommand.command, authCommand.args, {
+      env: this.processEnv,
+      timeoutMs: 60000,
+      timeoutMessage: "Timeout - CLI may not be logged in",
+    });
+    if (authCheck.code !== 0) {
+      return {
+        success: false,
+        stage: "auth",
+        error: this.formatVerifyError(authCheck.error || authCheck.stderr) || `Exit code: ${authCheck.code}`,
+        version,
+        capabilities,
+      };
+    }
+
+    return { success: true, version, capabilities };
+  }
+
   async chat(
     messages: Message[],
     systemPrompt: string,
     workingDirectory: string,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    options?: ChatOptions
   ): Promise<string> {
     let result = "";
-    for await (const chunk of this.chatStream(messages, systemPrompt, workingDirectory, signal)) {
+    for await (const chunk of this.chatStream(messages, systemPrompt, workingDirectory, signal, options)) {
       if (chunk.type === "text" && chunk.content) {
         result += chunk.content;
       } else if (chunk.type === "error" && chunk.error) {
@@ -305,9 +699,111 @@ abstract class BaseCliProvider implements CliProviderInterface {
     messages: Message[],
     systemPrompt: string,
     workingDirectory: string,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    options?: ChatOptions
   ): AsyncGenerator<StreamChunk>;
 
+  /**
+   * Record every spawned process to the given recorder
+   */
+  setFixtureRecorder(recorder: CliFixtureRecorder | undefined): void {
+    this.fixtureRecorder = recorder;
+  }
+
+  /**
+   * Run isolated processes in the folder the given function returns
+   */
+  setIsolatedDirectory(getDirectory: () => string): void {
+    this.isolatedDirectory = getDirectory;
+  }
+
+  /**
+   * Replay the fixture instead of spawning the CLI
+   */
+  setReplayFixture(fixture: CliFixture | undefined): void {
+    this.replayFixture = fixture;
+  }
+
+  /**
+   * Safety level this provider runs with (see getSafetyLevel)
+   */
+  protected get safetyLevel(): SafetyLevel {
+    return getSafetyLevel(this.name, this.providerOptions, this.capabilities) ?? "isolated";
+  }
+
+  /**
+   * Prompt delivery for this CLI (always argv when it cannot read the prompt from stdin)
+   */
+  protected get promptDelivery(): PromptDelivery | undefined {
+    return this.capabilities?.stdinPrompt === false ? "argv" : this.providerOptions.promptDelivery;
+  }
+
+  /**
+   * Whether to resume sessions (assumed for CLIs verified before capability detection)
+   */
+  protected get canResume(): boolean {
+    return this.capabilities?.sessionResume !== false;
+  }
+
+  /**
+   * Drop the model override when the CLI has no model flag
+   */
+  protected resolveChatOptions(options?: ChatOptions): ChatOptions | undefined {
+    if (!options?.model || this.capabilities?.modelSelection !== false) return options;
+    console.warn(`[Ronginus] ${this.displayName} has no model flag; ignoring model "${options.model}"`);
+    return { ...options, model: undefined };
+  }
+
+  /**
+   * Inherited environment with this provider's variables on top
+   */
+  protected get processEnv(): NodeJS.ProcessEnv | undefined {
+    if (typeof process === "undefined") return this.providerOptions.env;
+    return { ...process.env, ...this.providerOptions.env };
+  }
+
+  /**
+   * Spawn the CLI (or replay the fixture) and return its output for the parser
+   */
+  protected runProcess(
+    command: string,
+    args: string[],
+    workingDirectory: string,
+    stdinInput: string | undefined,
+    signal?: AbortSignal
+  ): CliOutputSource {
+    if (this.replayFixture) {
+      return replayOutput(this.replayFixture);
+    }
+
+    const { spawn } = getChildProcess();
+    const cwd = this.safetyLevel === "isolated"
+      ? this.isolatedDirectory()
+      : resolveWorkingDirectory(this.providerOptions.workingDirectory, workingDirectory);
+    const proc = spawn(command, args, {
+      stdio: ["pipe", "pipe", "pipe"],
+      shell: false,
+      cwd: cwd || undefined,
+      env: withExecutableDirectory(this.processEnv, command),
+    });
+
+    writeStdin(proc, stdinInput);
+
+    if (signal) {
+      signal.addEventListener("abort", () => {
+        proc.kill("SIGTERM");
+      });
+    }
+
+    const source: CliOutputSource = {
+      stdout: readStdout(proc),
+      stderr: this.collectStderr(proc),
+      exitCode: this.waitForClose(proc),
+    };
+    if (!this.fixtureRecorder) return source;
+    return recordOutput(source, this.fixtureRecorder, { provider: this.name, command, args });
+  }
+
   protected async collectStderr(proc: ChildProcessType): Promise<string> {
     if (!proc.stderr) return "";
     let stderr = "";
@@ -334,70 +830,152 @@ export class GeminiCliProvider extends BaseCliProvider {
   displayName = "Gemini";
   private customPath?: string;
 
-  constructor(customPath?: string) {
+  constructor(customPath?: string, providerOptions: ProviderOptions = {}, capabilities?: ProviderCapabilities) {
     super();
     this.customPath = customPath;
+    this.providerOptions = providerOptions;
+    this.capabilities = capabilities;
+  }
+
+  // Older CLI versions (and those verified before detection) only print plain text
+  private get streamJson(): boolean {
+    return this.capabilities?.jsonStreaming === true;
   }
 
   protected resolveVersionCommand(): { command: string; args: string[] } {
     return resolveGeminiCommand(["--version"], this.customPath);
   }
 
+  protected resolveHelpCommand(): { command: string; args: string[] } {
+    return resolveGeminiCommand(["--help"], this.customPath);
+  }
+
+  protected detectCapabilities(help: string, version?: string): ProviderCapabilities {
+    const jsonStreaming = /stream-json/.test(help);
+    return {
+      version,
+      outputFormats: ["text", ...detectOutputFormats(help, ["json", "stream-json"])],
+      stdinPrompt: true,
+      jsonStreaming,
+      modelSelection: /--model\b/.test(help),
+      sandbox: /--approval-mode\b/.test(help),
+      // Gemini is always sent the whole transcript
+      sessionResume: false,
+    };
+  }
+
+  protected resolveAuthCheckCommand(capabilities: ProviderCapabilities): { command: string; args: string[] } {
+    const args = capabilities.jsonStreaming ? ["-p", "Hello", "--output-format", "stream-json"] : ["-p", "Hello"];
+    return resolveGeminiCommand(args, this.customPath);
+  }
+
   async *chatStream(
     messages: Message[],
     systemPrompt: string,
     workingDirectory: string,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    options?: ChatOptions
   ): AsyncGenerator<StreamChunk> {
-    const { spawn } = getChildProcess();
     const prompt = formatHistoryAsPrompt(messages, systemPrompt);
-    const { command, args } = resolveGeminiCommand(["-p", prompt], this.customPath);
-
-    const proc = spawn(command, args, {
-      stdio: ["pipe", "pipe", "pipe"],
-      shell: false,
-      cwd: workingDirectory || undefined,
-      env: typeof process !== "undefined" ? process.env : undefined,
-    });
-
-    if (signal) {
-      signal.addEventListener("abort", () => {
-        proc.kill("SIGTERM");
-      });
+    const delivery = choosePromptDelivery(prompt, this.promptDelivery);
+    if (delivery.error !== undefined) {
+      yield { type: "error", error: delivery.error };
+      return;
+    }
+    // Gemini runs non-interactively on piped stdin when no -p is given
+    const useStdin = delivery.mode === "stdin";
+    const cliArgs = [
+      ...(this.capabilities?.sandbox !== false ? getGeminiSafetyArgs(this.safetyLevel) : []),
+      ...(useStdin ? [] : ["-p", prompt]),
+    ];
+    if (this.streamJson) {
+      cliArgs.push("--output-format", "stream-json");
     }
+    await loadLoginShellPath();
+    const { command, args } = resolveGeminiCommand(cliArgs, this.customPath, this.resolveChatOptions(options));
 
-    yield* this.processOutput(proc);
+    const source = this.runProcess(command, args, workingDirectory, useStdin ? prompt : undefined, signal);
+    yield* this.processOutput(source);
   }
 
-  private async *processOutput(proc: ChildProcessType): AsyncGenerator<StreamChunk> {
-    const stderrPromise = this.collectStderr(proc);
-    const closePromise = this.waitForClose(proc);
-
+  private async *processOutput(source: CliOutputSource): AsyncGenerator<StreamChunk> {
     let hadText = false;
-    if (proc.stdout) {
-      proc.stdout.setEncoding("utf8");
-      for await (const chunk of proc.stdout) {
+    if (this.streamJson) {
+      let buffer = "";
+      for await (const chunk of source.stdout) {
+        buffer += chunk;
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          yield* this.processJsonLine(line);
+        }
+      }
+
+      if (buffer.trim()) {
+        yield* this.processJsonLine(buffer);
+      }
+    } else {
+      for await (const chunk of source.stdout) {
         hadText = true;
         yield { type: "text", content: chunk };
       }
     }
 
-    const exitCode = await closePromise;
-    const stderrRaw = await stderrPromise;
+    const exitCode = await source.exitCode;
+    const stderrRaw = await source.stderr;
     const stderr = this.filterGeminiStderr(stderrRaw);
     if (stderr) {
       console.error("[Ronginus][Gemini stderr]", stderr);
     }
-    if (exitCode !== 0) {
-      if (!hadText) {
-        yield { type: "error", error: `Gemini CLI exited with code ${exitCode}` };
-        return;
-      }
+    // Plain text output cannot tell errors apart, so only a silent failure counts there
+    if (exitCode !== 0 && (this.streamJson || !hadText)) {
+      yield { type: "error", error: `Gemini CLI exited with code ${exitCode}` };
+      return;
     }
 
     yield { type: "done" };
   }
 
+  private *processJsonLine(line: string): Generator<StreamChunk> {
+    try {
+      const parsed = JSON.parse(line) as Record<string, unknown>;
+
+      if (parsed.type === "message") {
+        // User messages are echoed back; tool calls and results arrive as separate events
+        if (parsed.role === "assistant" && typeof parsed.content === "string" && parsed.content) {
+          yield { type: "text", content: parsed.content };
+        }
+      } else if (parsed.type === "result") {
+        const stats = parsed.stats as Record<string, unknown> | undefined;
+        if (stats) {
+          yield {
+            type: "usage",
+            usage: {
+              inputTokens: toNumber(stats.input_tokens),
+              outputTokens: toNumber(stats.output_tokens),
+              cachedTokens: toNumber(stats.cached),
+            },
+          };
+        }
+        if (parsed.status === "error") {
+          const error = parsed.error as Record<string, unknown> | undefined;
+          yield { type: "error", error: typeof error?.message === "string" ? error.message : "Unknown error" };
+        }
+      } else if (parsed.type === "error") {
+        const errorMessage = typeof parsed.message === "string" ? parsed.message : "Unknown error";
+        if (parsed.severity === "warning") {
+          console.warn("[Ronginus][Gemini warning]", errorMessage);
+        } else {
+          yield { type: "error", error: errorMessage };
+        }
+      }
+    } catch {
+      // Ignore JSON parse errors
+    }
+  }
+
   private filterGeminiStderr(stderr: string): string {
     if (!stderr) return "";
     const filtered = stderr
@@ -417,70 +995,91 @@ export class ClaudeCliProvider extends BaseCliProvider {
   displayName = "Claude";
   private customPath?: string;
 
-  constructor(customPath?: string) {
+  constructor(customPath?: string, providerOptions: ProviderOptions = {}, capabilities?: ProviderCapabilities) {
     super();
     this.customPath = customPath;
+    this.providerOptions = providerOptions;
+    this.capabilities = capabilities;
   }
 
   protected resolveVersionCommand(): { command: string; args: string[] } {
     return resolveClaudeCommand(["--version"], this.customPath);
   }
 
+  protected resolveHelpCommand(): { command: string; args: string[] } {
+    return resolveClaudeCommand(["--help"], this.customPath);
+  }
+
+  protected detectCapabilities(help: string, version?: string): ProviderCapabilities {
+    return {
+      version,
+      outputFormats: ["text", ...detectOutputFormats(help, ["json", "stream-json"])],
+      stdinPrompt: true,
+      jsonStreaming: /stream-json/.test(help),
+      modelSelection: /--model\b/.test(help),
+      sandbox: /--disallowed-?tools\b/i.test(help),
+      sessionResume: /--resume\b/.test(help),
+    };
+  }
+
+  protected resolveAuthCheckCommand(): { command: string; args: string[] } {
+    return resolveClaudeCommand(["-p", "Hello", "--output-format", "text"], this.customPath);
+  }
+
+  protected formatVerifyError(message: string | undefined): string | undefined {
+    return formatWindowsClaudeCliError(message);
+  }
+
   async *chatStream(
     messages: Message[],
     systemPrompt: string,
     workingDirectory: string,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    options?: ChatOptions
   ): AsyncGenerator<StreamChunk> {
-    const { spawn } = getChildProcess();
     const prompt = formatHistoryAsPrompt(messages, systemPrompt);
-    const cliArgs = ["-p", prompt, "--output-format", "stream-json", "--verbose"];
-    const { command, args } = resolveClaudeCommand(cliArgs, this.customPath);
+    const delivery = choosePromptDelivery(prompt, this.promptDelivery);
+    if (delivery.error !== undefined) {
+      yield { type: "error", error: delivery.error };
+      return;
+    }
+    // Claude reads the prompt from stdin when -p has no positional prompt
+    // (safety flags go first: --disallowedTools takes a variable number of values)
+    const useStdin = delivery.mode === "stdin";
+    const safetyArgs = this.capabilities?.sandbox !== false ? getClaudeSafetyArgs(this.safetyLevel) : [];
+    const cliArgs = useStdin
+      ? [...safetyArgs, "-p", "--output-format", "stream-json", "--verbose"]
+      : [...safetyArgs, "-p", prompt, "--output-format", "stream-json", "--verbose"];
+    if (options?.sessionId && this.canResume) {
+      cliArgs.push("--resume", options.sessionId);
+    }
+    await loadLoginShellPath();
+    const { command, args } = resolveClaudeCommand(cliArgs, this.customPath, this.resolveChatOptions(options));
 
-    const proc = spawn(command, args, {
-      stdio: ["pipe", "pipe", "pipe"],
-      shell: false,
-      cwd: workingDirectory || undefined,
-      env: typeof process !== "undefined" ? process.env : undefined,
-    });
-
-    proc.stdin?.end();
-
-    if (signal) {
-      signal.addEventListener("abort", () => {
-        proc.kill("SIGTERM");
-      });
-    }
-
-    yield* this.processOutput(proc);
+    const source = this.runProcess(command, args, workingDirectory, useStdin ? prompt : undefined, signal);
+    yield* this.processOutput(source);
   }
 
-  private async *processOutput(proc: ChildProcessType): AsyncGenerator<StreamChunk> {
-    const stderrPromise = this.collectStderr(proc);
-    const closePromise = this.waitForClose(proc);
+  private async *processOutput(source: CliOutputSource): AsyncGenerator<StreamChunk> {
+    let buffer = "";
 
-    if (proc.stdout) {
-      proc.stdout.setEncoding("utf8");
-      let buffer = "";
-
-      for await (const chunk of proc.stdout) {
-        buffer += chunk;
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || "";
+    for await (const chunk of source.stdout) {
+      buffer += chunk;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
 
-        for (const line of lines) {
-          if (!line.trim()) continue;
-          yield* this.processJsonLine(line);
-        }
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        yield* this.processJsonLine(line);
       }
+    }
 
-      if (buffer.trim()) {
-        yield* this.processJsonLine(buffer);
-      }
+    if (buffer.trim()) {
+      yield* this.processJsonLine(buffer);
     }
 
-    const exitCode = await closePromise;
-    const stderr = await stderrPromise;
+    const exitCode = await source.exitCode;
+    const stderr = await source.stderr;
     if (stderr) {
       console.error("[Ronginus][Claude stderr]", stderr);
     }
@@ -496,7 +1095,11 @@ export class ClaudeCliProvider extends BaseCliProvider {
     try {
       const parsed = JSON.parse(line) as Record<string, unknown>;
 
-      if (parsed.type === "assistant") {
+      if (parsed.type === "system" && parsed.subtype === "init") {
+        if (typeof parsed.session_id === "string" && this.canResume) {
+          yield { type: "session_id", sessionId: parsed.session_id };
+        }
+      } else if (parsed.type === "assistant") {
         const message = parsed.message as Record<string, unknown> | undefined;
         if (message && Array.isArray(message.content)) {
           for (const block of message.content as Array<Record<string, unknown>>) {
@@ -505,6 +1108,21 @@ export class ClaudeCliProvider extends BaseCliProvider {
             }
           }
         }
+      } else if (parsed.type === "result") {
+        // Claude reports cache reads/writes separately from input_tokens
+        const usage = parsed.usage as Record<string, unknown> | undefined;
+        if (usage) {
+          const cacheRead = toNumber(usage.cache_read_input_tokens);
+          yield {
+            type: "usage",
+            usage: {
+              inputTokens: toNumber(usage.input_tokens) + cacheRead + toNumber(usage.cache_creation_input_tokens),
+              outputTokens: toNumber(usage.output_tokens),
+              cachedTokens: cacheRead,
+              costUsd: typeof parsed.total_cost_usd === "number" ? parsed.total_cost_usd : undefined,
+            },
+          };
+        }
       } else if (parsed.type === "content_block_delta") {
         const delta = parsed.delta as Record<string, unknown> | undefined;
         if (delta && delta.type === "text_delta" && typeof delta.text === "string") {
@@ -531,70 +1149,93 @@ export class CodexCliProvider extends BaseCliProvider {
   displayName = "Codex";
   private customPath?: string;
 
-  constructor(customPath?: string) {
+  constructor(customPath?: string, providerOptions: ProviderOptions = {}, capabilities?: ProviderCapabilities) {
     super();
     this.customPath = customPath;
+    this.providerOptions = providerOptions;
+    this.capabilities = capabilities;
   }
 
   protected resolveVersionCommand(): { command: string; args: string[] } {
     return resolveCodexCommand(["--version"], this.customPath);
   }
 
+  protected resolveHelpCommand(): { command: string; args: string[] } {
+    return resolveCodexCommand(["exec", "--help"], this.customPath);
+  }
+
+  protected detectCapabilities(help: string, version?: string): ProviderCapabilities {
+    const jsonStreaming = /--json\b/.test(help);
+    return {
+      version,
+      outputFormats: jsonStreaming ? ["text", "jsonl"] : ["text"],
+      stdinPrompt: /stdin/i.test(help),
+      jsonStreaming,
+      modelSelection: /--model\b/.test(help),
+      sandbox: /--sandbox\b/.test(help),
+      sessionResume: /^\s*resume\b/m.test(help),
+    };
+  }
+
+  protected resolveAuthCheckCommand(capabilities: ProviderCapabilities): { command: string; args: string[] } {
+    const args = ["exec", "--skip-git-repo-check"];
+    if (capabilities.sandbox) {
+      args.push(...getCodexSafetyArgs("read-only"));
+    }
+    args.push("Hello");
+    return resolveCodexCommand(args, this.customPath);
+  }
+
   async *chatStream(
     messages: Message[],
     systemPrompt: string,
     workingDirectory: string,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    options?: ChatOptions
   ): AsyncGenerator<StreamChunk> {
-    const { spawn } = getChildProcess();
     const prompt = formatHistoryAsPrompt(messages, systemPrompt);
-    const cliArgs = ["exec", "--json", "--skip-git-repo-check", prompt];
-    const { command, args } = resolveCodexCommand(cliArgs, this.customPath);
-
-    const proc = spawn(command, args, {
-      stdio: ["pipe", "pipe", "pipe"],
-      shell: false,
-      cwd: workingDirectory || undefined,
-      env: typeof process !== "undefined" ? process.env : undefined,
-    });
-
-    proc.stdin?.end();
-
-    if (signal) {
-      signal.addEventListener("abort", () => {
-        proc.kill("SIGTERM");
-      });
+    const delivery = choosePromptDelivery(prompt, this.promptDelivery);
+    if (delivery.error !== undefined) {
+      yield { type: "error", error: delivery.error };
+      return;
+    }
+    // Codex reads the prompt from stdin when the prompt argument is "-"
+    const useStdin = delivery.mode === "stdin";
+    const cliArgs = ["exec", "--json", "--skip-git-repo-check"];
+    if (this.capabilities?.sandbox !== false) {
+      cliArgs.push(...getCodexSafetyArgs(this.safetyLevel));
+    }
+    if (options?.sessionId && this.canResume) {
+      cliArgs.push("resume", options.sessionId);
     }
+    cliArgs.push(useStdin ? "-" : prompt);
+    await loadLoginShellPath();
+    const { command, args } = resolveCodexCommand(cliArgs, this.customPath, this.resolveChatOptions(options));
 
-    yield* this.processOutput(proc);
+    const source = this.runProcess(command, args, workingDirectory, useStdin ? prompt : undefined, signal);
+    yield* this.processOutput(source);
   }
 
-  private async *processOutput(proc: ChildProcessType): AsyncGenerator<StreamChunk> {
-    const stderrPromise = this.collectStderr(proc);
-    const closePromise = this.waitForClose(proc);
+  private async *processOutput(source: CliOutputSource): AsyncGenerator<StreamChunk> {
+    let buffer = "";
 
-    if (proc.stdout) {
-      proc.stdout.setEncoding("utf8");
-      let buffer = "";
-
-      for await (const chunk of proc.stdout) {
-        buffer += chunk;
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || "";
+    for await (const chunk of source.stdout) {
+      buffer += chunk;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
 
-        for (const line of lines) {
-          if (!line.trim()) continue;
-          yield* this.processJsonLine(line);
-        }
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        yield* this.processJsonLine(line);
       }
+    }
 
-      if (buffer.trim()) {
-        yield* this.processJsonLine(buffer);
-      }
+    if (buffer.trim()) {
+      yield* this.processJsonLine(buffer);
     }
 
-    const exitCode = await closePromise;
-    const stderr = await stderrPromise;
+    const exitCode = await source.exitCode;
+    const stderr = await source.stderr;
     if (stderr) {
       console.error("[Ronginus][Codex stderr]", stderr);
     }
@@ -610,11 +1251,27 @@ export class CodexCliProvider extends BaseCliProvider {
     try {
       const parsed = JSON.parse(line) as Record<string, unknown>;
 
-      if (parsed.type === "item.completed") {
+      if (parsed.type === "thread.started") {
+        if (typeof parsed.thread_id === "string" && this.canResume) {
+          yield { type: "session_id", sessionId: parsed.thread_id };
+        }
+      } else if (parsed.type === "item.completed") {
         const item = parsed.item as Record<string, unknown> | undefined;
         if (item && item.type === "agent_message" && typeof item.text === "string") {
           yield { type: "text", content: item.text };
         }
+      } else if (parsed.type === "turn.completed") {
+        const usage = parsed.usage as Record<string, unknown> | undefined;
+        if (usage) {
+          yield {
+            type: "usage",
+            usage: {
+              inputTokens: toNumber(usage.input_tokens),
+              outputTokens: toNumber(usage.output_tokens),
+              cachedTokens: toNumber(usage.cached_input_tokens),
+            },
+          };
+        }
       } else if (parsed.type === "error") {
         const errorMessage = typeof parsed.message === "string"
           ? parsed.message
@@ -627,16 +1284,227 @@ export class CodexCliProvider extends BaseCliProvider {
   }
 }
 
+/**
+ * Custom command provider (user-defined executable and argument template)
+ */
+export class CustomCliProvider extends BaseCliProvider {
+  name: CliType;
+  displayName: string;
+  private config: CustomProviderConfig;
+
+  constructor(config: CustomProviderConfig, providerOptions: ProviderOptions = {}, capabilities?: ProviderCapabilities) {
+    super();
+    this.config = config;
+    this.providerOptions = providerOptions;
+    this.capabilities = capabilities;
+    this.name = toCustomCliType(config.id);
+    this.displayName = config.displayName;
+  }
+
+  protected resolveVersionCommand(): { command: string; args: string[] } {
+    return { command: this.config.command, args: ["--version"] };
+  }
+
+  protected resolveHelpCommand(): { command: string; args: string[] } {
+    return { command: this.config.command, args: ["--help"] };
+  }
+
+  // Custom commands are described by their configuration rather than their help output
+  protected detectCapabilities(_help: string, version?: string): ProviderCapabilities {
+    return {
+      version,
+      outputFormats: [this.config.outputMode],
+      stdinPrompt: !parseArgsTemplate(this.config.argsTemplate).some(token => token.includes("{prompt}")),
+      jsonStreaming: this.config.outputMode === "jsonl",
+      modelSelection: this.config.argsTemplate.includes("{model}"),
+      sandbox: false,
+      sessionResume: false,
+    };
+  }
+
+  protected resolveAuthCheckCommand(): { command: string; args: string[] } {
+    return { command: this.config.command, args: expandArgsTemplate(this.config.argsTemplate, "Hello").args };
+  }
+
+  /**
+   * Custom commands may not support --version, so only run the template with a short prompt
+   */
+  async verify(): Promise<CliVerifyResult> {
+    if (Platform.isMobile) {
+      return { success: false, stage: "version", error: "CLI not available on mobile" };
+    }
+
+    if (!this.config.command.trim()) {
+      return { success: false, stage: "version", error: "No command configured" };
+    }
+
+    const { command, args } = this.resolveAuthCheckCommand();
+    const capabilities = this.detectCapabilities("");
+    const check = await runCheckProcess(command, args, {
+      env: this.processEnv,
+      timeoutMs: 60000,
+      stdinInput: capabilities.stdinPrompt ? "Hello" : undefined,
+    });
+
+    if (check.code === null && !check.timedOut) {
+      return { success: false, stage: "version", error: check.error || `${this.displayName} not found` };
+    }
+    if (check.code !== 0) {
+      return { success: false, stage: "auth", error: check.error || check.stderr || `Exit code: ${check.code}` };
+    }
+    if (!check.stdout.trim()) {
+      return { success: false, stage: "auth", error: "Command produced no output" };
+    }
+
+    return { success: true, capabilities };
+  }
+
+  async *chatStream(
+    messages: Message[],
+    systemPrompt: string,
+    workingDirectory: string,
+    signal?: AbortSignal,
+    options?: ChatOptions
+  ): AsyncGenerator<StreamChunk> {
+    const prompt = formatHistoryAsPrompt(messages, systemPrompt);
+    const { args, promptInArgs } = expandArgsTemplate(this.config.argsTemplate, prompt, options);
+
+    // The template decides the delivery; only enforce the size limits here
+    const delivery = choosePromptDelivery(prompt, promptInArgs ? "argv" : "stdin");
+    if (delivery.error !== undefined) {
+      yield { type: "error", error: delivery.error };
+      return;
+    }
+
+    const source = this.runProcess(this.config.command, args, workingDirectory, promptInArgs ? undefined : prompt, signal);
+    yield* this.processOutput(source);
+  }
+
+  private async *processOutput(source: CliOutputSource): AsyncGenerator<StreamChunk> {
+    let hadText = false;
+    if (this.config.outputMode === "jsonl") {
+      let buffer = "";
+      for await (const chunk of source.stdout) {
+        buffer += chunk;
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          for (const parsed of this.processJsonLine(line)) {
+            if (parsed.type === "text") hadText = true;
+            yield parsed;
+          }
+        }
+      }
+
+      if (buffer.trim()) {
+        for (const parsed of this.processJsonLine(buffer)) {
+          if (parsed.type === "text") hadText = true;
+          yield parsed;
+        }
+      }
+    } else {
+      for await (const chunk of source.stdout) {
+        hadText = true;
+        yield { type: "text", content: chunk };
+      }
+    }
+
+    const exitCode = await source.exitCode;
+    const stderr = await source.stderr;
+    if (stderr) {
+      console.error(`[Ronginus][${this.displayName} stderr]`, stderr);
+    }
+    if (exitCode !== 0 && !hadText) {
+      yield { type: "error", error: `${this.displayName} exited with code ${exitCode}` };
+      return;
+    }
+
+    yield { type: "done" };
+  }
+
+  private *processJsonLine(line: string): Generator<StreamChunk> {
+    try {
+      const parsed = JSON.parse(line) as unknown;
+      const text = getValueAtPath(parsed, this.config.jsonTextPath || "text");
+      if (typeof text === "string") {
+        if (text) {
+          yield { type: "text", content: text };
+        }
+        return;
+      }
+
+      const error = getValueAtPath(parsed, "error");
+      if (typeof error === "string") {
+        yield { type: "error", error };
+      } else if (error && typeof error === "object") {
+        const message = (error as Record<string, unknown>).message;
+        yield { type: "error", error: typeof message === "string" ? message : "Unknown error" };
+      }
+    } catch {
+      // Ignore JSON parse errors
+    }
+  }
+}
+
 /**
  * CLI Provider Manager
  */
 export class CliProviderManager {
   private providers: Map<CliType, CliProviderInterface> = new Map();
+  private isolatedDirectory?: string;
+
+  constructor(cliConfig: CliConfig, fixtureRecorder?: CliFixtureRecorder) {
+    const options = cliConfig.providerOptions || {};
+    const capabilities = cliConfig.capabilities || {};
+    this.providers.set(
+      "gemini-cli",
+      new GeminiCliProvider(cliConfig.geminiCliPath, options["gemini-cli"], capabilities["gemini-cli"])
+    );
+    this.providers.set(
+      "claude-cli",
+      new ClaudeCliProvider(cliConfig.claudeCliPath, options["claude-cli"], capabilities["claude-cli"])
+    );
+    this.providers.set(
+      "codex-cli",
+      new CodexCliProvider(cliConfig.codexCliPath, options["codex-cli"], capabilities["codex-cli"])
+    );
+    for (const config of cliConfig.customProviders || []) {
+      const type = toCustomCliType(config.id);
+      const provider = new CustomCliProvider(config, options[type], capabilities[type]);
+      this.providers.set(provider.name, provider);
+    }
+    for (const config of cliConfig.httpProviders || []) {
+      const provider = new OpenAiCompatibleProvider(config);
+      this.providers.set(provider.name, provider);
+    }
+    this.providers.set("fake-cli", new FakeCliProvider(cliConfig.fakeProvider || DEFAULT_FAKE_PROVIDER_CONFIG));
+
+    for (const provider of this.providers.values()) {
+      if (provider instanceof BaseCliProvider) {
+        provider.setFixtureRecorder(fixtureRecorder);
+        provider.setIsolatedDirectory(() => this.getIsolatedDirectory());
+      }
+    }
+  }
 
-  constructor(cliPaths?: { gemini?: string; claude?: string; codex?: string }) {
-    this.providers.set("gemini-cli", new GeminiCliProvider(cliPaths?.gemini));
-    this.providers.set("claude-cli", new ClaudeCliProvider(cliPaths?.claude));
-    this.providers.set("codex-cli", new CodexCliProvider(cliPaths?.codex));
+  /**
+   * Empty temporary folder for isolated runs, created on first use and kept until removed
+   * (so CLIs that key their sessions by folder can resume within a debate)
+   */
+  private getIsolatedDirectory(): string {
+    this.isolatedDirectory ??= createIsolatedDirectory();
+    return this.isolatedDirectory;
+  }
+
+  /**
+   * Delete the isolated folder, so files written in one debate are not seen by the next
+   */
+  removeIsolatedDirectory(): void {
+    if (!this.isolatedDirectory) return;
+    removeIsolatedDirectory(this.isolatedDirectory);
+    this.isolatedDirectory = undefined;
   }
 
   getProvider(name: CliType): CliProviderInterface | undefined {
@@ -664,6 +1532,47 @@ export class CliProviderManager {
   }
 }
 
+/**
+ * Create a provider that parses a captured fixture instead of running its CLI
+ */
+export function createReplayProvider(fixture: CliFixture, cliConfig: CliConfig): CliProviderInterface {
+  const options = cliConfig.providerOptions || {};
+  const capabilities = cliConfig.capabilities || {};
+  let provider: BaseCliProvider;
+  switch (fixture.provider) {
+    case "gemini-cli": {
+      // Parse with the format the fixture was captured in, not the detected one
+      const jsonStreaming = fixture.args.includes("stream-json");
+      provider = new GeminiCliProvider(cliConfig.geminiCliPath, options["gemini-cli"], {
+        outputFormats: jsonStreaming ? ["text", "stream-json"] : ["text"],
+        stdinPrompt: true,
+        modelSelection: true,
+        sandbox: true,
+        sessionResume: false,
+        ...capabilities["gemini-cli"],
+        jsonStreaming,
+      });
+      break;
+    }
+    case "claude-cli":
+      provider = new ClaudeCliProvider(cliConfig.claudeCliPath, options["claude-cli"], capabilities["claude-cli"]);
+      break;
+    case "codex-cli":
+      provider = new CodexCliProvider(cliConfig.codexCliPath, options["codex-cli"], capabilities["codex-cli"]);
+      break;
+    default: {
+      // Custom providers are replayed with their current output settings
+      const config = (cliConfig.customProviders || []).find(c => toCustomCliType(c.id) === fixture.provider);
+      if (!config) {
+        throw new Error(`No CLI provider matches fixture provider "${fixture.provider}"`);
+      }
+      provider = new CustomCliProvider(config, options[fixture.provider], capabilities[fixture.provider]);
+    }
+  }
+  provider.setReplayFixture(fixture);
+  return provider;
+}
+
 /**
  * CLI verification result
  */
@@ -672,6 +1581,7 @@ export interface CliVerifyResult {
   stage?: "version" | "auth";
   error?: string;
   version?: string;
+  capabilities?: ProviderCapabilities;
 }
 
 /**
@@ -693,111 +1603,6 @@ export function validateCliPath(path: string): { valid: boolean; reason?: string
   return { valid: true };
 }
 
-/**
- * Verify Gemini CLI installation and authentication
- */
-export async function verifyGeminiCli(customPath?: string): Promise<CliVerifyResult> {
-  if (Platform.isMobile) {
-    return { success: false, stage: "version", error: "CLI not available on mobile" };
-  }
-
-  const { spawn } = getChildProcess();
-
-  // Step 1: Check if CLI exists (--version)
-  const versionCheck = await new Promise<{ success: boolean; error?: string }>((resolve) => {
-    try {
-      const { command, args } = resolveGeminiCommand(["--version"], customPath);
-      const proc = spawn(command, args, {
-        stdio: ["pipe", "pipe", "pipe"],
-        shell: false,
-        env: typeof process !== "undefined" ? process.env : undefined,
-      });
-
-      // Close stdin immediately
-      proc.stdin?.end();
-
-      let stderr = "";
-      proc.stderr?.on("data", (data: Uint8Array) => {
-        stderr += new TextDecoder().decode(data);
-      });
-
-      // Drain stdout to prevent buffer blocking
-      proc.stdout?.on("data", () => {});
-
-      proc.on("close", (code: number | null) => {
-        if (code === 0) {
-          resolve({ success: true });
-        } else {
-          resolve({ success: false, error: stderr || `Exit code: ${code}` });
-        }
-      });
-
-      proc.on("error", (err: Error) => {
-        resolve({ success: false, error: err.message });
-      });
-
-      setTimeout(() => {
-        proc.kill();
-        resolve({ success: false, error: "Timeout" });
-      }, 30000);
-    } catch (err) {
-      resolve({ success: false, error: String(err) });
-    }
-  });
-
-  if (!versionCheck.success) {
-    return { success: false, stage: "version", error: versionCheck.error || "Gemini CLI not found" };
-  }
-
-  // Step 2: Check if logged in (run a simple prompt)
-  const loginCheck = await new Promise<{ success: boolean; error?: string }>((resolve) => {
-    try {
-      const { command, args } = resolveGeminiCommand(["-p", "Hello"], customPath);
-      const proc = spawn(command, args, {
-        stdio: ["pipe", "pipe", "pipe"],
-        shell: false,
-        env: typeof process !== "undefined" ? process.env : undefined,
-      });
-
-      // Close stdin immediately
-      proc.stdin?.end();
-
-      let stderr = "";
-      proc.stderr?.on("data", (data: Uint8Array) => {
-        stderr += new TextDecoder().decode(data);
-      });
-
-      // Drain stdout to prevent buffer blocking
-      proc.stdout?.on("data", () => {});
-
-      proc.on("close", (code: number | null) => {
-        if (code === 0) {
-          resolve({ success: true });
-        } else {
-          resolve({ success: false, error: stderr || `Exit code: ${code}` });
-        }
-      });
-
-      proc.on("error", (err: Error) => {
-        resolve({ success: false, error: err.message });
-      });
-
-      setTimeout(() => {
-        proc.kill();
-        resolve({ success: false, error: "Timeout - CLI may not be logged in" });
-      }, 60000);
-    } catch (err) {
-      resolve({ success: false, error: String(err) });
-    }
-  });
-
-  if (!loginCheck.success) {
-    return { success: false, stage: "auth", error: loginCheck.error || "Please run 'gemini auth login' to log in" };
-  }
-
-  return { success: true };
-}
-
 /**
  * Format Windows Claude CLI error message
  */
@@ -818,170 +1623,81 @@ function formatWindowsClaudeCliError(message: string | undefined): string | unde
 }
 
 /**
- * Verify Claude CLI installation and authentication
+ * Run a short check command and collect its output
  */
-export async function verifyClaudeCli(customPath?: string): Promise<CliVerifyResult> {
-  if (Platform.isMobile) {
-    return { success: false, stage: "version", error: "CLI not available on mobile" };
-  }
-
+function runCheckProcess(
+  command: string,
+  args: string[],
+  options: { env?: NodeJS.ProcessEnv; timeoutMs: number; timeoutMessage?: string; stdinInput?: string }
+): Promise<{ code: number | null; stdout: string; stderr: string; error?: string; timedOut?: boolean }> {
   const { spawn } = getChildProcess();
+  const { env, timeoutMs, timeoutMessage = "Timeout", stdinInput } = options;
 
-  // Step 1: Check if CLI exists (--version)
-  const versionCheck = await new Promise<{ success: boolean; error?: string }>((resolve) => {
+  return new Promise((resolve) => {
     try {
-      const { command, args } = resolveClaudeCommand(["--version"], customPath);
       const proc = spawn(command, args, {
         stdio: ["pipe", "pipe", "pipe"],
         shell: false,
-        env: typeof process !== "undefined" ? process.env : undefined,
-      });
-
-      // Close stdin immediately to signal no more input
-      proc.stdin?.end();
-
-      let stderr = "";
-      proc.stderr?.on("data", (data: Uint8Array) => {
-        stderr += new TextDecoder().decode(data);
-      });
-
-      // Drain stdout to prevent buffer blocking
-      proc.stdout?.on("data", () => {
-        // Ignore stdout data, just drain the buffer
-      });
-
-      proc.on("close", (code: number | null) => {
-        if (code === 0) {
-          resolve({ success: true });
-        } else {
-          resolve({ success: false, error: formatWindowsClaudeCliError(stderr) || `Exit code: ${code}` });
-        }
-      });
-
-      proc.on("error", (err: Error) => {
-        resolve({ success: false, error: formatWindowsClaudeCliError(err.message) });
+        env: withExecutableDirectory(env, command),
       });
 
-      setTimeout(() => {
-        proc.kill();
-        resolve({ success: false, error: formatWindowsClaudeCliError("Timeout") });
-      }, 30000);
-    } catch (err) {
-      resolve({ success: false, error: formatWindowsClaudeCliError(String(err)) });
-    }
-  });
-
-  if (!versionCheck.success) {
-    return { success: false, stage: "version", error: versionCheck.error || "Claude CLI not found" };
-  }
+      // Close stdin immediately (after the prompt, if any)
+      proc.stdin?.end(stdinInput);
 
-  // Step 2: Check if logged in (run a simple prompt)
-  const loginCheck = await new Promise<{ success: boolean; error?: string }>((resolve) => {
-    try {
-      const { command, args } = resolveClaudeCommand(["-p", "Hello", "--output-format", "text"], customPath);
-      const proc = spawn(command, args, {
-        stdio: ["pipe", "pipe", "pipe"],
-        shell: false,
-        env: typeof process !== "undefined" ? process.env : undefined,
+      let stdout = "";
+      proc.stdout?.on("data", (data: Uint8Array) => {
+        stdout += new TextDecoder().decode(data);
       });
 
-      // Close stdin immediately to signal no more input
-      proc.stdin?.end();
-
       let stderr = "";
       proc.stderr?.on("data", (data: Uint8Array) => {
         stderr += new TextDecoder().decode(data);
       });
 
-      // Drain stdout to prevent buffer blocking
-      proc.stdout?.on("data", () => {
-        // Ignore stdout data, just drain the buffer
-      });
+      const timer = setTimeout(() => {
+        proc.kill();
+        resolve({ code: null, stdout, stderr, error: timeoutMessage, timedOut: true });
+      }, timeoutMs);
 
       proc.on("close", (code: number | null) => {
-        if (code === 0) {
-          resolve({ success: true });
-        } else {
-          resolve({ success: false, error: formatWindowsClaudeCliError(stderr) || `Exit code: ${code}` });
-        }
+        clearTimeout(timer);
+        resolve({ code, stdout, stderr });
       });
 
       proc.on("error", (err: Error) => {
-        resolve({ success: false, error: formatWindowsClaudeCliError(err.message) });
+        clearTimeout(timer);
+        resolve({ code: null, stdout: "", stderr: "", error: err.message });
       });
-
-      setTimeout(() => {
-        proc.kill();
-        resolve({ success: false, error: formatWindowsClaudeCliError("Timeout - CLI may not be logged in") });
-      }, 60000);
     } catch (err) {
-      resolve({ success: false, error: formatWindowsClaudeCliError(String(err)) });
+      resolve({ code: null, stdout: "", stderr: "", error: String(err) });
     }
   });
-
-  if (!loginCheck.success) {
-    return { success: false, stage: "auth", error: loginCheck.error || "Please run 'claude' in terminal to log in" };
-  }
-
-  return { success: true };
 }
 
 /**
- * Verify Codex CLI installation and authentication
+ * Extract the version number from --version output
  */
-export async function verifyCodexCli(customPath?: string): Promise<CliVerifyResult> {
-  if (Platform.isMobile) {
-    return { success: false, stage: "version", error: "CLI not available on mobile" };
-  }
-
-  const { spawn } = getChildProcess();
-
-  // Step 1: Check if CLI exists (--version)
-  const versionCheck = await new Promise<{ success: boolean; error?: string }>((resolve) => {
-    try {
-      const { command, args } = resolveCodexCommand(["--version"], customPath);
-      const proc = spawn(command, args, {
-        stdio: ["pipe", "pipe", "pipe"],
-        shell: false,
-        env: typeof process !== "undefined" ? process.env : undefined,
-      });
-
-      // Close stdin immediately
-      proc.stdin?.end();
-
-      let stderr = "";
-      proc.stderr?.on("data", (data: Uint8Array) => {
-        stderr += new TextDecoder().decode(data);
-      });
-
-      // Drain stdout to prevent buffer blocking
-      proc.stdout?.on("data", () => {});
-
-      proc.on("close", (code: number | null) => {
-        if (code === 0) {
-          resolve({ success: true });
-        } else {
-          resolve({ success: false, error: stderr || `Exit code: ${code}` });
-        }
-      });
-
-      proc.on("error", (err: Error) => {
-        resolve({ success: false, error: err.message });
-      });
+function parseVersion(stdout: string): string | undefined {
+  const match = stdout.match(/\d+\.\d+(\.\d+)?[\w.-]*/);
+  if (match) return match[0];
+  return stdout.trim().split("\n")[0] || undefined;
+}
 
-      setTimeout(() => {
-        proc.kill();
-        resolve({ success: false, error: "Timeout" });
-      }, 30000);
-    } catch (err) {
-      resolve({ success: false, error: String(err) });
-    }
-  });
+/**
+ * List the --output-format values mentioned in the help output
+ */
+function detectOutputFormats(help: string, candidates: string[]): string[] {
+  if (!help.includes("--output-format")) return [];
+  return candidates.filter(format => help.includes(`"${format}"`));
+}
 
-  if (!versionCheck.success) {
-    return { success: false, stage: "version", error: versionCheck.error || "Codex CLI not found" };
+/**
+ * Verify a provider's installation and authentication
+ */
+export async function verifyProvider(type: CliType, cliConfig: CliConfig): Promise<CliVerifyResult> {
+  const provider = new CliProviderManager(cliConfig).getProvider(type);
+  if (!provider) {
+    return { success: false, stage: "version", error: `Unknown provider: ${type}` };
   }
-
-  // For Codex, version check is sufficient - auth is handled via OPENAI_API_KEY
-  return { success: true };
+  return provider.verify();
 }
@@ -1,10 +1,12 @@
 /**
  * Debate Engine for Ronginus
- * Orchestrates parallel debates between Gemini, Claude, and Codex CLIs
+ * Orchestrates parallel or sequential debates between Gemini, Claude, and Codex CLIs
  */
 
 import type {
   CliType,
+  ConvergenceCheck,
+  ConvergenceVerdict,
   Message,
   DebateTurn,
   DebateResponse,
@@ -12,21 +14,42 @@ import type {
   VoteResult,
   DebateResult,
   RonginusSettings,
+  DebateFormat,
   DebatePhase,
+  DebateStopReason,
+  JudgeCriterion,
+  JudgeEvaluation,
+  JudgeResult,
+  JudgingResult,
+  ModeratorSummary,
   Participant,
+  ScoreboardEntry,
+  TieBreakPolicy,
+  TieBreakRound,
+  VoteTally,
+  VotingMethod,
   Voter,
   ParticipantType,
+  ParticipantFailureAction,
+  TokenUsage,
 } from "../types";
-import { CliProviderManager, CliProviderInterface } from "./cliProvider";
+import { addTokenUsage, formatParticipantName, JUDGE_SCORE_MAX, JUDGE_SCORE_MIN, parseJudgeRubric, getUserDefinedProviderName, getVerifiedUserDefinedProviders } from "../types";
+import { CliProviderManager, CliProviderInterface, ChatOptions, CliFixtureRecorder, parseArgsTemplate } from "./cliProvider";
+import { ResponseTimeoutError, getRetryDelayMs, isRetryableError, sleep } from "./retry";
+import { ConcurrencyScheduler } from "./scheduler";
+import { getPreferredCandidate, isRankingMethod, tallyVotes } from "./voteTally";
+import { createVoteCandidates, parseBallot, VoteCandidate } from "./voteBallot";
 import { t } from "../i18n";
 
 export interface UserInputRequest {
-  type: "debate" | "vote";
+  type: "debate" | "vote" | "moderate" | "judge";
   participantId: string;
   displayName: string;
   role?: string;
-  // For voting
+  // For voting and judging
   candidates?: { id: string; displayName: string }[];
+  // For judging
+  criteria?: JudgeCriterion[];
 }
 
 export interface UserInputResponse {
@@ -34,22 +57,73 @@ export interface UserInputResponse {
   // For voting
   votedForId?: string;
   reason?: string;
+  ranking?: string[];
+  approvals?: string[];
+  scores?: Record<string, number>;
+  // For moderating
+  converged?: boolean;
+  // For judging
+  evaluations?: JudgeEvaluation[];
+}
+
+export interface ParticipantFailureRequest {
+  turnNumber: number;
+  response: DebateResponse;   // The error response
+}
+
+export interface ParticipantFailureDecision {
+  action: ParticipantFailureAction;
+  // For "replace"
+  replacementType?: ParticipantType;
 }
 
 export interface DebateEventCallbacks {
   onPhaseChange?: (phase: DebatePhase) => void;
   onTurnStart?: (turnNumber: number) => void;
+  onSpeakerChange?: (participantId: string | null) => void;
   onResponseStream?: (participantId: string, content: string) => void;
   onResponseComplete?: (participantId: string, response: DebateResponse) => void;
   onTurnComplete?: (turn: DebateTurn) => void;
+  onModerationComplete?: (turnNumber: number, summary: ModeratorSummary) => void;
+  onTotalTurnsChange?: (totalTurns: number) => void;
+  onConvergenceCheck?: (turnNumber: number, check: ConvergenceCheck) => void;
   onConclusionStream?: (participantId: string, content: string) => void;
   onConclusionComplete?: (conclusion: DebateConclusion) => void;
   onVoteComplete?: (vote: VoteResult) => void;
+  onJudgeComplete?: (result: JudgeResult) => void;
+  onJudgingComplete?: (judging: JudgingResult) => void;
+  onTieBreakComplete?: (round: TieBreakRound) => void;
+  onUsage?: (participantId: string, usage: TokenUsage, total: TokenUsage) => void;
+  onRetry?: (participantId: string, attempt: number, maxAttempts: number, error: string) => void;
+  onQueueChange?: (participantId: string, queued: boolean) => void;
   onDebateComplete?: (result: DebateResult) => void;
   onError?: (error: Error) => void;
   onUserInputRequest?: (request: UserInputRequest) => Promise<UserInputResponse>;
+  onParticipantFailure?: (request: ParticipantFailureRequest) => Promise<ParticipantFailureDecision>;
+  onParticipantsChange?: (participants: Participant[]) => void;
+}
+
+/**
+ * Result of a streamed provider call
+ */
+interface StreamResult {
+  content: string;
+  usage?: TokenUsage;
+  sessionId?: string;
+}
+
+/**
+ * CLI session kept by a participant across turns
+ */
+interface ParticipantSession {
+  sessionId: string;
+  // Number of turns already included in the session
+  syncedTurns: number;
 }
 
+// Usage of the adaptive-turns consensus check is recorded under this ID
+export const CONVERGENCE_CHECKER_ID = "convergence-checker";
+
 class AbortError extends Error {
   constructor(message: string) {
     super(message);
@@ -59,20 +133,25 @@ class AbortError extends Error {
 
 export class DebateEngine {
   private providerManager: CliProviderManager;
+  private scheduler: ConcurrencyScheduler;
   private settings: RonginusSettings;
   private workingDirectory: string;
   private abortController: AbortController | null = null;
   private callbacks: DebateEventCallbacks = {};
+  private sessions = new Map<string, ParticipantSession>();
+  private format: DebateFormat = "parallel";
+  private votingMethod: VotingMethod = "plurality";
+  private usageByParticipant = new Map<string, TokenUsage>();
+  private totalUsage: TokenUsage | undefined;
 
-  constructor(settings: RonginusSettings, workingDirectory: string) {
+  constructor(settings: RonginusSettings, workingDirectory: string, fixtureRecorder?: CliFixtureRecorder) {
     this.settings = settings;
     this.workingDirectory = workingDirectory;
-    const cliPaths = {
-      gemini: settings.cliConfig.geminiCliPath,
-      claude: settings.cliConfig.claudeCliPath,
-      codex: settings.cliConfig.codexCliPath,
-    };
-    this.providerManager = new CliProviderManager(cliPaths);
+    this.providerManager = new CliProviderManager(settings.cliConfig, fixtureRecorder);
+    this.scheduler = new ConcurrencyScheduler(
+      settings.maxConcurrentResponses,
+      (type) => settings.cliConfig.providerOptions?.[type]?.maxConcurrent ?? 0
+    );
   }
 
   setCallbacks(callbacks: DebateEventCallbacks): void {
@@ -107,6 +186,13 @@ export class DebateEngine {
       }
     }
 
+    for (const { type } of getVerifiedUserDefinedProviders(cliConfig)) {
+      const provider = this.providerManager.getProvider(type);
+      if (provider) {
+        providers.push(provider);
+      }
+    }
+
     return providers;
   }
 
@@ -120,6 +206,184 @@ export class DebateEngine {
     return this.providerManager.getProvider(type) || null;
   }
 
+  /**
+   * Get per-call options (model and extra CLI arguments) for a participant or voter
+   */
+  private getChatOptions(participant: Participant | Voter): ChatOptions {
+    return {
+      model: participant.model || undefined,
+      extraArgs: participant.extraArgs ? parseArgsTemplate(participant.extraArgs) : undefined,
+    };
+  }
+
+  /**
+   * Get the session to resume for a participant (if sessions are enabled)
+   */
+  private getSession(participantId: string): ParticipantSession | undefined {
+    return this.settings.resumeSessions ? this.sessions.get(participantId) : undefined;
+  }
+
+  /**
+   * Remember a participant's session after a successful call
+   */
+  private updateSession(
+    participantId: string,
+    sessionId: string | undefined,
+    syncedTurns: number
+  ): void {
+    if (sessionId) {
+      this.sessions.set(participantId, { sessionId, syncedTurns });
+    } else {
+      this.sessions.delete(participantId);
+    }
+  }
+
+  /**
+   * Add reported token usage to the participant's and the debate's totals
+   */
+  private recordUsage(participantId: string, usage: TokenUsage): void {
+    this.usageByParticipant.set(
+      participantId,
+      addTokenUsage(this.usageByParticipant.get(participantId), usage)
+    );
+    this.totalUsage = addTokenUsage(this.totalUsage, usage);
+    this.callbacks.onUsage?.(participantId, usage, this.totalUsage);
+  }
+
+  /**
+   * Get the response timeout for a provider (0 = no timeout)
+   */
+  private getTimeoutSeconds(type: CliType): number {
+    const override = this.settings.cliConfig.providerOptions?.[type]?.timeoutSeconds;
+    return override ?? this.settings.responseTimeoutSeconds;
+  }
+
+  /**
+   * Stream a response from a provider, retrying failed attempts according to the retry policy
+   */
+  private async streamResponse(
+    provider: CliProviderInterface,
+    participantId: string,
+    messages: Message[],
+    systemPrompt: string,
+    options: ChatOptions,
+    onText?: (content: string) => void
+  ): Promise<StreamResult> {
+    const policy = this.settings.retryPolicy;
+    const maxAttempts = Math.max(1, policy.maxAttempts);
+    const result: StreamResult = { content: "", sessionId: options.sessionId };
+
+    for (let attempt = 1; ; attempt++) {
+      result.content = "";
+      // The slot is held for one attempt only, so other participants can run during the backoff
+      const release = await this.acquireSlot(provider, participantId);
+      let err: Error;
+      try {
+        await this.streamAttempt(provider, participantId, messages, systemPrompt, options, result, onText);
+        return result;
+      } catch (error) {
+        err = error as Error;
+      } finally {
+        release();
+      }
+
+      if (this.abortController?.signal.aborted) {
+        throw new AbortError("Debate aborted");
+      }
+      if (attempt >= maxAttempts || !isRetryableError(err, result.content.length > 0, policy)) {
+        throw err;
+      }
+      this.callbacks.onRetry?.(participantId, attempt + 1, maxAttempts, err.message);
+      await sleep(getRetryDelayMs(policy, attempt + 1), this.abortController?.signal);
+      if (this.abortController?.signal.aborted) {
+        throw new AbortError("Debate aborted");
+      }
+    }
+  }
+
+  /**
+   * Wait for a concurrency slot, reporting the participant as queued while it waits
+   */
+  private async acquireSlot(provider: CliProviderInterface, participantId: string): Promise<() => void> {
+    let queued = false;
+    const release = await this.scheduler.acquire(provider.name, this.abortController?.signal, () => {
+      queued = true;
+      this.callbacks.onQueueChange?.(participantId, true);
+    });
+    if (queued) {
+      this.callbacks.onQueueChange?.(participantId, false);
+    }
+    if (this.abortController?.signal.aborted) {
+      release();
+      throw new AbortError("Debate aborted");
+    }
+    return release;
+  }
+
+  /**
+   * Stream a single attempt, aborting it when the response timeout elapses
+   */
+  private async streamAttempt(
+    provider: CliProviderInterface,
+    participantId: string,
+    messages: Message[],
+    systemPrompt: string,
+    options: ChatOptions,
+    result: StreamResult,
+    onText?: (content: string) => void
+  ): Promise<void> {
+    const timeoutSeconds = this.getTimeoutSeconds(provider.name);
+    const attemptController = new AbortController();
+    const parentSignal = this.abortController?.signal;
+    const onParentAbort = () => attemptController.abort();
+    parentSignal?.addEventListener("abort", onParentAbort);
+
+    // Race every chunk against the timeout so a CLI that ignores SIGTERM cannot block the turn
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      if (timeoutSeconds > 0) {
+        timer = setTimeout(() => {
+          attemptController.abort();
+          reject(new ResponseTimeoutError(timeoutSeconds));
+        }, timeoutSeconds * 1000);
+      }
+    });
+
+    const stream = provider.chatStream(
+      messages,
+      systemPrompt,
+      this.workingDirectory,
+      attemptController.signal,
+      options
+    );
+
+    try {
+      while (true) {
+        const { done, value: chunk } = await Promise.race([stream.next(), timeout]);
+        if (done) break;
+
+        if (chunk.type === "text" && chunk.content) {
+          result.content += chunk.content;
+          onText?.(result.content);
+        } else if (chunk.type === "session_id" && chunk.sessionId) {
+          result.sessionId = chunk.sessionId;
+        } else if (chunk.type === "usage" && chunk.usage) {
+          result.usage = addTokenUsage(result.usage, chunk.usage);
+          this.recordUsage(participantId, chunk.usage);
+        } else if (chunk.type === "error" && chunk.error) {
+          throw new Error(chunk.error);
+        }
+      }
+    } catch (error) {
+      // Stop the generator (it may still be waiting on the killed process)
+      stream.return(undefined).catch(() => undefined);
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      parentSignal?.removeEventListener("abort", onParentAbort);
+    }
+  }
+
   /**
    * Run a complete debate on a theme
    */
@@ -127,13 +391,24 @@ export class DebateEngine {
     theme: string,
     turns: number = this.settings.defaultTurns,
     debateParticipants?: Participant[],
-    voteParticipants?: Voter[]
+    voteParticipants?: Voter[],
+    format: DebateFormat = "parallel",
+    moderator?: Participant,
+    judges: Voter[] = [],
+    votingMethod: VotingMethod = "plurality",
+    adaptive = false
   ): Promise<DebateResult> {
     this.abortController = new AbortController();
+    this.format = format;
+    this.votingMethod = votingMethod;
+    this.sessions.clear();
+    this.usageByParticipant.clear();
+    this.totalUsage = undefined;
     const startTime = Date.now();
 
     // Use provided participants or fall back to verified providers
-    const participants = debateParticipants || this.getDefaultParticipants();
+    // (copied because failed participants can be replaced or dropped mid-debate)
+    const participants = [...(debateParticipants || this.getDefaultParticipants())];
     const voters = voteParticipants || this.getDefaultVoters();
 
     if (participants.length < 1) {
@@ -145,22 +420,61 @@ export class DebateEngine {
     const votes: VoteResult[] = [];
 
     try {
-      // Run discussion turns
-      for (let turn = 1; turn <= turns; turn++) {
+      // Run discussion turns (a moderator can end them early; with adaptive turns a convergence check
+      // can also end them early, or add turns up to the maximum while disagreement is sharp)
+      let totalTurns = turns;
+      const maxTurns = Math.max(turns, this.settings.adaptiveTurns.maxTurns);
+      let stopReason: DebateStopReason = "planned-turns";
+      let stopDetail: string | undefined;
+      for (let turn = 1; turn <= totalTurns; turn++) {
         this.callbacks.onPhaseChange?.("thinking");
         this.callbacks.onTurnStart?.(turn);
 
-        const isLastTurn = turn === turns;
-        const turnResult = await this.runTurnWithParticipants(
-          theme,
-          turn,
-          allTurns,
-          participants,
-          isLastTurn
-        );
+        const isLastTurn = turn === totalTurns;
+        const turnResult = this.format === "sequential"
+          ? await this.runSequentialTurn(theme, turn, allTurns, participants, isLastTurn)
+          : await this.runTurnWithParticipants(theme, turn, allTurns, participants, isLastTurn);
         allTurns.push(turnResult);
         this.callbacks.onTurnComplete?.(turnResult);
         this.callbacks.onPhaseChange?.("turn_complete");
+
+        // The final turn gives conclusions, so there is nothing left to moderate
+        if (moderator && !isLastTurn) {
+          this.callbacks.onPhaseChange?.("moderating");
+          const summary = await this.runModeration(theme, allTurns, participants, moderator);
+          turnResult.moderation = summary;
+          this.callbacks.onModerationComplete?.(turn, summary);
+          // Converged: the next turn becomes the final (conclusion) turn
+          if (summary.converged && turn + 1 < totalTurns) {
+            totalTurns = turn + 1;
+            stopReason = "moderator-converged";
+            this.callbacks.onTotalTurnsChange?.(totalTurns);
+          }
+        }
+
+        // Nothing to check once the moderator has made the next turn the final one
+        if (adaptive && !isLastTurn && stopReason !== "moderator-converged") {
+          this.callbacks.onPhaseChange?.("checking");
+          const check = await this.runConvergenceCheck(theme, allTurns, participants);
+          turnResult.convergence = check;
+          this.callbacks.onConvergenceCheck?.(turn, check);
+          if (check.verdict === "converged" && turn + 1 < totalTurns) {
+            // Converged: the next turn becomes the final (conclusion) turn
+            totalTurns = turn + 1;
+            stopReason = "consensus";
+            stopDetail = check.reason;
+            this.callbacks.onTotalTurnsChange?.(totalTurns);
+          } else if (check.verdict === "disagreement" && turn + 1 === totalTurns) {
+            // Still sharply divided before the final turn: add a turn unless the maximum is reached
+            if (totalTurns < maxTurns) {
+              totalTurns++;
+              this.callbacks.onTotalTurnsChange?.(totalTurns);
+            } else {
+              stopReason = "max-turns";
+              stopDetail = check.reason;
+            }
+          }
+        }
       }
 
       // Collect conclusions (from last turn or explicit conclusion phase)
@@ -188,22 +502,49 @@ export class DebateEngine {
         conclusions.push(...explicitConclusions);
       }
 
-      // Voting phase
-      this.callbacks.onPhaseChange?.("voting");
-      const voteResults = await this.runVotingWithVoters(
-        theme,
-        conclusions,
-        voters
-      );
-      votes.push(...voteResults);
-
-      // Determine winner(s)
-      const { winnerIds, isDraw } = this.determineWinnersById(votes, conclusions);
+      // Decide the winner: a judge panel scores the conclusions, otherwise participants vote
+      let judging: JudgingResult | undefined;
+      let voteTally: VoteTally | undefined;
+      let tieBreaks: TieBreakRound[] | undefined;
+      let winnerIds: string[];
+      let isDraw: boolean;
+      if (judges.length > 0) {
+        this.callbacks.onPhaseChange?.("judging");
+        const criteria = parseJudgeRubric(this.settings.judgeRubric);
+        const results = await this.runJudging(theme, conclusions, judges, criteria);
+        judging = {
+          criteria,
+          judges,
+          results,
+          scoreboard: this.buildScoreboard(conclusions, criteria, results),
+        };
+        this.callbacks.onJudgingComplete?.(judging);
+        ({ winnerIds, isDraw } = this.determineWinnersByScore(judging.scoreboard));
+      } else {
+        this.callbacks.onPhaseChange?.("voting");
+        const voteResults = await this.runVotingWithVoters(
+          theme,
+          conclusions,
+          voters
+        );
+        votes.push(...voteResults);
+        ({ winnerIds, isDraw, tally: voteTally } = this.determineWinnersById(votes, conclusions));
+
+        if (isDraw && this.settings.tieBreak.policy !== "none") {
+          this.callbacks.onPhaseChange?.("tie_break");
+          tieBreaks = await this.breakTie(theme, participants, conclusions, voters, votes, winnerIds);
+          winnerIds = tieBreaks[tieBreaks.length - 1]?.winnerIds ?? winnerIds;
+          isDraw = winnerIds.length > 1;
+        }
+      }
       const winnerId = isDraw ? null : winnerIds[0] || null;
 
-      // Build final conclusion (combine if draw)
+      // Build final conclusion (the synthesis or all tied conclusions if draw)
       let finalConclusion = "";
-      if (isDraw) {
+      const synthesis = tieBreaks?.find(round => round.synthesis)?.synthesis;
+      if (isDraw && synthesis) {
+        finalConclusion = synthesis.content;
+      } else if (isDraw) {
         finalConclusion = winnerIds
           .map(id => conclusions.find(c => c.participantId === id)?.content || "")
           .join("\n\n---\n\n");
@@ -213,9 +554,12 @@ export class DebateEngine {
 
       const result: DebateResult = {
         theme,
+        format,
         turns: allTurns,
         conclusions,
         votes,
+        voteTally,
+        tieBreaks,
         winnerId,
         winnerIds,
         isDraw,
@@ -224,6 +568,13 @@ export class DebateEngine {
         endTime: Date.now(),
         debateParticipants: participants,
         voteParticipants: voters,
+        moderator,
+        judging,
+        stopReason,
+        stopDetail,
+        adaptiveTurns: adaptive ? { planned: turns, max: maxTurns } : undefined,
+        usageByParticipant: Object.fromEntries(this.usageByParticipant),
+        totalUsage: this.totalUsage || { inputTokens: 0, outputTokens: 0, cachedTokens: 0 },
       };
 
       this.callbacks.onPhaseChange?.("complete");
@@ -237,6 +588,9 @@ export class DebateEngine {
       this.callbacks.onPhaseChange?.("error");
       this.callbacks.onError?.(error as Error);
       throw error;
+    } finally {
+      // Files written by isolated runs must not be seen by the next debate
+      this.providerManager.removeIsolatedDirectory();
     }
   }
 
@@ -289,114 +643,22 @@ export class DebateEngine {
 
     // User participant promises
     for (const participant of userParticipants) {
-      const userPromise = (async (): Promise<DebateResponse | null> => {
-        if (this.abortController?.signal.aborted) {
-          throw new AbortError("Debate aborted");
-        }
-
-        if (this.callbacks.onUserInputRequest) {
-          const userResponse = await this.callbacks.onUserInputRequest({
-            type: "debate",
-            participantId: participant.id,
-            displayName: participant.displayName,
-            role: participant.role,
-          });
-
-          const debateResponse: DebateResponse = {
-            participantId: participant.id,
-            displayName: participant.displayName,
-            content: userResponse.content,
-            isConclusion: isLastTurn,
-            timestamp: Date.now(),
-          };
-
-          responseMap.set(participant.id, debateResponse);
-          this.callbacks.onResponseComplete?.(participant.id, debateResponse);
-          return debateResponse;
-        }
-        return null;
-      })();
-      allPromises.push(userPromise);
+      allPromises.push(this.getUserTurnResponse(participant, isLastTurn));
     }
 
     // AI participant promises
     for (const participant of aiParticipants) {
-      const aiPromise = (async (): Promise<DebateResponse | null> => {
-        if (this.abortController?.signal.aborted) {
-          throw new AbortError("Debate aborted");
-        }
-
-        const provider = this.getProviderForType(participant.type);
-        if (!provider) {
-          return null;
-        }
-
-        // Build context with role if present
-        let context = baseContext;
-        if (participant.role) {
-          context += `\n\n${t().yourPosition}: ${participant.role}`;
-        }
-
-        try {
-          const messages: Message[] = [
-            { role: "user", content: context, timestamp: Date.now() }
-          ];
-
-          // Build system prompt with role
-          let systemPrompt = this.settings.systemPrompt;
-          if (participant.role) {
-            systemPrompt += `\n\n${t().yourPosition}: ${participant.role}`;
-          }
-
-          let response = "";
-          const signal = this.abortController?.signal;
-
-          for await (const chunk of provider.chatStream(
-            messages,
-            systemPrompt,
-            this.workingDirectory,
-            signal
-          )) {
-            if (chunk.type === "text" && chunk.content) {
-              response += chunk.content;
-              this.callbacks.onResponseStream?.(participant.id, response);
-            } else if (chunk.type === "error" && chunk.error) {
-              throw new Error(chunk.error);
-            }
-          }
-
-          const debateResponse: DebateResponse = {
-            participantId: participant.id,
-            displayName: participant.displayName,
-            content: response,
-            isConclusion: isLastTurn,
-            timestamp: Date.now(),
-          };
-
-          responseMap.set(participant.id, debateResponse);
-          this.callbacks.onResponseComplete?.(participant.id, debateResponse);
-          return debateResponse;
-        } catch (error) {
-          if (this.abortController?.signal.aborted) {
-            throw new AbortError("Debate aborted");
-          }
-          const errorResponse: DebateResponse = {
-            participantId: participant.id,
-            displayName: participant.displayName,
-            content: "",
-            isConclusion: false,
-            timestamp: Date.now(),
-            error: (error as Error).message,
-          };
-          responseMap.set(participant.id, errorResponse);
-          return errorResponse;
-        }
-      })();
-      allPromises.push(aiPromise);
+      allPromises.push(
+        this.getAiTurnResponse(participants, participant, turnNumber, baseContext, previousTurns, isLastTurn, [])
+      );
     }
 
     // Wait for all participants to complete
-    await Promise.all(allPromises);
+    for (const response of await Promise.all(allPromises)) {
+      if (response) {
+        responseMap.set(response.participantId, response);
+      }
+    }
 
     // Build responses in original participant order
     const responses: DebateResponse[] = [];
@@ -414,25 +676,274 @@ export class DebateEngine {
     };
   }
 
+  /**
+   * Run a single turn with participants speaking one after another
+   * Each speaker sees what the earlier speakers said in the same turn
+   */
+  private async runSequentialTurn(
+    theme: string,
+    turnNumber: number,
+    previousTurns: DebateTurn[],
+    participants: Participant[],
+    isLastTurn: boolean
+  ): Promise<DebateTurn> {
+    const responses: DebateResponse[] = [];
+
+    // Copied because failed participants can be replaced or dropped while the turn runs
+    for (const speaker of [...participants]) {
+      if (this.abortController?.signal.aborted) {
+        throw new AbortError("Debate aborted");
+      }
+
+      this.callbacks.onSpeakerChange?.(speaker.id);
+      const earlierResponses = responses.filter(r => !r.error);
+      const response = speaker.type === "user"
+        ? await this.getUserTurnResponse(speaker, isLastTurn)
+        : await this.getAiTurnResponse(
+          participants,
+          speaker,
+          turnNumber,
+          this.buildTurnContextWithParticipants(theme, previousTurns, isLastTurn, earlierResponses),
+          previousTurns,
+          isLastTurn,
+          earlierResponses
+        );
+      if (response) {
+        responses.push(response);
+      }
+    }
+    this.callbacks.onSpeakerChange?.(null);
+
+    // Responses are kept in speaking order
+    return {
+      turnNumber,
+      responses,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Ask a user participant for its response to a turn
+   */
+  private async getUserTurnResponse(participant: Participant, isLastTurn: boolean): Promise<DebateResponse | null> {
+    if (this.abortController?.signal.aborted) {
+      throw new AbortError("Debate aborted");
+    }
+    if (!this.callbacks.onUserInputRequest) {
+      return null;
+    }
+
+    const userResponse = await this.callbacks.onUserInputRequest({
+      type: "debate",
+      participantId: participant.id,
+      displayName: participant.displayName,
+      role: participant.role,
+    });
+
+    const debateResponse: DebateResponse = {
+      participantId: participant.id,
+      displayName: participant.displayName,
+      content: userResponse.content,
+      isConclusion: isLastTurn,
+      timestamp: Date.now(),
+    };
+    this.callbacks.onResponseComplete?.(participant.id, debateResponse);
+    return debateResponse;
+  }
+
+  /**
+   * Get an AI participant's response to a turn, letting the user retry, replace or drop it on failure
+   */
+  private async getAiTurnResponse(
+    participants: Participant[],
+    participant: Participant,
+    turnNumber: number,
+    baseContext: string,
+    previousTurns: DebateTurn[],
+    isLastTurn: boolean,
+    earlierResponses: DebateResponse[]
+  ): Promise<DebateResponse | null> {
+    let current = participant;
+    while (true) {
+      if (this.abortController?.signal.aborted) {
+        throw new AbortError("Debate aborted");
+      }
+
+      const response = await this.requestTurnResponse(current, baseContext, previousTurns, isLastTurn, earlierResponses);
+      if (!response) {
+        return null;
+      }
+      if (!response.error || !this.callbacks.onParticipantFailure) {
+        if (!response.error) {
+          this.callbacks.onResponseComplete?.(current.id, response);
+        }
+        return response;
+      }
+
+      // Let the user decide how to handle the failed participant
+      const decision = await this.callbacks.onParticipantFailure({ turnNumber, response });
+      if (this.abortController?.signal.aborted) {
+        throw new AbortError("Debate aborted");
+      }
+
+      if (decision.action === "retry") {
+        continue;
+      }
+      if (decision.action === "replace" && decision.replacementType) {
+        current = this.replaceParticipant(participants, current, decision.replacementType);
+        continue;
+      }
+      if (decision.action === "drop") {
+        this.dropParticipant(participants, current.id);
+        return null;
+      }
+      return response;
+    }
+  }
+
+  /**
+   * Get one AI participant's response for a turn (failures become error responses)
+   */
+  private async requestTurnResponse(
+    participant: Participant,
+    baseContext: string,
+    previousTurns: DebateTurn[],
+    isLastTurn: boolean,
+    earlierResponses: DebateResponse[] = []
+  ): Promise<DebateResponse | null> {
+    const provider = this.getProviderForType(participant.type);
+    if (!provider) {
+      return null;
+    }
+
+    // Resumed sessions already hold the system prompt, role and earlier turns
+    const session = this.getSession(participant.id);
+    let context: string;
+    let systemPrompt: string;
+    const question = previousTurns[previousTurns.length - 1]?.moderation?.questions
+      .find(q => q.participantId === participant.id)?.question;
+    if (session) {
+      let instruction = t().yourTaskInstruction;
+      if (question) {
+        instruction += `\n\n${t().moderatorQuestionForYou}: ${question}`;
+      }
+      if (isLastTurn) {
+        instruction += `\n\n${this.settings.conclusionPrompt}`;
+      }
+      context = this.buildResumeContext(previousTurns, session.syncedTurns, participant.id, instruction, earlierResponses);
+      systemPrompt = "";
+    } else {
+      // Build context with role if present
+      context = baseContext;
+      if (participant.role) {
+        context += `\n\n${t().yourPosition}: ${participant.role}`;
+      }
+      if (question) {
+        context += `\n\n${t().moderatorQuestionForYou}: ${question}`;
+      }
+
+      // Build system prompt with role
+      systemPrompt = this.settings.systemPrompt;
+      if (participant.role) {
+        systemPrompt += `\n\n${t().yourPosition}: ${participant.role}`;
+      }
+    }
+
+    try {
+      const messages: Message[] = [
+        { role: "user", content: context, timestamp: Date.now() }
+      ];
+
+      const result = await this.streamResponse(
+        provider,
+        participant.id,
+        messages,
+        systemPrompt,
+        { ...this.getChatOptions(participant), sessionId: session?.sessionId },
+        (content) => this.callbacks.onResponseStream?.(participant.id, content)
+      );
+
+      this.updateSession(participant.id, result.sessionId, previousTurns.length);
+
+      return {
+        participantId: participant.id,
+        displayName: participant.displayName,
+        content: result.content,
+        isConclusion: isLastTurn,
+        timestamp: Date.now(),
+        usage: result.usage,
+      };
+    } catch (error) {
+      if (this.abortController?.signal.aborted) {
+        throw new AbortError("Debate aborted");
+      }
+      // The session may not contain this turn; start over with the full transcript
+      this.sessions.delete(participant.id);
+      return {
+        participantId: participant.id,
+        displayName: participant.displayName,
+        content: "",
+        isConclusion: false,
+        timestamp: Date.now(),
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  /**
+   * Swap a failed participant for another provider, keeping its ID and role
+   */
+  private replaceParticipant(
+    participants: Participant[],
+    failed: Participant,
+    type: ParticipantType
+  ): Participant {
+    const replacement: Participant = {
+      id: failed.id,
+      type,
+      displayName: formatParticipantName(this.getDisplayName(type as CliType), undefined, failed.role),
+      role: failed.role,
+    };
+    const index = participants.findIndex(p => p.id === failed.id);
+    if (index >= 0) {
+      participants[index] = replacement;
+    }
+    this.sessions.delete(failed.id);
+    this.callbacks.onParticipantsChange?.([...participants]);
+    return replacement;
+  }
+
+  /**
+   * Remove a participant for the rest of the debate
+   */
+  private dropParticipant(participants: Participant[], participantId: string): void {
+    const index = participants.findIndex(p => p.id === participantId);
+    if (index >= 0) {
+      participants.splice(index, 1);
+    }
+    this.sessions.delete(participantId);
+    this.callbacks.onParticipantsChange?.([...participants]);
+  }
+
   /**
    * Build context message for a turn (with participants)
    */
   private buildTurnContextWithParticipants(
     theme: string,
     previousTurns: DebateTurn[],
-    isLastTurn: boolean
+    isLastTurn: boolean,
+    earlierResponses: DebateResponse[] = []
   ): string {
     const i18n = t();
     let context = `# ${i18n.debateThemeHeader}\n${theme}\n\n`;
 
-    if (previousTurns.length > 0) {
+    if (previousTurns.length > 0 || earlierResponses.length > 0) {
       context += `# ${i18n.previousDiscussion}\n\n`;
       for (const turn of previousTurns) {
         context += `## ${i18n.turn} ${turn.turnNumber}\n\n`;
-        for (const response of turn.responses) {
-          context += `### ${response.displayName}\n${response.content}\n\n`;
-        }
+        context += this.formatTurnResponses(turn);
       }
+      context += this.formatEarlierResponses(earlierResponses);
 
       context += `# ${i18n.yourTask}\n`;
       context += `${i18n.yourTaskInstruction}\n\n`;
@@ -442,7 +953,266 @@ export class DebateEngine {
       context += `\n${this.settings.conclusionPrompt}\n`;
     }
 
-    return context;
+    return context;
+  }
+
+  /**
+   * Format a finished turn for the next turn's context: the moderator's summary when there is one, otherwise every response
+   */
+  private formatTurnResponses(turn: DebateTurn): string {
+    const summary = this.formatModeratorSummary(turn);
+    if (summary) return summary;
+    let context = "";
+    for (const response of turn.responses) {
+      context += `### ${response.displayName}\n${response.content}\n\n`;
+    }
+    return context;
+  }
+
+  /**
+   * Format a turn's moderator summary (empty when the turn was not moderated or moderation failed)
+   */
+  private formatModeratorSummary(turn: DebateTurn): string {
+    const moderation = turn.moderation;
+    if (!moderation || moderation.error || !moderation.content.trim()) return "";
+    return `### ${t().moderatorSummaryOf(moderation.displayName)}\n${moderation.content}\n\n`;
+  }
+
+  /**
+   * Format the responses given earlier in the current (sequential) turn
+   */
+  private formatEarlierResponses(earlierResponses: DebateResponse[]): string {
+    if (earlierResponses.length === 0) return "";
+    let context = `## ${t().earlierInThisTurn}\n\n`;
+    for (const response of earlierResponses) {
+      context += `### ${response.displayName}\n${response.content}\n\n`;
+    }
+    return context;
+  }
+
+  /**
+   * Build context for a resumed session: only the responses the participant has not seen yet
+   */
+  private buildResumeContext(
+    turns: DebateTurn[],
+    syncedTurns: number,
+    participantId: string,
+    instruction: string,
+    earlierResponses: DebateResponse[] = []
+  ): string {
+    const i18n = t();
+    let context = "";
+
+    const newTurns = turns.slice(syncedTurns);
+    if (newTurns.length > 0 || earlierResponses.length > 0) {
+      context += `# ${i18n.newResponsesSinceLastTurn}\n\n`;
+      for (const [index, turn] of newTurns.entries()) {
+        context += `## ${i18n.turn} ${turn.turnNumber}\n\n`;
+        // In a sequential turn the participant already saw the speakers before it
+        const seenBefore = index === 0 && this.format === "sequential"
+          ? turn.responses.findIndex(r => r.participantId === participantId)
+          : -1;
+        const summary = this.formatModeratorSummary(turn);
+        if (summary) {
+          context += summary;
+          continue;
+        }
+        for (const [responseIndex, response] of turn.responses.entries()) {
+          // The participant's own response is already part of its session
+          if (response.participantId === participantId || responseIndex < seenBefore) continue;
+          context += `### ${response.displayName}\n${response.content}\n\n`;
+        }
+      }
+      context += this.formatEarlierResponses(earlierResponses);
+    }
+
+    context += `# ${i18n.yourTask}\n${instruction}\n`;
+    return context;
+  }
+
+  /**
+   * Have the moderator summarise the latest turn, ask follow-up questions and judge convergence
+   * A failed moderation is recorded with its error and the next turn sees the full responses instead
+   */
+  private async runModeration(
+    theme: string,
+    turns: DebateTurn[],
+    participants: Participant[],
+    moderator: Participant
+  ): Promise<ModeratorSummary> {
+    if (this.abortController?.signal.aborted) {
+      throw new AbortError("Debate aborted");
+    }
+
+    const summary: ModeratorSummary = {
+      moderatorId: moderator.id,
+      displayName: moderator.displayName,
+      content: "",
+      questions: [],
+      converged: false,
+    };
+
+    if (moderator.type === "user") {
+      if (!this.callbacks.onUserInputRequest) return summary;
+      const userResponse = await this.callbacks.onUserInputRequest({
+        type: "moderate",
+        participantId: moderator.id,
+        displayName: moderator.displayName,
+      });
+      return {
+        ...summary,
+        ...this.parseModeratorSummary(userResponse.content, participants),
+        converged: userResponse.converged ?? false,
+      };
+    }
+
+    const provider = this.getProviderForType(moderator.type);
+    if (!provider) {
+      return { ...summary, error: `Provider not available: ${moderator.type}` };
+    }
+
+    try {
+      const messages: Message[] = [
+        { role: "user", content: this.buildModeratorContext(theme, turns, participants), timestamp: Date.now() }
+      ];
+      const result = await this.streamResponse(
+        provider,
+        moderator.id,
+        messages,
+        "",  // The moderator prompt is in the context; the debaters' system prompt would cast it as a debater
+        this.getChatOptions(moderator),
+        (content) => this.callbacks.onResponseStream?.(moderator.id, content)
+      );
+      return { ...summary, ...this.parseModeratorSummary(result.content, participants), usage: result.usage };
+    } catch (error) {
+      if (this.abortController?.signal.aborted) {
+        throw new AbortError("Debate aborted");
+      }
+      return { ...summary, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Build context for the moderator: earlier turns (as summarised) and the full latest turn
+   */
+  private buildModeratorContext(theme: string, turns: DebateTurn[], participants: Participant[]): string {
+    const i18n = t();
+    let context = `# ${i18n.debateThemeHeader}\n${theme}\n\n`;
+    context += `# ${i18n.previousDiscussion}\n\n`;
+    for (const [index, turn] of turns.entries()) {
+      context += `## ${i18n.turn} ${turn.turnNumber}\n\n`;
+      if (index < turns.length - 1) {
+        context += this.formatTurnResponses(turn);
+        continue;
+      }
+      for (const response of turn.responses) {
+        if (response.error) continue;
+        context += `### ${response.displayName}\n${response.content}\n\n`;
+      }
+    }
+
+    const participantNames = participants.map(p => p.displayName).join(", ");
+    context += `\n${this.settings.moderatorPrompt}\n\n${i18n.moderatorParticipants}: ${participantNames}\n\n${i18n.moderatorFormatInstruction}\n`;
+    return context;
+  }
+
+  /**
+   * Read follow-up questions and the convergence verdict from a moderator's response
+   */
+  private parseModeratorSummary(
+    response: string,
+    participants: Participant[]
+  ): Pick<ModeratorSummary, "content" | "questions" | "converged"> {
+    const questions: ModeratorSummary["questions"] = [];
+    const questionPattern = /^\s*[-*]?\s*(?:QUESTION|質問)\s*\[?([^\]:：]+?)\]?\s*[:：]\s*(.+)$/gim;
+    for (const match of response.matchAll(questionPattern)) {
+      const name = match[1].trim().toLowerCase();
+      // Exact display name first, then a partial match (e.g. "Claude" for "Claude（Affirmative）")
+      const participant =
+        participants.find(p => p.displayName.toLowerCase() === name) ||
+        participants.find(p => p.displayName.toLowerCase().includes(name) || name.includes(p.displayName.toLowerCase()));
+      if (participant && !questions.some(q => q.participantId === participant.id)) {
+        questions.push({ participantId: participant.id, question: match[2].trim() });
+      }
+    }
+
+    const converged = /^\s*(?:CONVERGED|収束)\s*[:：]\s*(?:YES|はい)/im.test(response);
+    return { content: response.trim(), questions, converged };
+  }
+
+  /**
+   * Ask a lightweight checker whether the participants have converged, are still sharply divided, or should continue.
+   * The checker is the configured provider, or the first AI participant. A failed check keeps the planned turns.
+   */
+  private async runConvergenceCheck(
+    theme: string,
+    turns: DebateTurn[],
+    participants: Participant[]
+  ): Promise<ConvergenceCheck> {
+    if (this.abortController?.signal.aborted) {
+      throw new AbortError("Debate aborted");
+    }
+
+    const i18n = t();
+    const { checkerType, checkerModel } = this.settings.adaptiveTurns;
+    const fallback = participants.find(p => p.type !== "user");
+    const type = checkerType || (fallback?.type as CliType | undefined);
+    const model = checkerType ? checkerModel : fallback?.model;
+    const checker: Voter | undefined = type
+      ? {
+        id: CONVERGENCE_CHECKER_ID,
+        type,
+        displayName: i18n.convergenceCheckOf(formatParticipantName(this.getDisplayName(type), model)),
+        model,
+        extraArgs: checkerType ? undefined : fallback?.extraArgs,
+      }
+      : undefined;
+    const provider = checker ? this.getProviderForType(checker.type) : undefined;
+    if (!checker || !provider) {
+      return { displayName: i18n.convergenceCheck, verdict: "continue", reason: "", error: `Provider not available: ${type || "none"}` };
+    }
+
+    // Only the latest two turns: enough to tell whether positions are moving or repeating
+    let context = `# ${i18n.debateThemeHeader}\n${theme}\n\n# ${i18n.previousDiscussion}\n\n`;
+    for (const turn of turns.slice(-2)) {
+      context += `## ${i18n.turn} ${turn.turnNumber}\n\n`;
+      for (const response of turn.responses) {
+        if (response.error) continue;
+        context += `### ${response.displayName}\n${response.content}\n\n`;
+      }
+    }
+    context += `# ${i18n.yourTask}\n${i18n.convergenceCheckInstruction}`;
+
+    try {
+      const result = await this.streamResponse(
+        provider,
+        checker.id,
+        [{ role: "user", content: context, timestamp: Date.now() }],
+        "",  // The checker stays neutral; its instruction is in the context
+        this.getChatOptions(checker)
+      );
+      return { displayName: checker.displayName, ...this.parseConvergenceCheck(result.content), usage: result.usage };
+    } catch (error) {
+      if (this.abortController?.signal.aborted) {
+        throw new AbortError("Debate aborted");
+      }
+      return { displayName: checker.displayName, verdict: "continue", reason: "", error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Read the verdict and reason from a convergence check (no recognisable verdict means continue)
+   */
+  private parseConvergenceCheck(response: string): Pick<ConvergenceCheck, "verdict" | "reason"> {
+    const verdictMatch = response.match(/^\s*(?:VERDICT|判定)\s*[:：]\s*\[?([^\]\s]+)/im);
+    const word = verdictMatch?.[1].toLowerCase() ?? "";
+    const verdict: ConvergenceVerdict = word.startsWith("converged") || word.startsWith("収束")
+      ? "converged"
+      : word.startsWith("disagreement") || word.startsWith("対立")
+        ? "disagreement"
+        : "continue";
+    const reasonMatch = response.match(/^\s*(?:REASON|理由)\s*[:：]\s*(.+)$/im);
+    return { verdict, reason: (reasonMatch?.[1] ?? response).trim() };
   }
 
   /**
@@ -505,10 +1275,24 @@ export class DebateEngine {
           return null;
         }
 
-        // Build context with role if present
-        let context = baseContext;
-        if (participant.role) {
-          context += `\n\n${t().yourPosition}: ${participant.role}`;
+        const session = this.getSession(participant.id);
+        let context: string;
+        let systemPrompt: string;
+        if (session) {
+          context = this.buildResumeContext(turns, session.syncedTurns, participant.id, this.settings.conclusionPrompt);
+          systemPrompt = "";
+        } else {
+          // Build context with role if present
+          context = baseContext;
+          if (participant.role) {
+            context += `\n\n${t().yourPosition}: ${participant.role}`;
+          }
+
+          // Build system prompt with role
+          systemPrompt = this.settings.systemPrompt;
+          if (participant.role) {
+            systemPrompt += `\n\n${t().yourPosition}: ${participant.role}`;
+          }
         }
 
         try {
@@ -516,29 +1300,20 @@ export class DebateEngine {
             { role: "user", content: context, timestamp: Date.now() }
           ];
 
-          // Build system prompt with role
-          let systemPrompt = this.settings.systemPrompt;
-          if (participant.role) {
-            systemPrompt += `\n\n${t().yourPosition}: ${participant.role}`;
-          }
-
-          let response = "";
-          for await (const chunk of provider.chatStream(
+          const result = await this.streamResponse(
+            provider,
+            participant.id,
             messages,
             systemPrompt,
-            this.workingDirectory,
-            this.abortController?.signal
-          )) {
-            if (chunk.type === "text" && chunk.content) {
-              response += chunk.content;
-              this.callbacks.onConclusionStream?.(participant.id, response);
-            }
-          }
+            { ...this.getChatOptions(participant), sessionId: session?.sessionId },
+            (content) => this.callbacks.onConclusionStream?.(participant.id, content)
+          );
 
           const conclusion: DebateConclusion = {
             participantId: participant.id,
             displayName: participant.displayName,
-            content: response,
+            content: result.content,
+            usage: result.usage,
           };
           conclusionMap.set(participant.id, conclusion);
           this.callbacks.onConclusionComplete?.(conclusion);
@@ -600,10 +1375,16 @@ export class DebateEngine {
   private async runVotingWithVoters(
     theme: string,
     conclusions: DebateConclusion[],
-    voters: Voter[]
+    voters: Voter[],
+    reportVotes = true
   ): Promise<VoteResult[]> {
     const voteMap = new Map<string, VoteResult>();
-    const context = this.buildVotingContextWithParticipants(theme, conclusions);
+    const candidates = createVoteCandidates(conclusions.map(c => c.participantId), this.settings.blindVoting);
+    // Voters speaking for a participant do not get that participant's conclusion on the ballot when self-votes are forbidden
+    const getBallotCandidates = (voter: Voter): VoteCandidate[] =>
+      this.settings.forbidSelfVote && voter.participantId
+        ? candidates.filter(c => c.participantId !== voter.participantId)
+        : candidates;
 
     // Separate user and AI voters
     const userVoters = voters.filter(v => v.type === "user");
@@ -619,29 +1400,36 @@ export class DebateEngine {
           throw new AbortError("Debate aborted");
         }
 
-        if (this.callbacks.onUserInputRequest) {
-          const candidates = conclusions.map(c => ({
-            id: c.participantId,
-            displayName: c.displayName,
-          }));
+        const allowed = getBallotCandidates(voter);
+        if (this.callbacks.onUserInputRequest && allowed.length > 0) {
+          const userCandidates = conclusions
+            .filter(c => allowed.some(candidate => candidate.participantId === c.participantId))
+            .map(c => ({
+              id: c.participantId,
+              displayName: c.displayName,
+            }));
 
           const userResponse = await this.callbacks.onUserInputRequest({
             type: "vote",
             participantId: voter.id,
             displayName: voter.displayName,
-            candidates,
+            candidates: userCandidates,
           });
 
           const votedFor = conclusions.find(c => c.participantId === userResponse.votedForId);
           const vote: VoteResult = {
             voterId: voter.id,
             voterDisplayName: voter.displayName,
-            votedForId: userResponse.votedForId || conclusions[0]?.participantId || "",
+            votedForId: userResponse.votedForId || userCandidates[0]?.id || "",
             votedForDisplayName: votedFor?.displayName || "",
+            ranking: userResponse.ranking,
+            approvals: userResponse.approvals,
+            scores: userResponse.scores,
             reason: userResponse.reason,
+            weight: voter.weight,
           };
           voteMap.set(voter.id, vote);
-          this.callbacks.onVoteComplete?.(vote);
+          if (reportVotes) this.callbacks.onVoteComplete?.(vote);
           return vote;
         }
         return null;
@@ -657,30 +1445,16 @@ export class DebateEngine {
         }
 
         const provider = this.getProviderForType(voter.type);
-        if (!provider) {
+        const allowed = getBallotCandidates(voter);
+        if (!provider || allowed.length === 0) {
           return null;
         }
 
         try {
-          const messages: Message[] = [
-            { role: "user", content: context, timestamp: Date.now() }
-          ];
-
-          let response = "";
-          for await (const chunk of provider.chatStream(
-            messages,
-            this.settings.systemPrompt,
-            this.workingDirectory,
-            this.abortController?.signal
-          )) {
-            if (chunk.type === "text" && chunk.content) {
-              response += chunk.content;
-            }
-          }
-
-          const vote = this.parseVoteWithParticipants(voter, response, conclusions);
+          const context = this.buildVotingContextWithParticipants(theme, conclusions, allowed, allowed.length < candidates.length);
+          const vote = await this.requestBallot(provider, voter, context, allowed, conclusions);
           voteMap.set(voter.id, vote);
-          this.callbacks.onVoteComplete?.(vote);
+          if (reportVotes) this.callbacks.onVoteComplete?.(vote);
           return vote;
         } catch (error) {
           if (this.abortController?.signal.aborted) {
@@ -689,11 +1463,14 @@ export class DebateEngine {
           const vote: VoteResult = {
             voterId: voter.id,
             voterDisplayName: voter.displayName,
-            votedForId: voter.id, // Invalid vote
-            votedForDisplayName: voter.displayName,
+            votedForId: "",
+            votedForDisplayName: "",
             reason: `Error: ${(error as Error).message}`,
+            abstained: true,
+            weight: voter.weight,
           };
           voteMap.set(voter.id, vote);
+          if (reportVotes) this.callbacks.onVoteComplete?.(vote);
           return vote;
         }
       })();
@@ -718,198 +1495,531 @@ export class DebateEngine {
   /**
    * Build context for voting phase (with participants)
    */
-  private buildVotingContextWithParticipants(theme: string, conclusions: DebateConclusion[]): string {
+  private buildVotingContextWithParticipants(
+    theme: string,
+    conclusions: DebateConclusion[],
+    candidates: VoteCandidate[],
+    ownConclusionOmitted = false
+  ): string {
     const i18n = t();
+    const blind = this.settings.blindVoting;
     let context = `# ${i18n.debateThemeHeader}\n${theme}\n\n`;
     context += `# ${i18n.finalConclusions}\n\n`;
 
-    for (const conclusion of conclusions) {
-      context += `## ${i18n.conclusionOf(conclusion.displayName)}\n${conclusion.content}\n\n`;
+    // Blind ballots show only the candidate label, in the shuffled candidate order
+    for (const candidate of candidates) {
+      const conclusion = conclusions.find(c => c.participantId === candidate.participantId);
+      if (!conclusion) continue;
+      const header = blind ? i18n.candidateLabel(candidate.id) : `${candidate.id}: ${i18n.conclusionOf(conclusion.displayName)}`;
+      context += `## ${header}\n${conclusion.content}\n\n`;
     }
 
     // Build dynamic vote prompt with participant names
-    const participantNames = conclusions.map(c => c.displayName).join(", ");
-    const votePrompt = this.settings.votePrompt.replace(
-      /Gemini,?\s*Claude,?\s*(or|and)?\s*Codex/gi,
-      participantNames
-    );
+    // (lines of saved prompts asking for the old "VOTE: [Name]" format are dropped in favour of the JSON ballot)
+    const participantNames = blind
+      ? candidates.map(c => i18n.candidateLabel(c.id)).join(", ")
+      : conclusions.map(c => c.displayName).join(", ");
+    const votePrompt = this.settings.votePrompt
+      .replace(/Gemini,?\s*Claude,?\s*(or|and)?\s*Codex/gi, participantNames)
+      .replace(/^.*(?:VOTE|投票)\s*[:：]\s*\[.*$\n?/gim, "")
+      .trim();
 
     // Auto-append format instruction (required for vote parsing)
-    context += `\n${votePrompt}\n\n${i18n.voteFormatInstruction}\n`;
+    const ids = candidates.map(c => c.id);
+    const formatInstruction = isRankingMethod(this.votingMethod)
+      ? i18n.rankingFormatInstruction(ids)
+      : this.votingMethod === "approval"
+        ? i18n.approvalFormatInstruction(ids)
+        : this.votingMethod === "score" ? i18n.scoreFormatInstruction(ids) : i18n.voteFormatInstruction(ids);
+    context += `\n${votePrompt}\n\n`;
+    if (ownConclusionOmitted) {
+      context += `${i18n.ownConclusionOmitted}\n\n`;
+    }
+    context += `${formatInstruction}\n`;
     return context;
   }
 
   /**
-   * Parse vote response (can vote for self or others) - with participants
+   * Ask an AI voter for a ballot, sending it back with the validation error until it is valid.
+   * When the re-asks run out the vote is abstained and not counted.
    */
-  private parseVoteWithParticipants(
+  private async requestBallot(
+    provider: CliProviderInterface,
     voter: Voter,
-    response: string,
+    context: string,
+    candidates: VoteCandidate[],
     conclusions: DebateConclusion[]
-  ): VoteResult {
-    const responseLower = response.toLowerCase();
-
-    // Helper to extract reason from response (captures multi-line reasons)
-    const extractReason = (): string | undefined => {
-      // Multi-line patterns (capture everything after the marker)
-      const multiLinePatterns = [
-        /理由[：:は]\s*([\s\S]+)/i,
-        /[Rr]eason[：:]\s*([\s\S]+)/i,
-        /なぜなら[、,]?\s*([\s\S]+)/i,
-        /because\s+([\s\S]+)/i,
-        /[-–—]\s*([\s\S]+)/,
-      ];
-
-      for (const pattern of multiLinePatterns) {
-        const match = response.match(pattern);
-        if (match) {
-          // Clean up the extracted reason
-          let reason = match[1].trim();
-          // Remove trailing vote-related text if present
-          reason = reason.replace(/^(以下の通りです。?\s*)/i, "");
-          // Limit length but keep full content
-          if (reason.length > 0) {
-            return reason;
+  ): Promise<VoteResult> {
+    const messages: Message[] = [{ role: "user", content: context, timestamp: Date.now() }];
+    const attempts = 1 + Math.max(0, this.settings.voteReasks);
+    let usage: TokenUsage | undefined;
+    let lastError = "";
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      const result = await this.streamResponse(
+        provider,
+        voter.id,
+        messages,
+        this.settings.systemPrompt,
+        this.getChatOptions(voter)
+      );
+      if (result.usage) usage = addTokenUsage(usage, result.usage);
+
+      try {
+        const ballot = parseBallot(this.votingMethod, result.content, candidates);
+        if (this.settings.blindVoting && ballot.reason) {
+          // Name the candidates a blind voter refers to, so the reason reads on its own
+          for (const candidate of candidates) {
+            const label = t().candidateLabel(candidate.id);
+            const name = conclusions.find(c => c.participantId === candidate.participantId)?.displayName;
+            if (name) ballot.reason = ballot.reason.split(label).join(`${label} (${name})`);
           }
         }
+        return {
+          voterId: voter.id,
+          voterDisplayName: voter.displayName,
+          votedForDisplayName: conclusions.find(c => c.participantId === ballot.votedForId)?.displayName || "",
+          ...ballot,
+          weight: voter.weight,
+          usage,
+        };
+      } catch (error) {
+        lastError = (error as Error).message;
+        messages.push(
+          { role: "assistant", content: result.content, timestamp: Date.now() },
+          { role: "user", content: t().voteRetryInstruction(lastError), timestamp: Date.now() }
+        );
       }
+    }
 
-      // Fallback: if response has multiple lines, take everything after first line
-      const lines = response.split("\n").filter(l => l.trim());
-      if (lines.length > 1) {
-        // Skip first line (usually contains the vote target)
-        return lines.slice(1).join("\n").trim();
-      }
-
-      return undefined;
+    return {
+      voterId: voter.id,
+      voterDisplayName: voter.displayName,
+      votedForId: "",
+      votedForDisplayName: "",
+      reason: `Invalid ballot: ${lastError}`,
+      abstained: true,
+      weight: voter.weight,
+      usage,
     };
+  }
 
-    // Helper to escape regex special characters
-    const escapeRegex = (str: string): string => {
-      return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-    };
+  /**
+   * Resolve a tied vote with the configured policy.
+   * Runoff and rebuttal rounds repeat among the still-tied conclusions up to the configured number of rounds.
+   */
+  private async breakTie(
+    theme: string,
+    participants: Participant[],
+    conclusions: DebateConclusion[],
+    voters: Voter[],
+    votes: VoteResult[],
+    tiedIds: string[]
+  ): Promise<TieBreakRound[]> {
+    const { policy, maxRounds } = this.settings.tieBreak;
+    const rounds: TieBreakRound[] = [];
+
+    if (policy === "user-vote") {
+      const round = this.breakTieByUserVote(votes, voters, tiedIds);
+      rounds.push(round);
+      this.callbacks.onTieBreakComplete?.(round);
+      return rounds;
+    }
 
-    // Strategy 1: Look for "VOTE: Name" or "投票: Name" format
-    for (const participant of conclusions) {
-      const displayName = participant.displayName;
-      const baseName = displayName.replace(/[（(].+[）)]/, "").trim();
+    if (policy === "synthesis") {
+      const round = await this.runSynthesis(theme, conclusions.filter(c => tiedIds.includes(c.participantId)));
+      rounds.push(round);
+      this.callbacks.onTieBreakComplete?.(round);
+      return rounds;
+    }
 
-      const votePatterns = [
-        new RegExp(`(?:VOTE|投票)[：:]\\s*${escapeRegex(displayName)}`, "i"),
-        new RegExp(`(?:VOTE|投票)[：:]\\s*${escapeRegex(baseName)}`, "i"),
-        new RegExp(`^\\s*${escapeRegex(displayName)}\\s*$`, "im"),
-        new RegExp(`^\\s*${escapeRegex(baseName)}\\s*$`, "im"),
-      ];
+    let tied = tiedIds;
+    for (let index = 0; index < Math.max(1, maxRounds) && tied.length > 1; index++) {
+      const round: TieBreakRound = { policy, tiedIds: tied, winnerIds: tied };
+      let candidates = conclusions.filter(c => tied.includes(c.participantId));
+
+      if (policy === "rebuttal") {
+        const rebuttals = await this.runRebuttals(theme, participants, candidates);
+        round.rebuttals = rebuttals;
+        // Voters see each tied conclusion followed by its rebuttal
+        candidates = candidates.map(conclusion => {
+          const rebuttal = rebuttals.find(r => r.participantId === conclusion.participantId);
+          return rebuttal && !rebuttal.error
+            ? { ...conclusion, content: `${conclusion.content}\n\n### ${t().rebuttal}\n${rebuttal.content}` }
+            : conclusion;
+        });
+      }
 
-      for (const pattern of votePatterns) {
-        if (pattern.test(response)) {
-          return {
-            voterId: voter.id,
-            voterDisplayName: voter.displayName,
-            votedForId: participant.participantId,
-            votedForDisplayName: participant.displayName,
-            reason: extractReason(),
-          };
-        }
+      round.votes = await this.runVotingWithVoters(theme, candidates, voters, false);
+      round.tally = tallyVotes(this.votingMethod, round.votes, tied);
+      round.winnerIds = round.tally.winnerIds;
+      rounds.push(round);
+      this.callbacks.onTieBreakComplete?.(round);
+      tied = round.winnerIds;
+    }
+
+    return rounds;
+  }
+
+  /**
+   * The user's ballot is the tiebreaker of record: the tied conclusion it prefers wins.
+   * The tie stands when no user voted or their ballot does not single out one of the tied conclusions.
+   */
+  private breakTieByUserVote(votes: VoteResult[], voters: Voter[], tiedIds: string[]): TieBreakRound {
+    const round: TieBreakRound = { policy: "user-vote", tiedIds, winnerIds: tiedIds };
+    for (const voter of voters.filter(v => v.type === "user")) {
+      const vote = votes.find(v => v.voterId === voter.id);
+      const preferred = vote && getPreferredCandidate(vote, tiedIds);
+      if (preferred) {
+        return { ...round, winnerIds: [preferred], decidedBy: voter.displayName };
       }
     }
+    return round;
+  }
 
-    // Strategy 2: Look for participant name anywhere (prioritize longer matches)
-    const sortedConclusions = [...conclusions].sort(
-      (a, b) => b.displayName.length - a.displayName.length
-    );
+  /**
+   * One extra turn between the tied participants: each answers the other tied conclusions
+   * User input and AI responses run in parallel
+   */
+  private async runRebuttals(
+    theme: string,
+    participants: Participant[],
+    tiedConclusions: DebateConclusion[]
+  ): Promise<DebateResponse[]> {
+    const i18n = t();
+    const responses = await Promise.all(tiedConclusions.map(async (conclusion): Promise<DebateResponse | null> => {
+      if (this.abortController?.signal.aborted) {
+        throw new AbortError("Debate aborted");
+      }
 
-    for (const participant of sortedConclusions) {
-      const displayName = participant.displayName;
-      const baseName = displayName.replace(/[（(].+[）)]/, "").trim();
-      const displayNameLower = displayName.toLowerCase();
-      const baseNameLower = baseName.toLowerCase();
+      // A participant dropped during the debate has nobody to speak for it
+      const participant = participants.find(p => p.id === conclusion.participantId);
+      if (!participant) return null;
+
+      const others = tiedConclusions.filter(c => c.participantId !== participant.id);
+      const response: DebateResponse = {
+        participantId: participant.id,
+        displayName: participant.displayName,
+        content: "",
+        isConclusion: false,
+        timestamp: Date.now(),
+      };
 
-      if (responseLower.includes(displayNameLower) || responseLower.includes(baseNameLower)) {
-        return {
-          voterId: voter.id,
-          voterDisplayName: voter.displayName,
-          votedForId: participant.participantId,
-          votedForDisplayName: participant.displayName,
-          reason: extractReason(),
-        };
+      if (participant.type === "user") {
+        if (!this.callbacks.onUserInputRequest) return null;
+        const userResponse = await this.callbacks.onUserInputRequest({
+          type: "debate",
+          participantId: participant.id,
+          displayName: participant.displayName,
+          role: participant.role,
+        });
+        return { ...response, content: userResponse.content };
+      }
+
+      const provider = this.getProviderForType(participant.type);
+      if (!provider) {
+        return { ...response, error: `Provider not available: ${participant.type}` };
       }
-    }
 
-    // Strategy 3: Look for common AI names
-    const nameMapping: { pattern: RegExp; type: string }[] = [
-      { pattern: /gemini/i, type: "gemini-cli" },
-      { pattern: /claude/i, type: "claude-cli" },
-      { pattern: /codex/i, type: "codex-cli" },
-      { pattern: /user|ユーザー/i, type: "user" },
-    ];
+      let context = `# ${i18n.debateThemeHeader}\n${theme}\n\n# ${i18n.finalConclusions}\n\n`;
+      for (const tied of tiedConclusions) {
+        context += `## ${i18n.conclusionOf(tied.displayName)}\n${tied.content}\n\n`;
+      }
+      context += `# ${i18n.yourTask}\n${i18n.rebuttalInstruction(others.map(c => c.displayName).join(", "))}`;
+      let systemPrompt = this.settings.systemPrompt;
+      if (participant.role) {
+        context += `\n\n${i18n.yourPosition}: ${participant.role}`;
+        systemPrompt += `\n\n${i18n.yourPosition}: ${participant.role}`;
+      }
 
-    for (const { pattern, type } of nameMapping) {
-      if (pattern.test(response)) {
-        const matchedParticipant = conclusions.find(c =>
-          c.participantId.startsWith(type) ||
-          c.displayName.toLowerCase().includes(type.replace("-cli", ""))
+      try {
+        const result = await this.streamResponse(
+          provider,
+          participant.id,
+          [{ role: "user", content: context, timestamp: Date.now() }],
+          systemPrompt,
+          this.getChatOptions(participant),
+          (content) => this.callbacks.onResponseStream?.(participant.id, content)
         );
-        if (matchedParticipant) {
-          return {
-            voterId: voter.id,
-            voterDisplayName: voter.displayName,
-            votedForId: matchedParticipant.participantId,
-            votedForDisplayName: matchedParticipant.displayName,
-            reason: extractReason(),
-          };
+        return { ...response, content: result.content, usage: result.usage };
+      } catch (error) {
+        if (this.abortController?.signal.aborted) {
+          throw new AbortError("Debate aborted");
         }
+        return { ...response, error: (error as Error).message };
       }
+    }));
+
+    return responses.filter((response): response is DebateResponse => response !== null);
+  }
+
+  /**
+   * Have the configured provider merge the tied conclusions into one (the vote stays a draw)
+   */
+  private async runSynthesis(theme: string, tiedConclusions: DebateConclusion[]): Promise<TieBreakRound> {
+    const i18n = t();
+    const tiedIds = tiedConclusions.map(c => c.participantId);
+    const round: TieBreakRound = { policy: "synthesis", tiedIds, winnerIds: tiedIds };
+    const { synthesisType, synthesisModel } = this.settings.tieBreak;
+    const provider = synthesisType ? this.getProviderForType(synthesisType) : undefined;
+    if (!synthesisType || !provider) {
+      return { ...round, error: `Provider not available: ${synthesisType || "none"}` };
     }
 
-    return {
-      voterId: voter.id,
-      voterDisplayName: voter.displayName,
-      votedForId: voter.id,
-      votedForDisplayName: voter.displayName,
-      reason: "Unable to parse vote",
+    const synthesizer: Voter = {
+      id: "synthesis",
+      type: synthesisType,
+      displayName: i18n.synthesisOf(formatParticipantName(this.getDisplayName(synthesisType), synthesisModel)),
+      model: synthesisModel,
     };
+    let context = `# ${i18n.debateThemeHeader}\n${theme}\n\n# ${i18n.finalConclusions}\n\n`;
+    for (const conclusion of tiedConclusions) {
+      context += `## ${i18n.conclusionOf(conclusion.displayName)}\n${conclusion.content}\n\n`;
+    }
+    context += `# ${i18n.yourTask}\n${i18n.synthesisInstruction}`;
+
+    try {
+      const result = await this.streamResponse(
+        provider,
+        synthesizer.id,
+        [{ role: "user", content: context, timestamp: Date.now() }],
+        "",  // The synthesis instruction is in the context; the debaters' system prompt would pull it toward one side
+        this.getChatOptions(synthesizer),
+        (content) => this.callbacks.onResponseStream?.(synthesizer.id, content)
+      );
+      round.synthesis = {
+        participantId: synthesizer.id,
+        displayName: synthesizer.displayName,
+        content: result.content,
+        usage: result.usage,
+      };
+    } catch (error) {
+      if (this.abortController?.signal.aborted) {
+        throw new AbortError("Debate aborted");
+      }
+      round.error = (error as Error).message;
+    }
+    return round;
   }
 
   /**
-   * Determine winner(s) by vote count (all votes including self-votes are counted)
-   * Returns multiple winners in case of a tie (draw)
+   * Run the judge panel: every judge scores every conclusion against the rubric
+   * User input and AI responses run in parallel
+   */
+  private async runJudging(
+    theme: string,
+    conclusions: DebateConclusion[],
+    judges: Voter[],
+    criteria: JudgeCriterion[]
+  ): Promise<JudgeResult[]> {
+    const context = this.buildJudgingContext(theme, conclusions, criteria);
+
+    const results = await Promise.all(judges.map(async (judge): Promise<JudgeResult | null> => {
+      if (this.abortController?.signal.aborted) {
+        throw new AbortError("Debate aborted");
+      }
+
+      const result: JudgeResult = {
+        judgeId: judge.id,
+        judgeDisplayName: judge.displayName,
+        evaluations: [],
+      };
+
+      if (judge.type === "user") {
+        if (!this.callbacks.onUserInputRequest) return null;
+        const userResponse = await this.callbacks.onUserInputRequest({
+          type: "judge",
+          participantId: judge.id,
+          displayName: judge.displayName,
+          candidates: conclusions.map(c => ({ id: c.participantId, displayName: c.displayName })),
+          criteria,
+        });
+        result.evaluations = userResponse.evaluations || [];
+        this.callbacks.onJudgeComplete?.(result);
+        return result;
+      }
+
+      const provider = this.getProviderForType(judge.type);
+      if (!provider) {
+        return null;
+      }
+
+      try {
+        const messages: Message[] = [
+          { role: "user", content: context, timestamp: Date.now() }
+        ];
+        const response = await this.streamResponse(
+          provider,
+          judge.id,
+          messages,
+          "",  // Judges get only the judge prompt and rubric in the context
+          this.getChatOptions(judge)
+        );
+        result.usage = response.usage;
+        result.evaluations = this.parseJudgeEvaluations(response.content, conclusions, criteria);
+        if (result.evaluations.length === 0) {
+          result.error = "Unable to parse scores";
+        }
+      } catch (error) {
+        if (this.abortController?.signal.aborted) {
+          throw new AbortError("Debate aborted");
+        }
+        result.error = (error as Error).message;
+      }
+      this.callbacks.onJudgeComplete?.(result);
+      return result;
+    }));
+
+    // Keep the original judge order
+    return results.filter((result): result is JudgeResult => result !== null);
+  }
+
+  /**
+   * Build context for judges: the conclusions, the judge prompt and the rubric
    */
-  private determineWinnersById(votes: VoteResult[], conclusions: DebateConclusion[]): { winnerIds: string[]; isDraw: boolean } {
-    const voteCounts = new Map<string, number>();
+  private buildJudgingContext(theme: string, conclusions: DebateConclusion[], criteria: JudgeCriterion[]): string {
+    const i18n = t();
+    let context = `# ${i18n.debateThemeHeader}\n${theme}\n\n`;
+    context += `# ${i18n.finalConclusions}\n\n`;
 
     for (const conclusion of conclusions) {
-      voteCounts.set(conclusion.participantId, 0);
+      context += `## ${i18n.conclusionOf(conclusion.displayName)}\n${conclusion.content}\n\n`;
     }
 
-    for (const vote of votes) {
-      // Count all votes including self-votes
-      const current = voteCounts.get(vote.votedForId) || 0;
-      voteCounts.set(vote.votedForId, current + 1);
+    context += `\n${this.settings.judgePrompt}\n\n# ${i18n.judgeRubricHeader}\n`;
+    for (const criterion of criteria) {
+      context += criterion.description
+        ? `- ${criterion.name}: ${criterion.description}\n`
+        : `- ${criterion.name}\n`;
     }
 
-    // Find max vote count
-    let maxVotes = 0;
-    for (const count of voteCounts.values()) {
-      if (count > maxVotes) {
-        maxVotes = count;
+    // Auto-append format instruction (required for score parsing)
+    context += `\n${i18n.judgeFormatInstruction(criteria.map(c => c.name))}\n`;
+    return context;
+  }
+
+  /**
+   * Parse a judge's response into per-conclusion scores and feedback.
+   * Each conclusion is a block starting with "PARTICIPANT: Name"; scores outside the range are clamped.
+   */
+  private parseJudgeEvaluations(
+    response: string,
+    conclusions: DebateConclusion[],
+    criteria: JudgeCriterion[]
+  ): JudgeEvaluation[] {
+    const escapeRegex = (str: string): string => str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const headerPattern = /^[\s#*-]*(?:PARTICIPANT|参加者)\**\s*[:：]\s*\**\s*(.+?)\s*\**\s*$/i;
+    const feedbackPattern = /^[\s*-]*(?:FEEDBACK|講評)\**\s*[:：]\s*(.*)$/i;
+    const scorePatterns = criteria.map(criterion => ({
+      name: criterion.name,
+      pattern: new RegExp(`^[\\s*-]*${escapeRegex(criterion.name)}\\**\\s*[:：]\\s*\\**\\s*(\\d+(?:\\.\\d+)?)`, "i"),
+    }));
+
+    const findConclusion = (name: string): DebateConclusion | undefined => {
+      const lower = name.replace(/^\[|\]$/g, "").trim().toLowerCase();
+      // Exact display name first, then a partial match (e.g. "Claude" for "Claude（Affirmative）")
+      return conclusions.find(c => c.displayName.toLowerCase() === lower) ||
+        conclusions.find(c => c.displayName.toLowerCase().includes(lower) || lower.includes(c.displayName.toLowerCase()));
+    };
+
+    const evaluations: JudgeEvaluation[] = [];
+    let current: JudgeEvaluation | undefined;
+    let inFeedback = false;
+    for (const line of response.split("\n")) {
+      const header = line.match(headerPattern);
+      if (header) {
+        const conclusion = findConclusion(header[1]);
+        current = conclusion && !evaluations.some(e => e.participantId === conclusion.participantId)
+          ? { participantId: conclusion.participantId, displayName: conclusion.displayName, scores: {}, feedback: "" }
+          : undefined;
+        if (current) evaluations.push(current);
+        inFeedback = false;
+        continue;
       }
-    }
+      if (!current) continue;
 
-    // Find all participants with max votes
-    const winnerIds: string[] = [];
-    for (const [participantId, count] of voteCounts) {
-      if (count === maxVotes) {
-        winnerIds.push(participantId);
+      const feedback = line.match(feedbackPattern);
+      if (feedback) {
+        current.feedback = feedback[1].trim();
+        inFeedback = true;
+        continue;
+      }
+      const score = scorePatterns.find(({ pattern }) => pattern.test(line));
+      if (score && !inFeedback) {
+        const value = parseFloat(line.match(score.pattern)?.[1] || "");
+        current.scores[score.name] = Math.min(JUDGE_SCORE_MAX, Math.max(JUDGE_SCORE_MIN, value));
+        continue;
+      }
+      // Feedback can continue over several lines
+      if (inFeedback) {
+        current.feedback = `${current.feedback}\n${line}`.trim();
       }
     }
 
+    return evaluations.filter(e => Object.keys(e.scores).length > 0);
+  }
+
+  /**
+   * Average each criterion over the judges who scored it and total the averages (highest total first)
+   */
+  private buildScoreboard(
+    conclusions: DebateConclusion[],
+    criteria: JudgeCriterion[],
+    results: JudgeResult[]
+  ): ScoreboardEntry[] {
+    const round = (value: number): number => Math.round(value * 100) / 100;
+    const scoreboard = conclusions.map((conclusion): ScoreboardEntry => {
+      const criterionScores: Record<string, number> = {};
+      for (const criterion of criteria) {
+        const scores = results
+          .filter(result => !result.error)
+          .map(result => result.evaluations.find(e => e.participantId === conclusion.participantId)?.scores[criterion.name])
+          .filter((score): score is number => score !== undefined);
+        criterionScores[criterion.name] = scores.length > 0
+          ? round(scores.reduce((sum, score) => sum + score, 0) / scores.length)
+          : 0;
+      }
+      return {
+        participantId: conclusion.participantId,
+        displayName: conclusion.displayName,
+        criterionScores,
+        total: round(Object.values(criterionScores).reduce((sum, score) => sum + score, 0)),
+      };
+    });
+    return scoreboard.sort((a, b) => b.total - a.total);
+  }
+
+  /**
+   * Determine winner(s) by highest total score
+   * Returns multiple winners in case of a tie (draw)
+   */
+  private determineWinnersByScore(scoreboard: ScoreboardEntry[]): { winnerIds: string[]; isDraw: boolean } {
+    const maxTotal = Math.max(0, ...scoreboard.map(entry => entry.total));
+    const winnerIds = scoreboard
+      .filter(entry => entry.total === maxTotal)
+      .map(entry => entry.participantId);
     return {
       winnerIds,
       isDraw: winnerIds.length > 1,
     };
   }
 
+  /**
+   * Determine winner(s) with the debate's voting method (all votes including self-votes are counted)
+   * Returns multiple winners in case of a tie (draw)
+   */
+  private determineWinnersById(
+    votes: VoteResult[],
+    conclusions: DebateConclusion[]
+  ): { winnerIds: string[]; isDraw: boolean; tally: VoteTally } {
+    const tally = tallyVotes(this.votingMethod, votes, conclusions.map(c => c.participantId));
+    return {
+      winnerIds: tally.winnerIds,
+      isDraw: tally.winnerIds.length > 1,
+      tally,
+    };
+  }
+
   /**
    * Get display name for CLI type
    */
@@ -921,8 +2031,10 @@ export class DebateEngine {
         return "Claude";
       case "codex-cli":
         return "Codex";
+      case "fake-cli":
+        return "Fake";
       default:
-        return cliType;
+        return getUserDefinedProviderName(this.settings.cliConfig, cliType) || cliType;
     }
   }
 
@@ -950,6 +2062,21 @@ export class DebateEngine {
     lines.push("");
     lines.push(`**Date:** ${new Date(result.startTime).toLocaleString()}`);
     lines.push(`**Duration:** ${Math.round((result.endTime - result.startTime) / 1000)} seconds`);
+    if (result.format === "sequential") {
+      lines.push(`**Format:** Sequential (participants speak in the order shown)`);
+    }
+    // Only adaptive debates explain their turn count; fixed ones ran the turns they were given
+    if (result.adaptiveTurns && result.stopReason) {
+      const stopReasons: Record<DebateStopReason, string> = {
+        "planned-turns": "planned turn count reached",
+        "moderator-converged": "the moderator judged the debate converged",
+        "consensus": "the participants converged (ended early)",
+        "max-turns": "maximum turn count reached while disagreement was still sharp",
+      };
+      const detail = result.stopDetail ? ` - ${result.stopDetail}` : "";
+      const { planned, max } = result.adaptiveTurns;
+      lines.push(`**Turns:** ${result.turns.length} of ${planned} planned (adaptive, max ${max}) - ${stopReasons[result.stopReason]}${detail}`);
+    }
     if (result.isDraw) {
       const winnerNames = result.winnerIds.map(id => getWinnerDisplayName(id)).join(" & ");
       lines.push(`**Result:** Draw (${winnerNames})`);
@@ -963,7 +2090,24 @@ export class DebateEngine {
     lines.push("");
     for (const participant of result.debateParticipants) {
       const roleStr = participant.role ? ` (${participant.role})` : "";
-      lines.push(`- ${participant.displayName}${roleStr}`);
+      const details: string[] = [];
+      if (participant.model) {
+        details.push(`model: \`${participant.model}\``);
+      }
+      if (participant.extraArgs) {
+        details.push(`args: \`${participant.extraArgs}\``);
+      }
+      const detailStr = details.length > 0 ? ` - ${details.join(", ")}` : "";
+      lines.push(`- ${participant.displayName}${roleStr}${detailStr}`);
+    }
+    if (result.moderator) {
+      const modelStr = result.moderator.model ? ` - model: \`${result.moderator.model}\`` : "";
+      lines.push("");
+      lines.push(`**Moderator:** ${result.moderator.displayName}${modelStr}`);
+    }
+    if (result.judging) {
+      lines.push("");
+      lines.push(`**Judges:** ${result.judging.judges.map(j => j.displayName).join(", ")}`);
     }
     lines.push("");
 
@@ -981,8 +2125,9 @@ export class DebateEngine {
         lines.push(`### Turn ${turn.turnNumber}`);
         lines.push("");
 
-        for (const response of turn.responses) {
-          lines.push(`#### ${response.displayName}`);
+        for (const [index, response] of turn.responses.entries()) {
+          const order = result.format === "sequential" ? `${index + 1}. ` : "";
+          lines.push(`#### ${order}${response.displayName}`);
           lines.push("");
           if (response.error) {
             lines.push(`> Error: ${response.error}`);
@@ -991,6 +2136,32 @@ export class DebateEngine {
           }
           lines.push("");
         }
+
+        const moderation = turn.moderation;
+        if (moderation) {
+          lines.push(`#### Moderator Summary (${moderation.displayName})`);
+          lines.push("");
+          if (moderation.error) {
+            lines.push(`> Error: ${moderation.error}`);
+          } else {
+            lines.push(moderation.content);
+          }
+          lines.push("");
+          if (moderation.converged) {
+            lines.push("> The moderator judged the debate has converged.");
+            lines.push("");
+          }
+        }
+
+        const convergence = turn.convergence;
+        if (convergence) {
+          lines.push(`#### ${convergence.displayName}`);
+          lines.push("");
+          lines.push(convergence.error
+            ? `> Error: ${convergence.error}`
+            : `**Verdict:** ${convergence.verdict} - ${convergence.reason}`);
+          lines.push("");
+        }
       }
     }
 
@@ -1005,14 +2176,150 @@ export class DebateEngine {
       lines.push("");
     }
 
-    // Voting results
-    lines.push("## Voting Results");
-    lines.push("");
+    if (result.judging) {
+      // Judge panel scoreboard and feedback
+      const { criteria, scoreboard, results } = result.judging;
+      lines.push("## Judging Results");
+      lines.push("");
+      lines.push(`| Participant | ${criteria.map(c => c.name).join(" | ")} | Total |`);
+      lines.push(`|---|${criteria.map(() => "---:|").join("")}---:|`);
+      for (const entry of scoreboard) {
+        const scores = criteria.map(c => entry.criterionScores[c.name] ?? "-").join(" | ");
+        lines.push(`| ${entry.displayName} | ${scores} | **${entry.total}** |`);
+      }
+      lines.push("");
+
+      for (const judgeResult of results) {
+        lines.push(`### ${judgeResult.judgeDisplayName}`);
+        lines.push("");
+        if (judgeResult.error) {
+          lines.push(`> Error: ${judgeResult.error}`);
+          lines.push("");
+          continue;
+        }
+        for (const evaluation of judgeResult.evaluations) {
+          const scores = Object.entries(evaluation.scores).map(([name, score]) => `${name} ${score}`).join(", ");
+          lines.push(`- **${evaluation.displayName}** (${scores})${evaluation.feedback ? `: ${evaluation.feedback}` : ""}`);
+        }
+        lines.push("");
+      }
+    } else {
+      // Voting results
+      lines.push("## Voting Results");
+      lines.push("");
+
+      const getCandidateName = (id: string): string =>
+        result.conclusions.find(c => c.participantId === id)?.displayName || id;
+      const formatVote = (vote: VoteResult): string => {
+        // Weight and confidence are only worth noting when they say something
+        const details = [
+          ...(vote.weight !== undefined && vote.weight !== 1 ? [`weight ×${vote.weight}`] : []),
+          ...(vote.confidence !== undefined ? [`confidence ${Math.round(vote.confidence * 100)}%`] : []),
+        ];
+        const detailStr = details.length > 0 ? ` [${details.join(", ")}]` : "";
+        if (vote.abstained) {
+          return `- **${vote.voterDisplayName}**${detailStr} abstained (not counted)${vote.reason ? `: ${vote.reason}` : ""}`;
+        }
+        const ballot = vote.ranking && vote.ranking.length > 1
+          ? ` (ranking: ${vote.ranking.map(getCandidateName).join(" > ")})`
+          : vote.approvals && vote.approvals.length > 1
+            ? ` (approved: ${vote.approvals.map(getCandidateName).join(", ")})`
+            : vote.scores
+              ? ` (scores: ${Object.entries(vote.scores).map(([id, score]) => `${getCandidateName(id)} ${score}`).join(", ")})`
+              : "";
+        return `- **${vote.voterDisplayName}**${detailStr} voted for **${vote.votedForDisplayName}**${ballot}${vote.reason ? `: ${vote.reason}` : ""}`;
+      };
+      // Weighted totals per candidate, one column per counting round (winners in bold)
+      const pushTallyTable = (tally: VoteTally): void => {
+        const multiRound = tally.rounds.length > 1;
+        const lastCounts = tally.rounds[tally.rounds.length - 1]?.counts || {};
+        const candidateIds = Object.keys(tally.rounds[0]?.counts || {}).sort((a, b) =>
+          (lastCounts[b] ?? -1) - (lastCounts[a] ?? -1)
+        );
+        const headers = multiRound ? tally.rounds.map((_, index) => `Round ${index + 1}`) : ["Total"];
+        lines.push(`| Candidate | ${headers.join(" | ")} |`);
+        lines.push(`|---|${headers.map(() => "---:|").join("")}`);
+        for (const id of candidateIds) {
+          const name = tally.winnerIds.includes(id) ? `**${getCandidateName(id)}**` : getCandidateName(id);
+          const cells = tally.rounds.map(round =>
+            id in round.counts ? String(round.counts[id]) : "eliminated"
+          );
+          lines.push(`| ${name} | ${cells.join(" | ")} |`);
+        }
+        lines.push("");
+      };
 
-    for (const vote of result.votes) {
-      lines.push(`- **${vote.voterDisplayName}** voted for **${vote.votedForDisplayName}**${vote.reason ? `: ${vote.reason}` : ""}`);
+      for (const vote of result.votes) {
+        lines.push(formatVote(vote));
+      }
+      lines.push("");
+
+      // How the winner was derived
+      const tally = result.voteTally;
+      if (tally && tally.rounds.length > 0) {
+        const methodNames: Record<VotingMethod, string> = {
+          "plurality": "Plurality",
+          "ranked-choice": "Ranked choice (instant runoff)",
+          "borda": "Borda count",
+          "approval": "Approval voting",
+          "score": "Score voting",
+        };
+        lines.push(`### Tally: ${methodNames[tally.method]}`);
+        lines.push("");
+        pushTallyTable(tally);
+      }
+
+      // Tie-break rounds run after a tied vote
+      if (result.tieBreaks && result.tieBreaks.length > 0) {
+        const policyNames: Record<TieBreakPolicy, string> = {
+          "none": "None",
+          "runoff": "Runoff vote",
+          "rebuttal": "Rebuttal and revote",
+          "synthesis": "Synthesis",
+          "user-vote": "User's vote",
+        };
+        lines.push("## Tie-break");
+        lines.push("");
+        for (const [index, round] of result.tieBreaks.entries()) {
+          lines.push(`### Round ${index + 1}: ${policyNames[round.policy]}`);
+          lines.push("");
+          lines.push(`**Tied:** ${round.tiedIds.map(getCandidateName).join(", ")}`);
+          lines.push("");
+          if (round.error) {
+            lines.push(`> Error: ${round.error}`);
+            lines.push("");
+          }
+          for (const rebuttal of round.rebuttals || []) {
+            lines.push(`#### ${rebuttal.displayName}'s Rebuttal`);
+            lines.push("");
+            lines.push(rebuttal.error ? `> Error: ${rebuttal.error}` : rebuttal.content);
+            lines.push("");
+          }
+          if (round.votes && round.votes.length > 0) {
+            for (const vote of round.votes) {
+              lines.push(formatVote(vote));
+            }
+            lines.push("");
+          }
+          if (round.tally) {
+            pushTallyTable(round.tally);
+          }
+          if (round.tally || round.policy === "user-vote") {
+            const decidedBy = round.decidedBy ? ` (decided by ${round.decidedBy}'s ballot)` : "";
+            lines.push(round.winnerIds.length > 1
+              ? "> Still tied."
+              : `> Winner: **${getCandidateName(round.winnerIds[0])}**${decidedBy}`);
+            lines.push("");
+          }
+          if (round.synthesis) {
+            lines.push(`#### ${round.synthesis.displayName}`);
+            lines.push("");
+            lines.push(round.synthesis.content);
+            lines.push("");
+          }
+        }
+      }
     }
-    lines.push("");
 
     // Final conclusion
     lines.push("## Final Conclusion");
@@ -1021,15 +2328,23 @@ export class DebateEngine {
       const winnerNames = result.winnerIds.map(id => getWinnerDisplayName(id)).join(" & ");
       lines.push(`> **Draw:** ${winnerNames}`);
       lines.push("");
-      // Show each winner's conclusion
-      for (const winnerId of result.winnerIds) {
-        const winnerName = getWinnerDisplayName(winnerId);
-        const conclusion = result.conclusions.find(c => c.participantId === winnerId);
-        if (conclusion) {
-          lines.push(`### ${winnerName}`);
-          lines.push("");
-          lines.push(conclusion.content);
-          lines.push("");
+      // Show the synthesis of the tied conclusions, or each winner's conclusion
+      const synthesis = result.tieBreaks?.find(round => round.synthesis)?.synthesis;
+      if (synthesis) {
+        lines.push(`### ${synthesis.displayName}`);
+        lines.push("");
+        lines.push(synthesis.content);
+        lines.push("");
+      } else {
+        for (const winnerId of result.winnerIds) {
+          const winnerName = getWinnerDisplayName(winnerId);
+          const conclusion = result.conclusions.find(c => c.participantId === winnerId);
+          if (conclusion) {
+            lines.push(`### ${winnerName}`);
+            lines.push("");
+            lines.push(conclusion.content);
+            lines.push("");
+          }
         }
       }
     } else if (result.winnerId) {
@@ -1041,6 +2356,35 @@ export class DebateEngine {
       lines.push(result.finalConclusion);
     }
 
+    // Token usage (only when at least one provider reported it)
+    const usageEntries = Object.entries(result.usageByParticipant || {});
+    if (usageEntries.length > 0) {
+      const getName = (id: string): string =>
+        result.debateParticipants.find(p => p.id === id)?.displayName ||
+        result.voteParticipants.find(v => v.id === id)?.displayName ||
+        result.judging?.judges.find(j => j.id === id)?.displayName ||
+        (result.moderator?.id === id ? result.moderator.displayName : undefined) ||
+        result.tieBreaks?.find(round => round.synthesis?.participantId === id)?.synthesis?.displayName ||
+        (id === CONVERGENCE_CHECKER_ID
+          ? result.turns.find(turn => turn.convergence && !turn.convergence.error)?.convergence?.displayName || t().convergenceCheck
+          : undefined) ||
+        id;
+      const formatCost = (usage: TokenUsage): string =>
+        usage.costUsd !== undefined ? `$${usage.costUsd.toFixed(4)}` : "-";
+      const formatRow = (name: string, usage: TokenUsage): string =>
+        `| ${name} | ${usage.inputTokens.toLocaleString()} | ${usage.cachedTokens.toLocaleString()} | ${usage.outputTokens.toLocaleString()} | ${formatCost(usage)} |`;
+
+      lines.push("");
+      lines.push("## Token Usage");
+      lines.push("");
+      lines.push("| Participant | Input | Cached | Output | Cost |");
+      lines.push("|---|---:|---:|---:|---:|");
+      for (const [id, usage] of usageEntries) {
+        lines.push(formatRow(getName(id), usage));
+      }
+      lines.push(formatRow("**Total**", result.totalUsage));
+    }
+
     return lines.join("\n");
   }
 }
@@ -0,0 +1,240 @@
+/**
+ * Offline fake provider for Ronginus
+ * Returns scripted responses without running any CLI (developer mode only)
+ */
+
+import type { CliType, FakeProviderConfig, Message, StreamChunk } from "../types";
+import { t } from "../i18n";
+import type { ChatOptions, CliProviderInterface, CliVerifyResult } from "./cliProvider";
+import { sleep } from "./retry";
+
+/**
+ * Per-participant script, parsed from the participant's extra arguments:
+ *   --delay <ms>        Delay before each streamed chunk
+ *   --chunk <chars>     Characters per streamed chunk
+ *   --fail <n,n,...>    Calls (1-based) that fail instead of responding
+ *   --error <message>   Error message for failed calls
+ *   --vote <target>     first | last | <candidate number> | malformed | none
+ *   --verdict <verdict> converged | continue | disagreement (adaptive turn consensus checks)
+ */
+interface FakeScript {
+  delayMs: number;
+  chunkSize: number;
+  failOnCalls: number[];
+  error: string;
+  vote: string;
+  verdict: string;
+}
+
+function parseScript(config: FakeProviderConfig, extraArgs: string[] = []): FakeScript {
+  const script: FakeScript = {
+    delayMs: config.delayMs,
+    chunkSize: config.chunkSize,
+    failOnCalls: [],
+    error: "Scripted failure",
+    vote: "first",
+    verdict: "continue",
+  };
+
+  for (let i = 0; i < extraArgs.length; i++) {
+    const value = extraArgs[i + 1];
+    switch (extraArgs[i]) {
+      case "--delay":
+        script.delayMs = Math.max(0, Number(value) || 0);
+        i++;
+        break;
+      case "--chunk":
+        script.chunkSize = Math.max(1, Number(value) || 1);
+        i++;
+        break;
+      case "--fail":
+        script.failOnCalls = (value || "")
+          .split(",")
+          .map(n => parseInt(n, 10))
+          .filter(n => !Number.isNaN(n));
+        i++;
+        break;
+      case "--error":
+        script.error = value || script.error;
+        i++;
+        break;
+      case "--vote":
+        script.vote = value || script.vote;
+        i++;
+        break;
+      case "--verdict":
+        script.verdict = value || script.verdict;
+        i++;
+        break;
+    }
+  }
+
+  return script;
+}
+
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Extract candidate IDs from the voting context ("## <id>: <name>'s Conclusion", or "## Candidate <id>" when blind)
+ */
+function extractCandidates(prompt: string): string[] {
+  const [prefix, suffix] = t().conclusionOf("\u0000").split("\u0000");
+  const [blindPrefix, blindSuffix] = t().candidateLabel("\u0000").split("\u0000");
+  const pattern = new RegExp(
+    `^## (?:(\\S+): ${escapeRegex(prefix)}.+?${escapeRegex(suffix)}|${escapeRegex(blindPrefix)}(\\S+?)${escapeRegex(blindSuffix)})\\s*$`,
+    "gm"
+  );
+  return Array.from(prompt.matchAll(pattern), match => match[1] || match[2]);
+}
+
+/**
+ * Extract the debate theme from a turn or voting context
+ */
+function extractTheme(prompt: string): string {
+  const pattern = new RegExp(`^# ${escapeRegex(t().debateThemeHeader)}\\n(.+)$`, "m");
+  return prompt.match(pattern)?.[1]?.trim() || "";
+}
+
+/**
+ * Scripted provider that never leaves the machine
+ */
+export class FakeCliProvider implements CliProviderInterface {
+  name: CliType = "fake-cli";
+  displayName = "Fake";
+  private config: FakeProviderConfig;
+  // Calls are counted per model/argument combination so each scripted participant has its own count
+  private callCounts = new Map<string, number>();
+
+  constructor(config: FakeProviderConfig) {
+    this.config = config;
+  }
+
+  isAvailable(): Promise<boolean> {
+    return Promise.resolve(true);
+  }
+
+  verify(): Promise<CliVerifyResult> {
+    return Promise.resolve({
+      success: true,
+      capabilities: {
+        outputFormats: ["text"],
+        stdinPrompt: false,
+        jsonStreaming: false,
+        modelSelection: true,
+        sandbox: false,
+        sessionResume: false,
+      },
+    });
+  }
+
+  async chat(
+    messages: Message[],
+    systemPrompt: string,
+    workingDirectory: string,
+    signal?: AbortSignal,
+    options?: ChatOptions
+  ): Promise<string> {
+    let result = "";
+    for await (const chunk of this.chatStream(messages, systemPrompt, workingDirectory, signal, options)) {
+      if (chunk.type === "text" && chunk.content) {
+        result += chunk.content;
+      } else if (chunk.type === "error" && chunk.error) {
+        throw new Error(chunk.error);
+      }
+    }
+    return result;
+  }
+
+  async *chatStream(
+    messages: Message[],
+    systemPrompt: string,
+    _workingDirectory: string,
+    signal?: AbortSignal,
+    options?: ChatOptions
+  ): AsyncGenerator<StreamChunk> {
+    const script = parseScript(this.config, options?.extraArgs);
+    const key = [options?.model || "", ...(options?.extraArgs || [])].join("\u0000");
+    const call = (this.callCounts.get(key) || 0) + 1;
+    this.callCounts.set(key, call);
+
+    const prompt = messages[messages.length - 1]?.content || "";
+    // A re-asked ballot keeps the voting context in the first message
+    const ballotPrompt = messages.find(message => extractCandidates(message.content).length > 0)?.content;
+
+    if (script.delayMs > 0) {
+      await sleep(script.delayMs, signal);
+    }
+    if (signal?.aborted) return;
+
+    if (script.failOnCalls.includes(call)) {
+      yield { type: "error", error: script.error };
+      return;
+    }
+
+    const response = ballotPrompt
+      ? this.buildVote(ballotPrompt, script, call)
+      : prompt.includes(t().convergenceCheckInstruction)
+        ? `VERDICT: ${script.verdict}\nREASON: Scripted verdict (call #${call})`
+        : this.config.responseTemplate
+          .replace(/\{call\}/g, String(call))
+          .replace(/\{theme\}/g, extractTheme(prompt))
+          .replace(/\{model\}/g, options?.model || this.displayName);
+
+    for (let i = 0; i < response.length; i += script.chunkSize) {
+      if (signal?.aborted) return;
+      yield { type: "text", content: response.slice(i, i + script.chunkSize) };
+      if (script.delayMs > 0) {
+        await sleep(script.delayMs, signal);
+      }
+    }
+
+    yield {
+      type: "usage",
+      usage: {
+        inputTokens: Math.ceil((systemPrompt.length + prompt.length) / 4),
+        outputTokens: Math.ceil(response.length / 4),
+        cachedTokens: 0,
+      },
+    };
+    yield { type: "done" };
+  }
+
+  private buildVote(prompt: string, script: FakeScript, call: number): string {
+    const candidates = extractCandidates(prompt);
+    let target: string | undefined;
+
+    switch (script.vote) {
+      case "none":
+        return "";
+      case "malformed":
+        return "All of these conclusions have merit, so I cannot pick just one.";
+      case "last":
+        target = candidates[candidates.length - 1];
+        break;
+      case "first":
+        target = candidates[0];
+        break;
+      default:
+        target = candidates[parseInt(script.vote, 10) - 1];
+    }
+
+    // Answer in the JSON shape the ballot asks for, with the target first
+    const reason = `Scripted vote (call #${call})`;
+    if (!target) {
+      return JSON.stringify({ vote: "???", reason: "No matching candidate" });
+    }
+    const ordered = [target, ...candidates.filter(id => id !== target)];
+    if (prompt.includes("\"ranking\"")) {
+      return JSON.stringify({ ranking: ordered, reason });
+    }
+    if (prompt.includes("\"approve\"")) {
+      return JSON.stringify({ approve: [target], reason });
+    }
+    if (prompt.includes("\"scores\"")) {
+      return JSON.stringify({ scores: Object.fromEntries(ordered.map((id, index) => [id, Math.max(0, 10 - index)])), reason });
+    }
+    return JSON.stringify({ vote: target, reason });
+  }
+}
@@ -0,0 +1,362 @@
+/**
+ * OpenAI-compatible HTTP provider for Ronginus
+ * Talks to any /v1/chat/completions endpoint (LM Studio, llama.cpp server, vLLM, Ollama)
+ */
+
+import { requestUrl } from "obsidian";
+import type { RequestUrlResponse } from "obsidian";
+import type { CliType, HttpProviderConfig, Message, StreamChunk, TokenUsage } from "../types";
+import { toHttpCliType } from "../types";
+import type { ChatOptions, CliProviderInterface, CliVerifyResult } from "./cliProvider";
+
+interface ChatCompletionMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Normalize a base URL so that it ends with "/v1" (no trailing slash)
+ */
+export function normalizeBaseUrl(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, "");
+  return /\/v1$/.test(trimmed) ? trimmed : `${trimmed}/v1`;
+}
+
+/**
+ * Build chat completion messages from conversation history
+ */
+function buildChatMessages(messages: Message[], systemPrompt: string): ChatCompletionMessage[] {
+  const chatMessages: ChatCompletionMessage[] = [];
+  if (systemPrompt) {
+    chatMessages.push({ role: "system", content: systemPrompt });
+  }
+  for (const msg of messages) {
+    chatMessages.push({ role: msg.role, content: msg.content });
+  }
+  return chatMessages;
+}
+
+/**
+ * Build request headers (adds bearer token if an API key is configured)
+ */
+function buildHeaders(apiKey?: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+  return headers;
+}
+
+/**
+ * Extract an error message from an error response body
+ */
+function extractErrorMessage(body: string): string | undefined {
+  try {
+    const parsed = JSON.parse(body) as Record<string, unknown>;
+    const error = parsed.error;
+    if (typeof error === "string") return error;
+    if (error && typeof error === "object") {
+      const message = (error as Record<string, unknown>).message;
+      if (typeof message === "string") return message;
+    }
+    if (typeof parsed.message === "string") return parsed.message;
+  } catch {
+    // Not JSON
+  }
+  return body.trim() || undefined;
+}
+
+/**
+ * Message of a thrown value (fetch and requestUrl reject with Errors, but nothing guarantees it)
+ */
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Token usage from a chat completion's "usage" object
+ */
+function parseUsage(usage: Record<string, unknown>): TokenUsage {
+  const details = usage.prompt_tokens_details as Record<string, unknown> | undefined;
+  return {
+    inputTokens: typeof usage.prompt_tokens === "number" ? usage.prompt_tokens : 0,
+    outputTokens: typeof usage.completion_tokens === "number" ? usage.completion_tokens : 0,
+    cachedTokens: typeof details?.cached_tokens === "number" ? details.cached_tokens : 0,
+  };
+}
+
+/**
+ * OpenAI-compatible chat completions provider (SSE streaming)
+ * Streaming uses fetch, which is subject to CORS. Servers without CORS headers (a local Ollama or LM Studio)
+ * are answered through Obsidian's requestUrl instead, in one piece, like the verify request.
+ */
+export class OpenAiCompatibleProvider implements CliProviderInterface {
+  name: CliType;
+  displayName: string;
+  private config: HttpProviderConfig;
+  // Set once requestUrl reaches the server after fetch failed, so later calls go straight to requestUrl
+  private streamingBlocked = false;
+
+  constructor(config: HttpProviderConfig) {
+    this.config = config;
+    this.name = toHttpCliType(config.id);
+    this.displayName = config.displayName;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await requestUrl({
+        url: `${normalizeBaseUrl(this.config.baseUrl)}/models`,
+        method: "GET",
+        headers: buildHeaders(this.config.apiKey),
+        throw: false,
+      });
+      return response.status >= 200 && response.status < 300;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Verify the endpoint by sending a short chat request
+   */
+  async verify(): Promise<CliVerifyResult> {
+    const config = this.config;
+    if (!config.baseUrl.trim() || !config.model.trim()) {
+      return { success: false, stage: "version", error: "Base URL and model are required" };
+    }
+
+    try {
+      const response = await requestUrl({
+        url: `${normalizeBaseUrl(config.baseUrl)}/chat/completions`,
+        method: "POST",
+        headers: buildHeaders(config.apiKey),
+        body: JSON.stringify({
+          model: config.model,
+          messages: [{ role: "user", content: "Hello" }],
+          max_tokens: 16,
+        }),
+        throw: false,
+      });
+
+      if (response.status === 401 || response.status === 403) {
+        return { success: false, stage: "auth", error: extractErrorMessage(response.text) || `HTTP ${response.status}` };
+      }
+      if (response.status < 200 || response.status >= 300) {
+        return { success: false, stage: "version", error: extractErrorMessage(response.text) || `HTTP ${response.status}` };
+      }
+
+      return {
+        success: true,
+        capabilities: {
+          outputFormats: ["sse"],
+          stdinPrompt: false,
+          jsonStreaming: true,
+          modelSelection: true,
+          sandbox: false,
+          sessionResume: false,
+        },
+      };
+    } catch (err) {
+      return { success: false, stage: "version", error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+
+  async chat(
+    messages: Message[],
+    systemPrompt: string,
+    workingDirectory: string,
+    signal?: AbortSignal,
+    options?: ChatOptions
+  ): Promise<string> {
+    let result = "";
+    for await (const chunk of this.chatStream(messages, systemPrompt, workingDirectory, signal, options)) {
+      if (chunk.type === "text" && chunk.content) {
+        result += chunk.content;
+      } else if (chunk.type === "error" && chunk.error) {
+        throw new Error(chunk.error);
+      }
+    }
+    return result;
+  }
+
+  async *chatStream(
+    messages: Message[],
+    systemPrompt: string,
+    _workingDirectory: string,
+    signal?: AbortSignal,
+    options?: ChatOptions
+  ): AsyncGenerator<StreamChunk> {
+    const model = options?.model || this.config.model;
+    const chatMessages = buildChatMessages(messages, systemPrompt);
+    if (this.streamingBlocked) {
+      yield* this.chatWithoutStreaming(model, chatMessages, signal);
+      return;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${normalizeBaseUrl(this.config.baseUrl)}/chat/completions`, {
+        method: "POST",
+        headers: buildHeaders(this.config.apiKey),
+        body: JSON.stringify({
+          model,
+          messages: chatMessages,
+          stream: true,
+          // Without this, OpenAI-compatible servers send no usage when streaming
+          stream_options: { include_usage: true },
+        }),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      // fetch rejects with a TypeError when CORS (or the network) blocks the request
+      if (error instanceof TypeError) {
+        yield* this.chatWithoutStreaming(model, chatMessages, signal);
+      } else {
+        yield { type: "error", error: `${this.displayName} request failed: ${getErrorMessage(error)}` };
+      }
+      return;
+    }
+
+    if (!response.ok) {
+      const body = await response.text();
+      yield {
+        type: "error",
+        error: `${this.displayName} returned ${response.status}: ${extractErrorMessage(body) || response.statusText}`,
+      };
+      return;
+    }
+
+    if (!response.body) {
+      yield { type: "error", error: `${this.displayName} returned an empty response` };
+      return;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          const chunks = Array.from(this.processSseLine(line));
+          for (const chunk of chunks) {
+            yield chunk;
+            if (chunk.type === "error" || chunk.type === "done") {
+              return;
+            }
+          }
+        }
+      }
+
+      if (buffer.trim()) {
+        yield* this.processSseLine(buffer);
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      yield { type: "error", error: `${this.displayName} stream failed: ${getErrorMessage(error)}` };
+      return;
+    } finally {
+      reader.releaseLock();
+    }
+
+    yield { type: "done" };
+  }
+
+  /**
+   * Send the request through requestUrl (not subject to CORS) and return the whole answer at once
+   */
+  private async *chatWithoutStreaming(
+    model: string,
+    chatMessages: ChatCompletionMessage[],
+    signal?: AbortSignal
+  ): AsyncGenerator<StreamChunk> {
+    let response: RequestUrlResponse;
+    try {
+      response = await requestUrl({
+        url: `${normalizeBaseUrl(this.config.baseUrl)}/chat/completions`,
+        method: "POST",
+        headers: buildHeaders(this.config.apiKey),
+        body: JSON.stringify({ model, messages: chatMessages }),
+        throw: false,
+      });
+    } catch (error) {
+      // Unreachable through requestUrl too, so fetch failed on the network rather than CORS
+      yield { type: "error", error: `${this.displayName} request failed: ${getErrorMessage(error)}` };
+      return;
+    }
+    // The server answered where fetch could not reach it: CORS blocks fetch, so skip it from now on
+    this.streamingBlocked = true;
+    // requestUrl cannot be cancelled, so drop the answer of a stopped debate
+    if (signal?.aborted) return;
+
+    if (response.status < 200 || response.status >= 300) {
+      yield {
+        type: "error",
+        error: `${this.displayName} returned ${response.status}: ${extractErrorMessage(response.text) || "Request failed"}`,
+      };
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(response.text) as Record<string, unknown>;
+      const choices = parsed.choices as Array<Record<string, unknown>> | undefined;
+      const message = choices?.[0]?.message as Record<string, unknown> | undefined;
+      if (message && typeof message.content === "string" && message.content) {
+        yield { type: "text", content: message.content };
+      }
+      const usage = parsed.usage as Record<string, unknown> | undefined;
+      if (usage) {
+        yield { type: "usage", usage: parseUsage(usage) };
+      }
+    } catch {
+      yield { type: "error", error: `${this.displayName} returned an invalid response` };
+      return;
+    }
+    yield { type: "done" };
+  }
+
+  private *processSseLine(line: string): Generator<StreamChunk> {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith("data:")) return;
+
+    const data = trimmed.slice("data:".length).trim();
+    if (data === "[DONE]") {
+      yield { type: "done" };
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(data) as Record<string, unknown>;
+
+      if (parsed.error) {
+        yield { type: "error", error: extractErrorMessage(data) || "Unknown error" };
+        return;
+      }
+
+      const choices = parsed.choices as Array<Record<string, unknown>> | undefined;
+      const delta = choices?.[0]?.delta as Record<string, unknown> | undefined;
+      if (delta && typeof delta.content === "string" && delta.content) {
+        yield { type: "text", content: delta.content };
+      }
+
+      // Usage comes on the final chunk (requested with stream_options)
+      const usage = parsed.usage as Record<string, unknown> | undefined;
+      if (usage) {
+        yield { type: "usage", usage: parseUsage(usage) };
+      }
+    } catch {
+      // Ignore JSON parse errors
+    }
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Per-provider environment variables and API keys for Ronginus
+ * Plain values live in the provider options; secret values are kept out of data.json
+ */
+
+import type { App } from "obsidian";
+import type { CliConfig, CliType, ProviderOptions } from "../types";
+import { toHttpCliType } from "../types";
+
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Storage for secret environment variable values
+ */
+export interface SecretStore {
+  get(id: string): string | null;
+  set(id: string, value: string | null): void;
+}
+
+/**
+ * Parse NAME=value lines (blank lines, comments and invalid names are skipped)
+ */
+export function parseEnvLines(text: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+    const separator = line.indexOf("=");
+    if (separator <= 0) continue;
+    const name = line.slice(0, separator).trim();
+    if (!ENV_NAME_PATTERN.test(name)) continue;
+    env[name] = line.slice(separator + 1).trim();
+  }
+  return env;
+}
+
+/**
+ * Format variables as NAME=value lines
+ */
+export function formatEnvLines(env: Record<string, string> | undefined): string {
+  return Object.entries(env || {}).map(([name, value]) => `${name}=${value}`).join("\n");
+}
+
+/**
+ * Lowercase alphanumerics and dashes only, as secret storage IDs require
+ */
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Secret storage ID for a provider's variable
+ */
+export function getEnvSecretId(type: CliType, name: string): string {
+  return `ronginus-env-${slugify(type)}-${slugify(name)}`;
+}
+
+/**
+ * Secret storage ID for an HTTP provider's API key
+ */
+export function getApiKeySecretId(type: CliType): string {
+  return `ronginus-api-key-${slugify(type)}`;
+}
+
+/**
+ * Use Obsidian's secret storage, or this vault's local storage on versions without it.
+ * Neither is written to data.json, so secrets are not synced with the vault.
+ */
+export function createSecretStore(app: App): SecretStore | undefined {
+  const { secretStorage } = app as Partial<Pick<App, "secretStorage">>;
+  if (secretStorage) {
+    return {
+      get: (id) => secretStorage.getSecret(id),
+      // Secret storage has no delete, so an empty value clears the entry
+      set: (id, value) => secretStorage.setSecret(id, value ?? ""),
+    };
+  }
+
+  const local = app as Partial<Pick<App, "loadLocalStorage" | "saveLocalStorage">>;
+  if (local.loadLocalStorage && local.saveLocalStorage) {
+    const load = local.loadLocalStorage.bind(app);
+    const save = local.saveLocalStorage.bind(app);
+    return {
+      get: (id) => {
+        const value: unknown = load(id);
+        return typeof value === "string" ? value : null;
+      },
+      set: (id, value) => save(id, value),
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Copy of the config with secret values merged into each provider's environment and HTTP API keys filled in.
+ * The result is for running providers only and must never be saved.
+ */
+export function withProviderSecrets(cliConfig: CliConfig, store: SecretStore | undefined): CliConfig {
+  if (!store) return cliConfig;
+
+  const httpProviders = (cliConfig.httpProviders || []).map(config => {
+    const apiKey = config.apiKey || store.get(getApiKeySecretId(toHttpCliType(config.id)));
+    return apiKey ? { ...config, apiKey } : config;
+  });
+  if (!cliConfig.providerOptions) return { ...cliConfig, httpProviders };
+
+  const providerOptions: Partial<Record<CliType, ProviderOptions>> = {};
+  for (const [type, options] of Object.entries(cliConfig.providerOptions) as [CliType, ProviderOptions | undefined][]) {
+    if (!options?.secretEnv?.length) {
+      providerOptions[type] = options;
+      continue;
+    }
+    const env = { ...options.env };
+    for (const name of options.secretEnv) {
+      const value = store.get(getEnvSecretId(type, name));
+      if (value) env[name] = value;
+    }
+    providerOptions[type] = { ...options, env };
+  }
+  return { ...cliConfig, httpProviders, providerOptions };
+}
@@ -0,0 +1,62 @@
+/**
+ * Response timeouts and retry policy for Ronginus
+ */
+
+import type { RetryPolicy } from "../types";
+
+/**
+ * Thrown when a provider does not finish its response in time
+ */
+export class ResponseTimeoutError extends Error {
+  constructor(seconds: number) {
+    super(`No response within ${seconds} seconds`);
+    this.name = "ResponseTimeoutError";
+  }
+}
+
+const RATE_LIMIT_PATTERN = /rate[ _-]?limit|too many requests|\b429\b|\b529\b|overloaded|quota|resource[ _-]?exhausted/i;
+const EXIT_CODE_PATTERN = /exited with code/i;
+
+/**
+ * Decide whether a failed attempt should be retried under the policy
+ */
+export function isRetryableError(error: Error, hadOutput: boolean, policy: RetryPolicy): boolean {
+  if (error instanceof ResponseTimeoutError) {
+    return policy.retryOnTimeout;
+  }
+  if (RATE_LIMIT_PATTERN.test(error.message)) {
+    return policy.retryOnRateLimit;
+  }
+  if (EXIT_CODE_PATTERN.test(error.message) && !hadOutput) {
+    return policy.retryOnEmptyExit;
+  }
+  return false;
+}
+
+/**
+ * Backoff before the given retry attempt (2 = first retry), doubling each time
+ */
+export function getRetryDelayMs(policy: RetryPolicy, attempt: number): number {
+  return Math.max(0, policy.initialDelaySeconds) * 1000 * Math.pow(2, attempt - 2);
+}
+
+/**
+ * Wait for the given time, resolving early if the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,97 @@
+/**
+ * Concurrency scheduler for Ronginus
+ * Limits how many provider calls run at once, globally and per provider
+ */
+
+import type { CliType } from "../types";
+
+interface QueuedCall {
+  type: CliType;
+  start: () => void;
+}
+
+/**
+ * First-in-first-out slots for provider calls (a limit of 0 means unlimited)
+ */
+export class ConcurrencyScheduler {
+  private maxConcurrent: number;
+  private getProviderLimit: (type: CliType) => number;
+  private running = 0;
+  private runningByType = new Map<CliType, number>();
+  private queue: QueuedCall[] = [];
+
+  constructor(maxConcurrent: number, getProviderLimit: (type: CliType) => number) {
+    this.maxConcurrent = maxConcurrent;
+    this.getProviderLimit = getProviderLimit;
+  }
+
+  /**
+   * Wait for a free slot and return the function that releases it.
+   * onQueued is called when the call has to wait. An abort while waiting
+   * leaves the queue and resolves with a no-op release.
+   */
+  acquire(type: CliType, signal?: AbortSignal, onQueued?: () => void): Promise<() => void> {
+    if (signal?.aborted) {
+      return Promise.resolve(() => undefined);
+    }
+    // Same check as drain(): calls waiting on another provider's cap do not hold this one back,
+    // and calls for this provider only wait while it (or the global limit) is full
+    if (this.hasCapacity(type)) {
+      return Promise.resolve(this.start(type));
+    }
+
+    onQueued?.();
+    return new Promise((resolve) => {
+      const call: QueuedCall = {
+        type,
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(this.start(type));
+        },
+      };
+      const onAbort = () => {
+        this.queue = this.queue.filter(queued => queued !== call);
+        resolve(() => undefined);
+        // A call behind this one may now be first in line for its provider
+        this.drain();
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(call);
+    });
+  }
+
+  private hasCapacity(type: CliType): boolean {
+    if (this.maxConcurrent > 0 && this.running >= this.maxConcurrent) {
+      return false;
+    }
+    const providerLimit = this.getProviderLimit(type);
+    return providerLimit <= 0 || (this.runningByType.get(type) || 0) < providerLimit;
+  }
+
+  private start(type: CliType): () => void {
+    this.running++;
+    this.runningByType.set(type, (this.runningByType.get(type) || 0) + 1);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.running--;
+      this.runningByType.set(type, (this.runningByType.get(type) || 1) - 1);
+      this.drain();
+    };
+  }
+
+  /**
+   * Start queued calls in order, skipping those whose provider is at its cap
+   */
+  private drain(): void {
+    for (const call of [...this.queue]) {
+      if (this.maxConcurrent > 0 && this.running >= this.maxConcurrent) return;
+      if (this.hasCapacity(call.type)) {
+        this.queue = this.queue.filter(queued => queued !== call);
+        call.start();
+      }
+    }
+  }
+}
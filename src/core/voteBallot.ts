@@ -0,0 +1,147 @@
+/**
+ * Structured ballots for Ronginus
+ * AI voters answer with a JSON object naming candidates by ID; anything that does not validate is rejected with a reason
+ */
+
+import type { VoteResult, VotingMethod } from "../types";
+import { VOTE_SCORE_MAX, VOTE_SCORE_MIN } from "../types";
+import { isRankingMethod } from "./voteTally";
+
+/**
+ * A conclusion on the ballot: the ID voters write and the participant it stands for
+ */
+export interface VoteCandidate {
+  id: string;
+  participantId: string;
+}
+
+export type ParsedBallot = Pick<VoteResult, "votedForId" | "ranking" | "approvals" | "scores" | "reason" | "confidence">;
+
+/**
+ * Ballot IDs for one round of voting, so the same conclusion keeps its ID when the voter is asked again.
+ * Normally C1, C2, ... in conclusion order; blind ballots letter the conclusions A, B, C, ... in shuffled order.
+ */
+export function createVoteCandidates(participantIds: string[], blind = false): VoteCandidate[] {
+  if (!blind) {
+    return participantIds.map((participantId, index) => ({ id: `C${index + 1}`, participantId }));
+  }
+
+  const shuffled = [...participantIds];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled.map((participantId, index) => ({ id: String.fromCharCode(65 + index), participantId }));
+}
+
+/**
+ * The JSON object in a response, with or without a code fence around it
+ */
+function extractJson(response: string): unknown {
+  const start = response.indexOf("{");
+  const end = response.lastIndexOf("}");
+  if (start === -1 || end < start) {
+    throw new Error("No JSON object found");
+  }
+  try {
+    return JSON.parse(response.slice(start, end + 1));
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Participant IDs for a list of candidate IDs (each must be valid and listed once)
+ */
+function readCandidateList(value: unknown, field: string, candidates: VoteCandidate[]): string[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`"${field}" must be a non-empty array of candidate IDs`);
+  }
+  const participantIds: string[] = [];
+  for (const id of value) {
+    const candidate = candidates.find(c => c.id === id);
+    if (!candidate) {
+      throw new Error(`Unknown candidate ID in "${field}": ${JSON.stringify(id)}`);
+    }
+    if (participantIds.includes(candidate.participantId)) {
+      throw new Error(`Candidate ${candidate.id} is listed more than once in "${field}"`);
+    }
+    participantIds.push(candidate.participantId);
+  }
+  return participantIds;
+}
+
+/**
+ * Validate a voter's response for the voting method.
+ * Throws with a message that can be shown to the voter when it asks again.
+ */
+export function parseBallot(method: VotingMethod, response: string, candidates: VoteCandidate[]): ParsedBallot {
+  const json = extractJson(response);
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    throw new Error("The response must be a JSON object");
+  }
+  const ballot = json as Record<string, unknown>;
+
+  const reason = ballot.reason;
+  if (typeof reason !== "string" || !reason.trim()) {
+    throw new Error(`"reason" must be a non-empty string`);
+  }
+  const ballotResult = parseChoices(method, ballot, candidates);
+  ballotResult.reason = reason.trim();
+
+  // Confidence is optional, but must be in range when given
+  const confidence = ballot.confidence;
+  if (confidence !== undefined) {
+    if (typeof confidence !== "number" || confidence < 0 || confidence > 1) {
+      throw new Error(`"confidence" must be a number from 0 to 1`);
+    }
+    ballotResult.confidence = confidence;
+  }
+  return ballotResult;
+}
+
+/**
+ * The choices of a ballot for the voting method, as participant IDs
+ */
+function parseChoices(method: VotingMethod, ballot: Record<string, unknown>, candidates: VoteCandidate[]): ParsedBallot {
+
+  if (isRankingMethod(method)) {
+    const ranking = readCandidateList(ballot.ranking, "ranking", candidates);
+    if (ranking.length !== candidates.length) {
+      throw new Error(`"ranking" must list all ${candidates.length} candidates`);
+    }
+    return { votedForId: ranking[0], ranking };
+  }
+
+  if (method === "approval") {
+    const approvals = readCandidateList(ballot.approve, "approve", candidates);
+    return { votedForId: approvals[0], approvals };
+  }
+
+  if (method === "score") {
+    const rawScores = ballot.scores;
+    if (typeof rawScores !== "object" || rawScores === null || Array.isArray(rawScores)) {
+      throw new Error(`"scores" must be an object mapping candidate IDs to scores`);
+    }
+    const scores: Record<string, number> = {};
+    for (const candidate of candidates) {
+      const score = (rawScores as Record<string, unknown>)[candidate.id];
+      if (typeof score !== "number" || !Number.isInteger(score) || score < VOTE_SCORE_MIN || score > VOTE_SCORE_MAX) {
+        throw new Error(`"scores" must give ${candidate.id} a whole number from ${VOTE_SCORE_MIN} to ${VOTE_SCORE_MAX}`);
+      }
+      scores[candidate.participantId] = score;
+    }
+    const unknownId = Object.keys(rawScores).find(id => !candidates.some(c => c.id === id));
+    if (unknownId) {
+      throw new Error(`Unknown candidate ID in "scores": ${JSON.stringify(unknownId)}`);
+    }
+    const votedForId = Object.keys(scores).sort((a, b) => scores[b] - scores[a])[0];
+    return { votedForId, scores };
+  }
+
+  const candidate = candidates.find(c => c.id === ballot.vote);
+  if (!candidate) {
+    throw new Error(`"vote" must be one of ${candidates.map(c => c.id).join(", ")}`);
+  }
+  return { votedForId: candidate.participantId };
+}
@@ -0,0 +1,183 @@
+/**
+ * Vote counting for Ronginus
+ * Turns ballots into a winner with the selected voting method, keeping every round for display.
+ * Each ballot counts with its voter's weight.
+ */
+
+import type { VoteResult, VoteRound, VoteTally, VotingMethod } from "../types";
+
+/**
+ * Ranking of a ballot restricted to the candidates (a plain vote ranks only its choice)
+ */
+function getRanking(vote: VoteResult, candidateIds: string[]): string[] {
+  const ranking = vote.ranking && vote.ranking.length > 0 ? vote.ranking : [vote.votedForId];
+  return ranking.filter(id => candidateIds.includes(id));
+}
+
+/**
+ * How much a ballot counts (voters without a weight count once)
+ */
+function getWeight(vote: VoteResult): number {
+  return vote.weight ?? 1;
+}
+
+function emptyCounts(candidateIds: string[]): Record<string, number> {
+  return Object.fromEntries(candidateIds.map(id => [id, 0]));
+}
+
+/**
+ * Round weighted counts so fractional weights (0.1 + 0.2) still tie exactly
+ */
+function roundCounts(counts: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(Object.entries(counts).map(([id, count]) => [id, Math.round(count * 1000) / 1000]));
+}
+
+/**
+ * Candidates with the highest count
+ */
+function getLeaders(counts: Record<string, number>): string[] {
+  const max = Math.max(...Object.values(counts));
+  return Object.keys(counts).filter(id => counts[id] === max);
+}
+
+/**
+ * Single round: one (weighted) vote for each ballot's top choice
+ */
+function countPlurality(votes: VoteResult[], candidateIds: string[]): VoteRound {
+  const counts = emptyCounts(candidateIds);
+  for (const vote of votes) {
+    const choice = getRanking(vote, candidateIds)[0];
+    if (choice) counts[choice] += getWeight(vote);
+  }
+  return { counts, eliminated: [] };
+}
+
+/**
+ * Single round: with n candidates, a ballot gives n-1 points to its first choice, n-2 to its second, and so on
+ */
+function countBorda(votes: VoteResult[], candidateIds: string[]): VoteRound {
+  const counts = emptyCounts(candidateIds);
+  for (const vote of votes) {
+    getRanking(vote, candidateIds).forEach((id, index) => {
+      counts[id] += (candidateIds.length - 1 - index) * getWeight(vote);
+    });
+  }
+  return { counts, eliminated: [] };
+}
+
+/**
+ * Single round: one point for every approved candidate
+ */
+function countApproval(votes: VoteResult[], candidateIds: string[]): VoteRound {
+  const counts = emptyCounts(candidateIds);
+  for (const vote of votes) {
+    const approvals = vote.approvals && vote.approvals.length > 0 ? vote.approvals : [vote.votedForId];
+    for (const id of new Set(approvals)) {
+      if (id in counts) counts[id] += getWeight(vote);
+    }
+  }
+  return { counts, eliminated: [] };
+}
+
+/**
+ * Single round: sum of the scores given to each candidate (unscored candidates get nothing)
+ */
+function countScores(votes: VoteResult[], candidateIds: string[]): VoteRound {
+  const counts = emptyCounts(candidateIds);
+  for (const vote of votes) {
+    for (const [id, score] of Object.entries(vote.scores || {})) {
+      if (id in counts) counts[id] += score * getWeight(vote);
+    }
+  }
+  return { counts, eliminated: [] };
+}
+
+/**
+ * Instant runoff: count each ballot for its highest-ranked remaining candidate until one has a majority,
+ * eliminating the last-placed candidates after each round
+ */
+function countRankedChoice(votes: VoteResult[], candidateIds: string[]): { rounds: VoteRound[]; winnerIds: string[] } {
+  const rounds: VoteRound[] = [];
+  let remaining = [...candidateIds];
+
+  while (remaining.length > 0) {
+    const counts = emptyCounts(remaining);
+    let activeBallots = 0;
+    for (const vote of votes) {
+      const choice = getRanking(vote, remaining)[0];
+      if (choice) {
+        counts[choice] += getWeight(vote);
+        activeBallots += getWeight(vote);
+      }
+    }
+
+    const rounded = roundCounts(counts);
+    const leaders = getLeaders(rounded);
+    const majority = leaders.length === 1 && rounded[leaders[0]] * 2 > activeBallots;
+    const min = Math.min(...Object.values(rounded));
+    const last = remaining.filter(id => rounded[id] === min);
+    // Stop at a majority, or when eliminating the last-placed would leave nobody (a draw between them)
+    if (majority || last.length === remaining.length) {
+      rounds.push({ counts: rounded, eliminated: [] });
+      return { rounds, winnerIds: majority ? leaders : remaining };
+    }
+
+    rounds.push({ counts: rounded, eliminated: last });
+    remaining = remaining.filter(id => !last.includes(id));
+  }
+
+  return { rounds, winnerIds: [] };
+}
+
+/**
+ * Count the votes with the given method, skipping abstentions. Several winners mean a draw.
+ */
+export function tallyVotes(method: VotingMethod, votes: VoteResult[], candidateIds: string[]): VoteTally {
+  if (candidateIds.length === 0) {
+    return { method, rounds: [], winnerIds: [] };
+  }
+
+  const ballots = votes.filter(vote => !vote.abstained);
+  if (method === "ranked-choice") {
+    return { method, ...countRankedChoice(ballots, candidateIds) };
+  }
+
+  const round = method === "borda"
+    ? countBorda(ballots, candidateIds)
+    : method === "approval"
+      ? countApproval(ballots, candidateIds)
+      : method === "score"
+        ? countScores(ballots, candidateIds)
+        : countPlurality(ballots, candidateIds);
+  const counts = roundCounts(round.counts);
+  return { method, rounds: [{ ...round, counts }], winnerIds: getLeaders(counts) };
+}
+
+/**
+ * The candidate a ballot prefers among the given ones (undefined when the ballot does not single one out).
+ * Used when one voter's ballot is the tiebreaker of record.
+ */
+export function getPreferredCandidate(vote: VoteResult, candidateIds: string[]): string | undefined {
+  if (vote.abstained) return undefined;
+  if (vote.ranking && vote.ranking.length > 0) {
+    return getRanking(vote, candidateIds)[0];
+  }
+  if (vote.scores) {
+    const scored = candidateIds.filter(id => vote.scores?.[id] !== undefined);
+    const best = Math.max(...scored.map(id => vote.scores?.[id] ?? 0));
+    const top = scored.filter(id => vote.scores?.[id] === best);
+    return top.length === 1 ? top[0] : undefined;
+  }
+  if (vote.approvals && vote.approvals.length > 0) {
+    const approved = candidateIds.filter(id => vote.approvals?.includes(id));
+    return approved.length === 1 ? approved[0] : undefined;
+  }
+  return candidateIds.includes(vote.votedForId) ? vote.votedForId : undefined;
+}
+
+/**
+ * Whether voters rank the candidates for this method
+ */
+export function isRankingMethod(method: VotingMethod): boolean {
+  return method === "ranked-choice" || method === "borda";
+}
@@ -2,6 +2,8 @@
  * Internationalization (i18n) for Ronginus
  */
 
+import type { DebateStopReason, VotingMethod } from "./types";
+
 export type Locale = "en" | "ja";
 
 interface Translations {
@@ -28,6 +30,27 @@ interface Translations {
   save: string;
   cliPathSaved: string;
   cliPathCleared: string;
+  promptDelivery: string;
+  promptDeliveryDesc: string;
+  promptDeliveryAuto: string;
+  promptDeliveryStdin: string;
+  promptDeliveryArgv: string;
+  safetyLevel: string;
+  safetyLevelDesc: string;
+  customSafetyLevelDesc: string;
+  safetyIsolated: string;
+  safetyReadOnly: string;
+  safetyWrite: string;
+  safetyIsolatedShort: string;
+  safetyReadOnlyShort: string;
+  safetyWriteShort: string;
+  cliVersion: (version: string) => string;
+  cliFoundAt: (path: string) => string;
+  capabilityJsonStreaming: string;
+  capabilityModelSelection: string;
+  capabilitySandbox: string;
+  capabilitySessionResume: string;
+  capabilityStdinPrompt: string;
   fileNotFound: string;
   invalidChars: string;
   cliVerifiedSuccess: (name: string) => string;
@@ -35,10 +58,114 @@ interface Translations {
   clisVerifiedReady: (count: number) => string;
   clisVerifiedNeed: (count: number) => string;
 
+  // Custom providers
+  customProviders: string;
+  customProvidersIntro: string;
+  addCustomProvider: string;
+  editCustomProvider: string;
+  removeCustomProvider: string;
+  customProviderName: string;
+  customProviderCommand: string;
+  customProviderCommandDesc: string;
+  customProviderArgs: string;
+  customProviderArgsDesc: string;
+  customProviderOutputMode: string;
+  outputModeText: string;
+  outputModeJsonl: string;
+  customProviderJsonPath: string;
+  customProviderJsonPathDesc: string;
+  customProviderRequired: string;
+  customProviderSaved: string;
+  customProviderRemoved: (name: string) => string;
+  customProviderVerified: (name: string) => string;
+
+  // HTTP providers
+  httpProviders: string;
+  httpProvidersIntro: string;
+  addHttpProvider: string;
+  editHttpProvider: string;
+  removeHttpProvider: string;
+  httpProviderBaseUrl: string;
+  httpProviderBaseUrlDesc: string;
+  httpProviderModel: string;
+  httpProviderApiKey: string;
+  httpProviderApiKeyDesc: string;
+  httpProviderRequired: string;
+  httpProviderSaved: string;
+
   // General settings
   general: string;
   outputFolder: string;
   outputFolderDesc: string;
+  resumeSessions: string;
+  resumeSessionsDesc: string;
+  responseTimeout: string;
+  responseTimeoutDesc: string;
+  providerTimeout: string;
+  providerTimeoutDesc: string;
+  maxConcurrentResponses: string;
+  maxConcurrentResponsesDesc: string;
+  providerMaxConcurrent: string;
+  providerMaxConcurrentDesc: string;
+  providerWorkingDirectory: string;
+  providerWorkingDirectoryDesc: string;
+  providerWorkingDirectoryIsolated: string;
+  providerEnv: string;
+  providerEnvDesc: string;
+  providerSecretEnv: string;
+  providerSecretEnvDesc: string;
+  providerEnvPlaceholder: string;
+  providerSecretEnvPlaceholder: string;
+  retry: string;
+  retryMaxAttempts: string;
+  retryMaxAttemptsDesc: string;
+  retryInitialDelay: string;
+  retryInitialDelayDesc: string;
+  retryOnRateLimit: string;
+  retryOnTimeout: string;
+  retryOnEmptyExit: string;
+  tieBreak: string;
+  tieBreakPolicy: string;
+  tieBreakPolicyDesc: string;
+  tieBreakNone: string;
+  tieBreakRunoff: string;
+  tieBreakRebuttal: string;
+  tieBreakSynthesis: string;
+  tieBreakUserVote: string;
+  tieBreakMaxRounds: string;
+  tieBreakMaxRoundsDesc: string;
+  tieBreakSynthesizer: string;
+  tieBreakSynthesizerDesc: string;
+  tieBreakSynthesisModel: string;
+  tieBreakSelectSynthesizer: string;
+  adaptiveTurns: string;
+  adaptiveMaxTurns: string;
+  adaptiveMaxTurnsDesc: string;
+  adaptiveChecker: string;
+  adaptiveCheckerDesc: string;
+  adaptiveCheckerDefault: string;
+  adaptiveCheckerModel: string;
+  adaptiveCheckerModelDesc: string;
+  developer: string;
+  developerMode: string;
+  developerModeDesc: string;
+  fakeResponseTemplate: string;
+  fakeResponseTemplateDesc: string;
+  fakeDelay: string;
+  fakeDelayDesc: string;
+  fakeChunkSize: string;
+  fakeChunkSizeDesc: string;
+  captureCliOutput: string;
+  captureCliOutputDesc: string;
+  fixtureFolder: string;
+  fixtureFolderDesc: string;
+  selectFixture: string;
+  fixtureReplay: string;
+  fixtureReplayFailed: (error: string) => string;
+  fixtureExitCode: (code: number | null) => string;
+  fixtureParsedText: string;
+  fixtureNoText: string;
+  fixtureChunks: (count: number) => string;
 
   // Prompts
   prompts: string;
@@ -48,6 +175,19 @@ interface Translations {
   conclusionPromptDesc: string;
   votePrompt: string;
   votePromptDesc: string;
+  votingSettings: string;
+  voteReasks: string;
+  voteReasksDesc: string;
+  forbidSelfVote: string;
+  forbidSelfVoteDesc: string;
+  blindVoting: string;
+  blindVotingDesc: string;
+  moderatorPrompt: string;
+  moderatorPromptDesc: string;
+  judgePrompt: string;
+  judgePromptDesc: string;
+  judgeRubric: string;
+  judgeRubricDesc: string;
 
   // Debate Panel
   debateArena: string;
@@ -55,6 +195,62 @@ interface Translations {
   debateTheme: string;
   debateThemePlaceholder: string;
   numberOfTurns: string;
+  adaptiveTurnsCheckbox: (maxTurns: number) => string;
+  convergenceCheck: string;
+  convergenceFailed: string;
+  verdictConverged: string;
+  verdictContinue: string;
+  verdictDisagreement: string;
+  stopReason: (reason: DebateStopReason, turns: number) => string;
+  debateFormat: string;
+  formatParallel: string;
+  formatSequential: string;
+  nowSpeaking: (name: string) => string;
+  moderator: string;
+  noModerator: string;
+  moderatorSummary: string;
+  moderatorFailed: string;
+  moderatorQuestions: string;
+  moderatorConverged: string;
+  moderatorConvergedCheckbox: string;
+  moderateTurn: string;
+  moderatePlaceholder: string;
+  decisionMode: string;
+  decisionVote: string;
+  decisionJudge: string;
+  judges: string;
+  addJudge: string;
+  needOneJudge: string;
+  scoreboard: string;
+  scoreTotal: string;
+  judgeFeedback: string;
+  scoreConclusions: string;
+  judgeFeedbackPlaceholder: string;
+  submitScores: string;
+  votingMethod: string;
+  methodPlurality: string;
+  methodRankedChoice: string;
+  methodBorda: string;
+  methodApproval: string;
+  methodScore: string;
+  rankConclusions: string;
+  moveUp: string;
+  moveDown: string;
+  approveConclusions: string;
+  scoreEachConclusion: string;
+  tallyTitle: string;
+  tallyRound: (round: number) => string;
+  tallyEliminated: (names: string) => string;
+  tallyExplanation: (method: VotingMethod, candidates: number) => string;
+  tieBreakTitle: string;
+  tieBreakRoundTitle: (round: number, policy: string) => string;
+  tieBreakTied: (names: string) => string;
+  tieBreakStillTied: string;
+  tieBreakDecidedBy: (name: string) => string;
+  userVote: string;
+  runoff: string;
+  rebuttal: string;
+  synthesis: string;
   startDebate: string;
   stopDebate: string;
   saveAsNote: string;
@@ -62,9 +258,14 @@ interface Translations {
   theme: string;
   turn: string;
   thinking: string;
+  waitingForSlot: string;
   turnComplete: string;
+  moderating: string;
+  checking: string;
   concluding: string;
   voting: string;
+  judging: string;
+  tieBreaking: string;
   complete: string;
   error: string;
   ready: string;
@@ -72,6 +273,13 @@ interface Translations {
   discussion: string;
   conclusions: string;
   votingResults: string;
+  tokenUsageSummary: (input: string, output: string, cached: string) => string;
+  retrying: (attempt: number, maxAttempts: number) => string;
+  participantFailed: string;
+  retryParticipant: string;
+  replaceParticipant: string;
+  dropParticipant: string;
+  continueWithoutParticipant: string;
   winner: string;
   draw: string;
   conclusion: string;
@@ -98,7 +306,23 @@ interface Translations {
   defaultSystemPrompt: string;
   defaultConclusionPrompt: string;
   defaultVotePrompt: string;
-  voteFormatInstruction: string;
+  voteFormatInstruction: (ids: string[]) => string;
+  defaultModeratorPrompt: string;
+  moderatorFormatInstruction: string;
+  defaultJudgePrompt: string;
+  defaultJudgeRubric: string;
+  judgeFormatInstruction: (criteria: string[]) => string;
+  rankingFormatInstruction: (ids: string[]) => string;
+  approvalFormatInstruction: (ids: string[]) => string;
+  scoreFormatInstruction: (ids: string[]) => string;
+  voteRetryInstruction: (error: string) => string;
+  candidateLabel: (id: string) => string;
+  ownConclusionOmitted: string;
+  rebuttalInstruction: (names: string) => string;
+  synthesisInstruction: string;
+  synthesisOf: (name: string) => string;
+  convergenceCheckInstruction: string;
+  convergenceCheckOf: (name: string) => string;
 
   // Debate context strings
   debateThemeHeader: string;
@@ -106,8 +330,14 @@ interface Translations {
   yourTask: string;
   yourTaskInstruction: string;
   completeDiscussion: string;
+  newResponsesSinceLastTurn: string;
+  earlierInThisTurn: string;
+  moderatorSummaryOf: (name: string) => string;
+  moderatorQuestionForYou: string;
+  moderatorParticipants: string;
   finalConclusions: string;
   conclusionOf: (name: string) => string;
+  judgeRubricHeader: string;
 
   // Participant selection
   participants: string;
@@ -124,11 +354,23 @@ interface Translations {
   yourRole: string;
   submitResponse: string;
   selectVote: string;
+  abstained: string;
+  voteWeight: string;
+  voteConfidence: string;
   voteReason: string;
   submitVote: string;
   needOneParticipant: string;
   type: string;
   yourPosition: string;
+  model: string;
+  modelPlaceholder: string;
+  extraArgs: string;
+  extraArgsPlaceholder: string;
+}
+
+// Ballot examples quote the candidate IDs actually on the ballot (C1, C2, ... or A, B, ... when blind)
+function formatIdList(ids: string[]): string {
+  return `[${ids.map(id => `"${id}"`).join(", ")}]`;
 }
 
 const en: Translations = {
@@ -155,6 +397,27 @@ const en: Translations = {
   save: "Save",
   cliPathSaved: "CLI path saved",
   cliPathCleared: "CLI path cleared",
+  promptDelivery: "Prompt delivery",
+  promptDeliveryDesc: "How the debate transcript is passed to the CLI. Stdin avoids command-line length limits and keeps the prompt out of process listings.",
+  promptDeliveryAuto: "Auto (argument for short prompts, stdin otherwise)",
+  promptDeliveryStdin: "Stdin",
+  promptDeliveryArgv: "Command-line argument",
+  safetyLevel: "File access",
+  safetyLevelDesc: "What the agent may do with files while debating. Only \"can edit vault files\" lets it modify your notes.",
+  customSafetyLevelDesc: "Custom commands cannot be restricted by flags, so they run in an empty temporary folder unless you allow access to the vault.",
+  safetyIsolated: "Isolated (read-only, empty temporary folder)",
+  safetyReadOnly: "Read-only (vault folder)",
+  safetyWrite: "Can edit vault files",
+  safetyIsolatedShort: "Isolated",
+  safetyReadOnlyShort: "Read-only",
+  safetyWriteShort: "Can edit",
+  cliVersion: (version) => `Version ${version}`,
+  cliFoundAt: (path) => `Found at ${path}`,
+  capabilityJsonStreaming: "JSON streaming",
+  capabilityModelSelection: "Model selection",
+  capabilitySandbox: "File access flags",
+  capabilitySessionResume: "Session resume",
+  capabilityStdinPrompt: "Stdin prompt",
   fileNotFound: "File not found at specified path",
   invalidChars: "Path contains invalid characters",
   cliVerifiedSuccess: (name) => `${name} CLI verified successfully`,
@@ -162,10 +425,114 @@ const en: Translations = {
   clisVerifiedReady: (count) => `${count} CLI(s) verified - Ready for debates`,
   clisVerifiedNeed: (_count) => `No CLIs verified - Need at least 1 for debates`,
 
+  // Custom providers
+  customProviders: "Custom Providers",
+  customProvidersIntro: "Add your own local agents (aider, llm, ollama run, in-house wrappers). Use {prompt} in the arguments; if it is omitted, the prompt is sent via stdin.",
+  addCustomProvider: "Add custom provider",
+  editCustomProvider: "Edit custom provider",
+  removeCustomProvider: "Remove custom provider",
+  customProviderName: "Display name",
+  customProviderCommand: "Executable",
+  customProviderCommandDesc: "Command name or full path to the executable",
+  customProviderArgs: "Arguments",
+  customProviderArgsDesc: "Argument template. {prompt} is replaced with the prompt and {model} with the participant's model.",
+  customProviderOutputMode: "Output mode",
+  outputModeText: "Plain text",
+  outputModeJsonl: "JSON lines",
+  customProviderJsonPath: "JSON text field",
+  customProviderJsonPathDesc: "Dot path to the text in each JSON line (e.g. message.content, default: text). Used in JSON lines mode.",
+  customProviderRequired: "Display name and executable are required",
+  customProviderSaved: "Custom provider saved",
+  customProviderRemoved: (name) => `${name} removed`,
+  customProviderVerified: (name) => `${name} verified successfully`,
+
+  // HTTP providers
+  httpProviders: "HTTP Providers",
+  httpProvidersIntro: "Debate with local models through any OpenAI-compatible chat completions endpoint (LM Studio, llama.cpp server, vLLM, Ollama). No CLI installation required.",
+  addHttpProvider: "Add HTTP provider",
+  editHttpProvider: "Edit HTTP provider",
+  removeHttpProvider: "Remove HTTP provider",
+  httpProviderBaseUrl: "Base URL",
+  httpProviderBaseUrlDesc: "Server URL including /v1 (e.g. http://localhost:11434/v1)",
+  httpProviderModel: "Model",
+  httpProviderApiKey: "API key",
+  httpProviderApiKeyDesc: "Optional. Sent as a bearer token. Kept in Obsidian's secret storage, not in data.json, when available.",
+  httpProviderRequired: "Display name, base URL and model are required",
+  httpProviderSaved: "HTTP provider saved",
+
   // General settings
   general: "General",
   outputFolder: "Output folder",
   outputFolderDesc: "Folder for saving debate notes",
+  resumeSessions: "Resume CLI sessions",
+  resumeSessionsDesc: "Continue each participant's Claude or Codex session between turns and send only the new responses, instead of re-sending the whole transcript",
+  responseTimeout: "Response timeout (seconds)",
+  responseTimeoutDesc: "Stop a response that takes longer than this. 0 disables the timeout. Can be overridden per provider.",
+  providerTimeout: "Response timeout (seconds)",
+  providerTimeoutDesc: "Leave empty to use the default from the general settings. 0 disables the timeout.",
+  maxConcurrentResponses: "Max concurrent responses",
+  maxConcurrentResponsesDesc: "How many AI participants may generate a response at the same time. The rest wait in order. 0 means no limit.",
+  providerMaxConcurrent: "Max concurrent responses",
+  providerMaxConcurrentDesc: "Cap for this provider on top of the general limit. Leave empty for no cap.",
+  providerWorkingDirectory: "Working directory",
+  providerWorkingDirectoryDesc: "Folder the agent runs in: an absolute path, or a path relative to the vault root. Leave empty for the vault root. Isolated file access always uses an empty temporary folder.",
+  providerWorkingDirectoryIsolated: "Not used: at this file access level the agent runs isolated, in an empty temporary folder. Choose a level that runs in the vault to use a working directory.",
+  providerEnv: "Environment variables",
+  providerEnvDesc: "One NAME=value per line, added to the inherited environment. Stored in the plugin settings.",
+  providerSecretEnv: "Secret environment variables",
+  providerSecretEnvDesc: "One NAME=value per line, such as API keys. Values are kept in this device's secret storage instead of the plugin settings; stored values are shown masked.",
+  providerEnvPlaceholder: "HTTPS_PROXY=http://proxy:8080",
+  providerSecretEnvPlaceholder: "OPENAI_API_KEY=sk-...",
+  retry: "Retry",
+  retryMaxAttempts: "Max attempts",
+  retryMaxAttemptsDesc: "Total attempts per response, including the first. 1 disables retrying.",
+  retryInitialDelay: "Initial backoff (seconds)",
+  retryInitialDelayDesc: "Wait before the first retry. The wait doubles for each further retry.",
+  retryOnRateLimit: "Retry on rate limits",
+  retryOnTimeout: "Retry on timeouts",
+  retryOnEmptyExit: "Retry when a CLI exits with an error and no output",
+  tieBreak: "Tie-break",
+  tieBreakPolicy: "When the vote is tied",
+  tieBreakPolicyDesc: "How a tied peer vote is resolved. With \"Your vote decides\", the tied conclusion your ballot prefers wins. Judge panels always end as a draw when tied.",
+  tieBreakNone: "End as a draw",
+  tieBreakRunoff: "Runoff vote among the tied conclusions",
+  tieBreakRebuttal: "Rebuttal turn between the tied participants, then revote",
+  tieBreakSynthesis: "Merge the tied conclusions",
+  tieBreakUserVote: "Your vote decides (tiebreaker of record)",
+  tieBreakMaxRounds: "Max tie-break rounds",
+  tieBreakMaxRoundsDesc: "How many runoff or rebuttal rounds to run before accepting the draw",
+  tieBreakSynthesizer: "Synthesis provider",
+  tieBreakSynthesizerDesc: "Provider that merges the tied conclusions into one",
+  tieBreakSynthesisModel: "Synthesis model",
+  tieBreakSelectSynthesizer: "Select a provider...",
+  adaptiveTurns: "Adaptive turns",
+  adaptiveMaxTurns: "Max turns",
+  adaptiveMaxTurnsDesc: "Upper limit when a debate is started with adaptive turns. Turns are added one at a time while disagreement is still sharp, up to this count.",
+  adaptiveChecker: "Consensus check provider",
+  adaptiveCheckerDesc: "Provider that checks after each turn whether the participants have converged, are repeating themselves, or still sharply disagree",
+  adaptiveCheckerDefault: "First AI participant",
+  adaptiveCheckerModel: "Consensus check model",
+  adaptiveCheckerModelDesc: "A small, fast model is enough for this check",
+  developer: "Developer",
+  developerMode: "Developer mode",
+  developerModeDesc: "Offer the offline \"Fake\" provider as a participant. It returns scripted responses without running any CLI. Script each participant with extra arguments: --delay, --chunk, --fail, --error, --vote.",
+  fakeResponseTemplate: "Fake response template",
+  fakeResponseTemplateDesc: "Text returned for turns and conclusions. Placeholders: {call}, {theme}, {model}",
+  fakeDelay: "Fake stream delay (ms)",
+  fakeDelayDesc: "Delay before each streamed chunk",
+  fakeChunkSize: "Fake chunk size",
+  fakeChunkSizeDesc: "Characters per streamed chunk",
+  captureCliOutput: "Capture CLI output",
+  captureCliOutputDesc: "Write each CLI process's command line, raw output, stderr and exit code to a fixture file. Fixtures can be replayed with the \"Replay CLI output fixture\" command and attached to bug reports. They contain the prompts, so review them before sharing.",
+  fixtureFolder: "Fixture folder",
+  fixtureFolderDesc: "Folder for captured CLI output fixtures",
+  selectFixture: "Select a fixture to replay...",
+  fixtureReplay: "Fixture replay",
+  fixtureReplayFailed: (error: string) => `Failed to replay fixture: ${error}`,
+  fixtureExitCode: (code: number | null) => `Exit code: ${code === null ? "none" : code}`,
+  fixtureParsedText: "Parsed text",
+  fixtureNoText: "(no text)",
+  fixtureChunks: (count: number) => `Parsed chunks (${count})`,
 
   // Prompts
   prompts: "Prompts",
@@ -174,7 +541,20 @@ const en: Translations = {
   conclusionPrompt: "Conclusion prompt",
   conclusionPromptDesc: "Prompt for final conclusion",
   votePrompt: "Vote prompt",
-  votePromptDesc: "Prompt for voting phase. Format instruction (VOTE: [Name] - [Reason]) is automatically appended.",
+  votePromptDesc: "Prompt for voting phase. The candidate IDs and the JSON ballot format are automatically appended.",
+  votingSettings: "Voting",
+  voteReasks: "Re-ask invalid ballots",
+  voteReasksDesc: "How many times an AI voter is asked again when its ballot is not valid JSON for the candidates. After that the vote is recorded as an abstention and not counted.",
+  forbidSelfVote: "Forbid self-votes",
+  forbidSelfVoteDesc: "Voters synced from the debate participants cannot vote for their own conclusion. AI voters do not see it on the ballot, and it is left out of your vote choices.",
+  blindVoting: "Blind voting",
+  blindVotingDesc: "Show conclusions to AI voters as \"Candidate A\", \"Candidate B\", ... in shuffled order, without participant names",
+  moderatorPrompt: "Moderator prompt",
+  moderatorPromptDesc: "Prompt for the moderator after each turn. The participant names and the format instruction (agreement, disagreement, questions, convergence) are automatically appended.",
+  judgePrompt: "Judge prompt",
+  judgePromptDesc: "Prompt for judges in a judge panel. The rubric and the format instruction (one block of scores and feedback per participant) are automatically appended.",
+  judgeRubric: "Judging rubric",
+  judgeRubricDesc: "One criterion per line as Name: description. Judges score every conclusion on each criterion from 1 to 10, and the winner has the highest total of average scores.",
 
   // Debate Panel
   debateArena: "AI Debate Arena",
@@ -182,6 +562,86 @@ const en: Translations = {
   debateTheme: "Debate Theme",
   debateThemePlaceholder: "Enter a topic for the AI to debate...",
   numberOfTurns: "Number of Turns",
+  adaptiveTurnsCheckbox: (maxTurns) => `Adaptive: end early on consensus, add turns while disagreement is sharp (up to ${maxTurns})`,
+  convergenceCheck: "Consensus check",
+  convergenceFailed: "Consensus check failed; the planned turns continue",
+  verdictConverged: "Converged",
+  verdictContinue: "Continue",
+  verdictDisagreement: "Sharp disagreement",
+  stopReason: (reason, turns) => {
+    switch (reason) {
+      case "moderator-converged":
+        return `Ended after ${turns} turns: the moderator judged the debate converged`;
+      case "consensus":
+        return `Ended early after ${turns} turns: the participants converged`;
+      case "max-turns":
+        return `Ended after ${turns} turns: the maximum was reached while disagreement was still sharp`;
+      default:
+        return `Ended after ${turns} turns as planned`;
+    }
+  },
+  debateFormat: "Format",
+  formatParallel: "Parallel (everyone answers at once)",
+  formatSequential: "Sequential (one after another, seeing earlier speakers)",
+  nowSpeaking: (name) => `Speaking: ${name}`,
+  moderator: "Moderator",
+  noModerator: "None",
+  moderatorSummary: "Moderator summary",
+  moderatorFailed: "Moderation failed; the next turn sees the full responses",
+  moderatorQuestions: "Follow-up questions",
+  moderatorConverged: "The moderator judged the debate has converged",
+  moderatorConvergedCheckbox: "The debate has converged (next turn gives conclusions)",
+  moderateTurn: "Moderate this turn",
+  moderatePlaceholder: "Summarise agreement and disagreement. Ask someone a follow-up with a line like: QUESTION [Name]: ...",
+  decisionMode: "Decision",
+  decisionVote: "Peer vote (participants vote for a conclusion)",
+  decisionJudge: "Judge panel (separate judges score each conclusion)",
+  judges: "Judges",
+  addJudge: "Add Judge",
+  needOneJudge: "Add at least one judge",
+  scoreboard: "Scoreboard",
+  scoreTotal: "Total",
+  judgeFeedback: "Judge Feedback",
+  scoreConclusions: "Score the Conclusions",
+  judgeFeedbackPlaceholder: "Written feedback",
+  submitScores: "Submit Scores",
+  votingMethod: "Voting method",
+  methodPlurality: "Plurality (one vote each)",
+  methodRankedChoice: "Ranked choice (instant runoff)",
+  methodBorda: "Borda count (points by rank)",
+  methodApproval: "Approval (approve any number)",
+  methodScore: "Score (rate each 0-10)",
+  rankConclusions: "Rank the conclusions (best first)",
+  moveUp: "Move up",
+  moveDown: "Move down",
+  approveConclusions: "Approve every acceptable conclusion",
+  scoreEachConclusion: "Score each conclusion (0-10)",
+  tallyTitle: "How the Winner Was Decided",
+  tallyRound: (round) => `Round ${round}`,
+  tallyEliminated: (names) => `Eliminated: ${names}`,
+  tallyExplanation: (method, candidates) => {
+    switch (method) {
+      case "ranked-choice":
+        return "Each ballot counts for its highest-ranked remaining conclusion. A conclusion with more than half of the ballots wins; otherwise the last-placed are eliminated and their ballots move to the next choice.";
+      case "borda":
+        return `With ${candidates} conclusions, first place earns ${candidates - 1} points, second place ${Math.max(candidates - 2, 0)}, and so on. The most points wins.`;
+      case "approval":
+        return "Each approval earns one point. The most approvals wins.";
+      case "score":
+        return "The scores from all voters are added up. The highest total wins.";
+      default:
+        return "Each vote counts once. The most votes wins.";
+    }
+  },
+  tieBreakTitle: "Tie-break",
+  tieBreakRoundTitle: (round, policy) => `Round ${round}: ${policy}`,
+  tieBreakTied: (names) => `Tied: ${names}`,
+  tieBreakStillTied: "Still tied",
+  tieBreakDecidedBy: (name) => `Decided by ${name}'s ballot`,
+  userVote: "User's vote",
+  runoff: "Runoff vote",
+  rebuttal: "Rebuttal",
+  synthesis: "Synthesis",
   startDebate: "Start Debate",
   stopDebate: "Stop Debate",
   saveAsNote: "Save as Note",
@@ -189,9 +649,14 @@ const en: Translations = {
   theme: "Theme",
   turn: "Turn",
   thinking: "Thinking...",
+  waitingForSlot: "Waiting...",
   turnComplete: "Turn Complete",
+  moderating: "Moderating",
+  checking: "Checking for consensus...",
   concluding: "Drawing Conclusions...",
   voting: "Voting...",
+  judging: "Judging...",
+  tieBreaking: "Breaking the tie...",
   complete: "Complete",
   error: "Error",
   ready: "Ready",
@@ -199,6 +664,13 @@ const en: Translations = {
   discussion: "Discussion",
   conclusions: "Conclusions",
   votingResults: "Voting Results",
+  tokenUsageSummary: (input, output, cached) => `Tokens: ${input} in (${cached} cached) / ${output} out`,
+  retrying: (attempt, maxAttempts) => `Retrying ${attempt}/${maxAttempts}`,
+  participantFailed: "Participant Failed",
+  retryParticipant: "Retry",
+  replaceParticipant: "Replace",
+  dropParticipant: "Drop from debate",
+  continueWithoutParticipant: "Skip this turn",
   winner: "Winner",
   draw: "Draw",
   conclusion: "Conclusion",
@@ -229,7 +701,55 @@ Start your response with "CONCLUSION:" followed by your final answer.`,
   defaultVotePrompt: `You have seen the conclusions from all participants.
 Now you must vote for the BEST conclusion (you can also vote for your own if you believe it's the best).
 Consider clarity, logical reasoning, and completeness.`,
-  voteFormatInstruction: `Format: VOTE: [Name] - [Reason]`,
+  voteFormatInstruction: (ids) => `Reply with only a JSON object. "vote" must be one of the candidate IDs: ${ids.join(", ")}
+"confidence" (optional) is how sure you are, from 0 to 1.
+{"vote": "${ids[0]}", "reason": "...", "confidence": 0.8}`,
+  defaultModeratorPrompt: `You are the moderator of this debate. Do not argue for any position.
+Summarise the latest turn: where the participants agree and where they still disagree.
+Ask follow-up questions that would move the debate forward, addressed to specific participants.
+Decide whether the debate has converged, meaning further turns are unlikely to change the positions.`,
+  moderatorFormatInstruction: `Format:
+AGREEMENT: [Points of agreement]
+DISAGREEMENT: [Points still in dispute]
+QUESTION [Name]: [Follow-up question for that participant] (one line per question)
+CONVERGED: YES or NO`,
+  defaultJudgePrompt: `You are a judge. You did not take part in this debate.
+Evaluate each participant's final conclusion on its merits, not on who wrote it.
+Score every conclusion on each criterion of the rubric from 1 (poor) to 10 (excellent), and give brief written feedback explaining the scores.`,
+  defaultJudgeRubric: `Accuracy: Claims are correct and well supported
+Reasoning: The argument is logical and addresses counterpoints
+Actionability: The conclusion gives clear, practical guidance`,
+  judgeFormatInstruction: (criteria) => `Format (one block per participant):
+PARTICIPANT: [Name]
+${criteria.map(name => `${name}: [1-10]`).join("\n")}
+FEEDBACK: [Written feedback]`,
+  rankingFormatInstruction: (ids) => `Instead of voting for one conclusion, rank every conclusion from best to worst.
+Reply with only a JSON object. "ranking" must list every candidate ID once: ${ids.join(", ")}
+"confidence" (optional) is how sure you are, from 0 to 1.
+{"ranking": ${formatIdList([...ids].reverse())}, "reason": "...", "confidence": 0.8}`,
+  approvalFormatInstruction: (ids) => `Instead of voting for one conclusion, approve every conclusion you find acceptable (at least one).
+Reply with only a JSON object. "approve" lists candidate IDs from: ${ids.join(", ")}
+"confidence" (optional) is how sure you are, from 0 to 1.
+{"approve": ["${ids[0]}", ...], "reason": "...", "confidence": 0.8}`,
+  scoreFormatInstruction: (ids) => `Instead of voting for one conclusion, score every conclusion from 0 (worst) to 10 (best).
+Reply with only a JSON object. "scores" must give a whole number to every candidate ID: ${ids.join(", ")}
+"confidence" (optional) is how sure you are, from 0 to 1.
+{"scores": {${ids.map((id, index) => `"${id}": ${index % 2 === 0 ? 7 : 4}`).join(", ")}}, "reason": "...", "confidence": 0.8}`,
+  voteRetryInstruction: (error) => `Your ballot could not be accepted: ${error}
+Reply again with only the JSON object in the requested format.`,
+  candidateLabel: (id) => `Candidate ${id}`,
+  ownConclusionOmitted: "Your own conclusion is not on the ballot. Vote only among the candidates listed.",
+  rebuttalInstruction: (names) => `Your conclusion tied in the vote with ${names}. Respond to the other tied conclusions: defend yours and answer their strongest points. Be brief.`,
+  synthesisInstruction: "These conclusions tied in the vote. Merge them into a single conclusion that keeps the strongest points of each and resolves their differences.",
+  synthesisOf: (name) => `Synthesis (${name})`,
+  convergenceCheckInstruction: `Do not argue for any position. Judge only where the discussion stands.
+converged: the participants agree, or they are repeating their earlier points and another turn would not change their positions.
+disagreement: the participants still sharply disagree and another turn could narrow the gap.
+continue: anything else.
+Format:
+VERDICT: converged, continue or disagreement
+REASON: [One sentence]`,
+  convergenceCheckOf: (name) => `Consensus check (${name})`,
 
   // Debate context strings
   debateThemeHeader: "Debate Theme",
@@ -237,8 +757,14 @@ Consider clarity, logical reasoning, and completeness.`,
   yourTask: "Your Task",
   yourTaskInstruction: "Consider the perspectives shared above and provide your thoughts. Build upon, challenge, or refine the ideas presented.",
   completeDiscussion: "Complete Discussion",
+  newResponsesSinceLastTurn: "Responses Since Your Last Turn",
+  earlierInThisTurn: "Earlier in This Turn",
+  moderatorSummaryOf: (name) => `Moderator Summary (${name})`,
+  moderatorQuestionForYou: "The moderator asks you",
+  moderatorParticipants: "Participants",
   finalConclusions: "Final Conclusions",
   conclusionOf: (name) => `${name}'s Conclusion`,
+  judgeRubricHeader: "Rubric",
 
   // Participant selection
   participants: "Participants",
@@ -255,11 +781,18 @@ Consider clarity, logical reasoning, and completeness.`,
   yourRole: "Your role",
   submitResponse: "Submit",
   selectVote: "Select your vote",
+  abstained: "Abstained",
+  voteWeight: "Vote weight",
+  voteConfidence: "Confidence",
   voteReason: "Reason",
   submitVote: "Submit Vote",
   needOneParticipant: "At least 1 participant is required",
   type: "Type",
   yourPosition: "Your position",
+  model: "Model",
+  modelPlaceholder: "Default (e.g. sonnet, gemini-2.5-flash, o4-mini)",
+  extraArgs: "Extra arguments",
+  extraArgsPlaceholder: "Optional CLI flags",
 };
 
 const ja: Translations = {
@@ -286,6 +819,27 @@ const ja: Translations = {
   save: "保存",
   cliPathSaved: "CLIパスを保存しました",
   cliPathCleared: "CLIパスをクリアしました",
+  promptDelivery: "プロンプトの受け渡し",
+  promptDeliveryDesc: "討論の記録をCLIに渡す方法。標準入力はコマンドライン長の制限を回避し、プロセス一覧にプロンプトが表示されません。",
+  promptDeliveryAuto: "自動（短いプロンプトは引数、それ以外は標準入力）",
+  promptDeliveryStdin: "標準入力",
+  promptDeliveryArgv: "コマンドライン引数",
+  safetyLevel: "ファイルアクセス",
+  safetyLevelDesc: "ディベート中にエージェントがファイルに対して行える操作です。「Vaultのファイルを編集可能」を選んだ場合のみノートが変更される可能性があります。",
+  customSafetyLevelDesc: "カスタムコマンドはフラグで制限できないため、Vaultへのアクセスを許可しない限り空の一時フォルダで実行されます。",
+  safetyIsolated: "隔離（読み取り専用、空の一時フォルダ）",
+  safetyReadOnly: "読み取り専用（Vaultフォルダ）",
+  safetyWrite: "Vaultのファイルを編集可能",
+  safetyIsolatedShort: "隔離",
+  safetyReadOnlyShort: "読み取り専用",
+  safetyWriteShort: "編集可能",
+  cliVersion: (version) => `バージョン ${version}`,
+  cliFoundAt: (path) => `検出先: ${path}`,
+  capabilityJsonStreaming: "JSONストリーミング",
+  capabilityModelSelection: "モデル選択",
+  capabilitySandbox: "ファイルアクセス制御",
+  capabilitySessionResume: "セッション再開",
+  capabilityStdinPrompt: "標準入力でのプロンプト",
   fileNotFound: "指定されたパスにファイルが見つかりません",
   invalidChars: "パスに無効な文字が含まれています",
   cliVerifiedSuccess: (name) => `${name} CLIの認証に成功しました`,
@@ -293,10 +847,114 @@ const ja: Translations = {
   clisVerifiedReady: (count) => `${count}個のCLIが認証済み - 討論可能`,
   clisVerifiedNeed: (count) => `${count}個のCLIが認証済み - 討論には1つ以上必要`,
 
+  // Custom providers
+  customProviders: "カスタムプロバイダー",
+  customProvidersIntro: "独自のローカルエージェント（aider、llm、ollama run、社内ラッパーなど）を追加します。引数に{prompt}を使用してください。省略した場合、プロンプトは標準入力で送信されます。",
+  addCustomProvider: "カスタムプロバイダーを追加",
+  editCustomProvider: "カスタムプロバイダーを編集",
+  removeCustomProvider: "カスタムプロバイダーを削除",
+  customProviderName: "表示名",
+  customProviderCommand: "実行ファイル",
+  customProviderCommandDesc: "コマンド名または実行ファイルへのフルパス",
+  customProviderArgs: "引数",
+  customProviderArgsDesc: "引数テンプレート。{prompt}はプロンプト、{model}は参加者のモデルに置き換えられます。",
+  customProviderOutputMode: "出力モード",
+  outputModeText: "プレーンテキスト",
+  outputModeJsonl: "JSON Lines",
+  customProviderJsonPath: "JSONテキストフィールド",
+  customProviderJsonPathDesc: "各JSON行のテキストへのドットパス（例: message.content、デフォルト: text）。JSON Linesモードで使用します。",
+  customProviderRequired: "表示名と実行ファイルは必須です",
+  customProviderSaved: "カスタムプロバイダーを保存しました",
+  customProviderRemoved: (name) => `${name}を削除しました`,
+  customProviderVerified: (name) => `${name}の認証に成功しました`,
+
+  // HTTP providers
+  httpProviders: "HTTPプロバイダー",
+  httpProvidersIntro: "OpenAI互換のチャット補完エンドポイント（LM Studio、llama.cppサーバー、vLLM、Ollama）を通じてローカルモデルと討論します。CLIのインストールは不要です。",
+  addHttpProvider: "HTTPプロバイダーを追加",
+  editHttpProvider: "HTTPプロバイダーを編集",
+  removeHttpProvider: "HTTPプロバイダーを削除",
+  httpProviderBaseUrl: "ベースURL",
+  httpProviderBaseUrlDesc: "/v1を含むサーバーURL（例: http://localhost:11434/v1）",
+  httpProviderModel: "モデル",
+  httpProviderApiKey: "APIキー",
+  httpProviderApiKeyDesc: "任意。Bearerトークンとして送信されます。利用できる場合はdata.jsonではなくObsidianのシークレットストレージに保存されます。",
+  httpProviderRequired: "表示名、ベースURL、モデルは必須です",
+  httpProviderSaved: "HTTPプロバイダーを保存しました",
+
   // General settings
   general: "一般",
   outputFolder: "出力フォルダ",
   outputFolderDesc: "討論ノートを保存するフォルダ",
+  resumeSessions: "CLIセッションを継続",
+  resumeSessionsDesc: "ターン間で各参加者のClaude/Codexセッションを継続し、議事録全体を再送信せずに新しい回答のみを送信します",
+  responseTimeout: "応答タイムアウト（秒）",
+  responseTimeoutDesc: "これより時間のかかる応答を中止します。0でタイムアウトを無効化。プロバイダーごとに上書きできます。",
+  providerTimeout: "応答タイムアウト（秒）",
+  providerTimeoutDesc: "空欄の場合は一般設定のデフォルトを使用します。0でタイムアウトを無効化。",
+  maxConcurrentResponses: "最大同時応答数",
+  maxConcurrentResponsesDesc: "同時に応答を生成できるAI参加者の数です。残りは順番に待機します。0で無制限。",
+  providerMaxConcurrent: "最大同時応答数",
+  providerMaxConcurrentDesc: "一般設定の上限に加えて、このプロバイダーに適用する上限です。空欄の場合は上限なし。",
+  providerWorkingDirectory: "作業フォルダ",
+  providerWorkingDirectoryDesc: "エージェントを実行するフォルダです。絶対パスまたはVaultルートからの相対パスを指定します。空欄の場合はVaultルート。隔離モードでは常に空の一時フォルダを使います。",
+  providerWorkingDirectoryIsolated: "使われません。このファイルアクセスではエージェントは隔離され、空の一時フォルダで実行されます。作業フォルダを使うにはVaultで実行されるレベルを選んでください。",
+  providerEnv: "環境変数",
+  providerEnvDesc: "1行に1つずつ NAME=value の形式で指定し、継承した環境変数に追加します。プラグイン設定に保存されます。",
+  providerSecretEnv: "秘密の環境変数",
+  providerSecretEnvDesc: "APIキーなどを1行に1つずつ NAME=value の形式で指定します。値はプラグイン設定ではなくこのデバイスの秘密ストレージに保存され、保存済みの値はマスク表示されます。",
+  providerEnvPlaceholder: "HTTPS_PROXY=http://proxy:8080",
+  providerSecretEnvPlaceholder: "OPENAI_API_KEY=sk-...",
+  retry: "再試行",
+  retryMaxAttempts: "最大試行回数",
+  retryMaxAttemptsDesc: "初回を含む応答ごとの試行回数。1で再試行を無効化。",
+  retryInitialDelay: "初回の待機時間（秒）",
+  retryInitialDelayDesc: "最初の再試行までの待機時間。以降の再試行ごとに2倍になります。",
+  retryOnRateLimit: "レート制限時に再試行",
+  retryOnTimeout: "タイムアウト時に再試行",
+  retryOnEmptyExit: "CLIが出力なしでエラー終了した場合に再試行",
+  tieBreak: "同点時の決着",
+  tieBreakPolicy: "投票が同点の場合",
+  tieBreakPolicyDesc: "相互投票が同点になったときの決着方法。「あなたの投票で決定」では、同点の結論のうちあなたの投票が支持するものが勝者になります。審査員パネルが同点の場合は常に引き分けになります。",
+  tieBreakNone: "引き分けで終了",
+  tieBreakRunoff: "同点の結論で決選投票",
+  tieBreakRebuttal: "同点の参加者で反論ターンを行い、再投票",
+  tieBreakSynthesis: "同点の結論を統合",
+  tieBreakUserVote: "あなたの投票で決定（正式な決定票）",
+  tieBreakMaxRounds: "決着ラウンドの上限",
+  tieBreakMaxRoundsDesc: "引き分けを受け入れるまでに行う決選投票または反論のラウンド数",
+  tieBreakSynthesizer: "統合に使うプロバイダー",
+  tieBreakSynthesizerDesc: "同点の結論を1つにまとめるプロバイダー",
+  tieBreakSynthesisModel: "統合に使うモデル",
+  tieBreakSelectSynthesizer: "プロバイダーを選択...",
+  adaptiveTurns: "ターン数の自動調整",
+  adaptiveMaxTurns: "最大ターン数",
+  adaptiveMaxTurnsDesc: "ターン数を自動調整して討論を始めたときの上限。対立が激しい間は1ターンずつ追加され、この数まで延長されます。",
+  adaptiveChecker: "収束判定に使うプロバイダー",
+  adaptiveCheckerDesc: "各ターンの後に、参加者の意見が収束したか、同じ主張を繰り返しているか、まだ激しく対立しているかを判定するプロバイダー",
+  adaptiveCheckerDefault: "最初のAI参加者",
+  adaptiveCheckerModel: "収束判定に使うモデル",
+  adaptiveCheckerModelDesc: "この判定には小さく高速なモデルで十分です",
+  developer: "開発者向け",
+  developerMode: "開発者モード",
+  developerModeDesc: "オフラインの「Fake」プロバイダーを参加者として選択可能にします。CLIを実行せずにスクリプト化された回答を返します。各参加者の追加引数で動作を指定できます: --delay, --chunk, --fail, --error, --vote",
+  fakeResponseTemplate: "Fake回答テンプレート",
+  fakeResponseTemplateDesc: "ターンと結論で返すテキスト。プレースホルダー: {call}, {theme}, {model}",
+  fakeDelay: "Fakeストリーム遅延（ミリ秒）",
+  fakeDelayDesc: "ストリーミングの各チャンクの前の待機時間",
+  fakeChunkSize: "Fakeチャンクサイズ",
+  fakeChunkSizeDesc: "ストリーミングの1チャンクあたりの文字数",
+  captureCliOutput: "CLI出力をキャプチャ",
+  captureCliOutputDesc: "各CLIプロセスのコマンドライン、生の出力、stderr、終了コードをフィクスチャファイルに書き出します。フィクスチャは「Replay CLI output fixture」コマンドで再生でき、バグ報告に添付できます。プロンプトが含まれるため、共有前に内容を確認してください。",
+  fixtureFolder: "フィクスチャフォルダ",
+  fixtureFolderDesc: "キャプチャしたCLI出力フィクスチャの保存先フォルダ",
+  selectFixture: "再生するフィクスチャを選択...",
+  fixtureReplay: "フィクスチャの再生",
+  fixtureReplayFailed: (error: string) => `フィクスチャの再生に失敗しました: ${error}`,
+  fixtureExitCode: (code: number | null) => `終了コード: ${code === null ? "なし" : code}`,
+  fixtureParsedText: "解析されたテキスト",
+  fixtureNoText: "（テキストなし）",
+  fixtureChunks: (count: number) => `解析されたチャンク（${count}件）`,
 
   // Prompts
   prompts: "プロンプト",
@@ -305,7 +963,20 @@ const ja: Translations = {
   conclusionPrompt: "結論プロンプト",
   conclusionPromptDesc: "最終結論用のプロンプト",
   votePrompt: "投票プロンプト",
-  votePromptDesc: "投票フェーズ用のプロンプト。フォーマット指示（投票: [名前] - [理由]）は自動的に付与されます。",
+  votePromptDesc: "投票フェーズ用のプロンプト。候補IDとJSON形式の投票フォーマットは自動的に付与されます。",
+  votingSettings: "投票",
+  voteReasks: "無効な投票の再要求",
+  voteReasksDesc: "AI投票者の投票が候補に対する有効なJSONでなかった場合に、もう一度求める回数。それでも無効な場合は棄権として記録され、集計されません。",
+  forbidSelfVote: "自分への投票を禁止",
+  forbidSelfVoteDesc: "討論参加者から同期された投票者は、自分の結論に投票できません。AI投票者には自分の結論が候補として示されず、あなたの投票先からも除かれます。",
+  blindVoting: "匿名投票",
+  blindVotingDesc: "AI投票者に結論を参加者名なしで「候補A」「候補B」...としてシャッフルした順に示します",
+  moderatorPrompt: "司会プロンプト",
+  moderatorPromptDesc: "各ターン後に司会へ送るプロンプト。参加者名とフォーマット指示（合意点、相違点、質問、収束）は自動的に付与されます。",
+  judgePrompt: "審査員プロンプト",
+  judgePromptDesc: "審査員パネルの審査員に送るプロンプト。評価基準とフォーマット指示（参加者ごとのスコアと講評）は自動的に付与されます。",
+  judgeRubric: "評価基準",
+  judgeRubricDesc: "1行に1つ、名前: 説明 の形式で書きます。審査員は各結論を基準ごとに1〜10で採点し、平均スコアの合計が最も高い参加者が勝者になります。",
 
   // Debate Panel
   debateArena: "AI討論アリーナ",
@@ -313,6 +984,86 @@ const ja: Translations = {
   debateTheme: "討論テーマ",
   debateThemePlaceholder: "AIに討論させるトピックを入力...",
   numberOfTurns: "ターン数",
+  adaptiveTurnsCheckbox: (maxTurns) => `自動調整: 収束したら早めに終了し、対立が激しい間はターンを追加（最大${maxTurns}）`,
+  convergenceCheck: "収束判定",
+  convergenceFailed: "収束判定に失敗しました。予定のターンを続けます",
+  verdictConverged: "収束",
+  verdictContinue: "継続",
+  verdictDisagreement: "激しい対立",
+  stopReason: (reason, turns) => {
+    switch (reason) {
+      case "moderator-converged":
+        return `${turns}ターンで終了: 司会が議論は収束したと判断しました`;
+      case "consensus":
+        return `${turns}ターンで早期終了: 参加者の意見が収束しました`;
+      case "max-turns":
+        return `${turns}ターンで終了: 対立が激しいまま最大ターン数に達しました`;
+      default:
+        return `予定どおり${turns}ターンで終了`;
+    }
+  },
+  debateFormat: "形式",
+  formatParallel: "並列（全員が同時に回答）",
+  formatSequential: "順番（前の発言者を見て1人ずつ回答）",
+  nowSpeaking: (name) => `発言中: ${name}`,
+  moderator: "司会",
+  noModerator: "なし",
+  moderatorSummary: "司会のまとめ",
+  moderatorFailed: "司会のまとめに失敗しました。次のターンには全回答が渡されます",
+  moderatorQuestions: "追加の質問",
+  moderatorConverged: "司会は議論が収束したと判断しました",
+  moderatorConvergedCheckbox: "議論は収束した（次のターンで結論を出す）",
+  moderateTurn: "このターンの司会",
+  moderatePlaceholder: "合意点と相違点をまとめてください。追加の質問は「質問 [名前]: ...」の形式で書きます",
+  decisionMode: "勝敗の決め方",
+  decisionVote: "相互投票（参加者が結論に投票）",
+  decisionJudge: "審査員パネル（別の審査員が各結論を採点）",
+  judges: "審査員",
+  addJudge: "審査員を追加",
+  needOneJudge: "審査員を1人以上追加してください",
+  scoreboard: "スコアボード",
+  scoreTotal: "合計",
+  judgeFeedback: "審査員の講評",
+  scoreConclusions: "結論を採点",
+  judgeFeedbackPlaceholder: "講評",
+  submitScores: "採点を送信",
+  votingMethod: "投票方式",
+  methodPlurality: "単純多数（1人1票）",
+  methodRankedChoice: "順位付き（即時決選）",
+  methodBorda: "ボルダ（順位に応じた得点）",
+  methodApproval: "承認（いくつでも承認）",
+  methodScore: "スコア（それぞれ0〜10で評価）",
+  rankConclusions: "結論を順位付け（上が最良）",
+  moveUp: "上へ",
+  moveDown: "下へ",
+  approveConclusions: "許容できる結論をすべて承認",
+  scoreEachConclusion: "各結論を採点（0〜10）",
+  tallyTitle: "勝者の決まり方",
+  tallyRound: (round) => `第${round}ラウンド`,
+  tallyEliminated: (names) => `脱落: ${names}`,
+  tallyExplanation: (method, candidates) => {
+    switch (method) {
+      case "ranked-choice":
+        return "各票は、残っている結論のうち最も順位の高いものに数えられます。過半数を得た結論が勝者となり、いなければ最下位が脱落して、その票は次の順位の結論に移ります。";
+      case "borda":
+        return `結論が${candidates}件の場合、1位は${candidates - 1}点、2位は${Math.max(candidates - 2, 0)}点というように得点し、合計点が最も高い結論が勝者です。`;
+      case "approval":
+        return "承認1つにつき1点です。承認が最も多い結論が勝者です。";
+      case "score":
+        return "全投票者のスコアを合計し、合計が最も高い結論が勝者です。";
+      default:
+        return "1票は1回数えられます。最も票の多い結論が勝者です。";
+    }
+  },
+  tieBreakTitle: "同点の決着",
+  tieBreakRoundTitle: (round, policy) => `第${round}ラウンド: ${policy}`,
+  tieBreakTied: (names) => `同点: ${names}`,
+  tieBreakStillTied: "同点のまま",
+  tieBreakDecidedBy: (name) => `${name}の投票で決定`,
+  userVote: "ユーザーの投票",
+  runoff: "決選投票",
+  rebuttal: "反論",
+  synthesis: "統合",
   startDebate: "討論開始",
   stopDebate: "停止",
   saveAsNote: "ノートに保存",
@@ -320,9 +1071,14 @@ const ja: Translations = {
   theme: "テーマ",
   turn: "ターン",
   thinking: "思考中...",
+  waitingForSlot: "待機中...",
   turnComplete: "ターン完了",
+  moderating: "司会がまとめ中",
+  checking: "収束を判定中...",
   concluding: "結論を出しています...",
   voting: "投票中...",
+  judging: "審査中...",
+  tieBreaking: "同点の決着中...",
   complete: "完了",
   error: "エラー",
   ready: "準備完了",
@@ -330,6 +1086,13 @@ const ja: Translations = {
   discussion: "議論",
   conclusions: "結論",
   votingResults: "投票結果",
+  tokenUsageSummary: (input, output, cached) => `トークン: 入力 ${input}（キャッシュ ${cached}）/ 出力 ${output}`,
+  retrying: (attempt, maxAttempts) => `再試行中 ${attempt}/${maxAttempts}`,
+  participantFailed: "参加者のエラー",
+  retryParticipant: "再試行",
+  replaceParticipant: "置き換え",
+  dropParticipant: "討論から除外",
+  continueWithoutParticipant: "このターンをスキップ",
   winner: "勝者",
   draw: "引き分け",
   conclusion: "結論",
@@ -360,7 +1123,55 @@ const ja: Translations = {
   defaultVotePrompt: `全参加者の結論を確認しました。
 最も優れた結論に投票してください（自分の結論が最も優れていると思えば、自分に投票しても構いません）。
 明確さ、論理的な推論、完全性を考慮してください。`,
-  voteFormatInstruction: `形式：投票: [名前] - [理由]`,
+  voteFormatInstruction: (ids) => `JSONオブジェクトのみで回答してください。"vote"は次の候補IDのいずれかにしてください: ${ids.join(", ")}
+"confidence"（任意）は確信度で、0〜1で答えてください。
+{"vote": "${ids[0]}", "reason": "...", "confidence": 0.8}`,
+  defaultModeratorPrompt: `あなたはこの討論の司会です。どの立場にも肩入れしないでください。
+直前のターンをまとめ、参加者の合意点とまだ意見が分かれている点を示してください。
+議論を前に進める追加の質問を、特定の参加者に向けて出してください。
+これ以上ターンを重ねても立場が変わりそうにない場合は、議論が収束したと判断してください。`,
+  moderatorFormatInstruction: `形式：
+合意点: [合意している点]
+相違点: [まだ意見が分かれている点]
+質問 [名前]: [その参加者への追加の質問]（質問ごとに1行）
+収束: はい または いいえ`,
+  defaultJudgePrompt: `あなたは審査員です。この討論には参加していません。
+各参加者の最終結論を、誰が書いたかではなく内容で評価してください。
+すべての結論を評価基準ごとに1（不十分）〜10（非常に優れている）で採点し、スコアの理由を簡潔な講評として書いてください。`,
+  defaultJudgeRubric: `正確性: 主張が正しく、根拠が示されている
+論理性: 論理的で、反論にも答えている
+実用性: 明確で実践的な指針を示している`,
+  judgeFormatInstruction: (criteria) => `形式（参加者ごとに1ブロック）：
+参加者: [名前]
+${criteria.map(name => `${name}: [1-10]`).join("\n")}
+講評: [講評]`,
+  rankingFormatInstruction: (ids) => `1つの結論に投票する代わりに、すべての結論を良い順に順位付けしてください。
+JSONオブジェクトのみで回答してください。"ranking"にはすべての候補IDを1回ずつ並べてください: ${ids.join(", ")}
+"confidence"（任意）は確信度で、0〜1で答えてください。
+{"ranking": ${formatIdList([...ids].reverse())}, "reason": "...", "confidence": 0.8}`,
+  approvalFormatInstruction: (ids) => `1つの結論に投票する代わりに、許容できる結論をすべて（1つ以上）承認してください。
+JSONオブジェクトのみで回答してください。"approve"には次の候補IDから選んで並べてください: ${ids.join(", ")}
+"confidence"（任意）は確信度で、0〜1で答えてください。
+{"approve": ["${ids[0]}", ...], "reason": "...", "confidence": 0.8}`,
+  scoreFormatInstruction: (ids) => `1つの結論に投票する代わりに、すべての結論を0（最低）〜10（最高）で採点してください。
+JSONオブジェクトのみで回答してください。"scores"ではすべての候補IDに整数の点数を付けてください: ${ids.join(", ")}
+"confidence"（任意）は確信度で、0〜1で答えてください。
+{"scores": {${ids.map((id, index) => `"${id}": ${index % 2 === 0 ? 7 : 4}`).join(", ")}}, "reason": "...", "confidence": 0.8}`,
+  voteRetryInstruction: (error) => `投票を受け付けられませんでした: ${error}
+指定された形式のJSONオブジェクトのみで、もう一度回答してください。`,
+  candidateLabel: (id) => `候補${id}`,
+  ownConclusionOmitted: "あなた自身の結論は候補に含まれていません。示された候補の中から投票してください。",
+  rebuttalInstruction: (names) => `あなたの結論は投票で${names}と同点になりました。同点の他の結論に反論してください。自分の結論を擁護し、相手の最も強い論点に答えてください。簡潔にまとめてください。`,
+  synthesisInstruction: "以下の結論は投票で同点になりました。それぞれの最も強い論点を残し、相違点を解消した1つの結論にまとめてください。",
+  synthesisOf: (name) => `統合（${name}）`,
+  convergenceCheckInstruction: `どの立場も支持しないでください。議論がどの段階にあるかだけを判定してください。
+収束: 参加者の意見が一致している、または以前の主張を繰り返していて、次のターンでも立場が変わりそうにない。
+対立: 参加者がまだ激しく対立していて、もう1ターンで差を縮められる可能性がある。
+継続: それ以外。
+形式:
+判定: 収束、継続、対立のいずれか
+理由: [1文]`,
+  convergenceCheckOf: (name) => `収束判定（${name}）`,
 
   // Debate context strings
   debateThemeHeader: "討論テーマ",
@@ -368,8 +1179,14 @@ const ja: Translations = {
   yourTask: "あなたの課題",
   yourTaskInstruction: "上記で共有された視点を考慮し、あなたの考えを述べてください。提示されたアイデアを発展させたり、異議を唱えたり、洗練させたりしてください。",
   completeDiscussion: "議論全体",
+  newResponsesSinceLastTurn: "前回のあなたの発言以降の回答",
+  earlierInThisTurn: "このターンでのこれまでの発言",
+  moderatorSummaryOf: (name) => `司会のまとめ（${name}）`,
+  moderatorQuestionForYou: "司会からあなたへの質問",
+  moderatorParticipants: "参加者",
   finalConclusions: "最終結論",
   conclusionOf: (name) => `${name}の結論`,
+  judgeRubricHeader: "評価基準",
 
   // Participant selection
   participants: "参加者",
@@ -386,11 +1203,18 @@ const ja: Translations = {
   yourRole: "あなたの役割",
   submitResponse: "送信",
   selectVote: "投票先を選択",
+  abstained: "棄権",
+  voteWeight: "投票の重み",
+  voteConfidence: "確信度",
   voteReason: "理由",
   submitVote: "投票",
   needOneParticipant: "参加者が1人以上必要です",
   type: "タイプ",
   yourPosition: "あなたの立場",
+  model: "モデル",
+  modelPlaceholder: "デフォルト（例: sonnet、gemini-2.5-flash、o4-mini）",
+  extraArgs: "追加引数",
+  extraArgsPlaceholder: "任意のCLIフラグ",
 };
 
 const translations: Record<Locale, Translations> = { en, ja };
@@ -1,8 +1,12 @@
 import { Plugin, WorkspaceLeaf } from "obsidian";
 import { DebateView, VIEW_TYPE_DEBATE } from "./ui/DebateView";
 import { SettingsTab } from "./ui/SettingsTab";
-import { RonginusSettings, DEFAULT_SETTINGS, DEFAULT_CLI_CONFIG } from "./types";
+import { FixtureSuggestModal } from "./ui/FixtureReplayModal";
+import { RonginusSettings, DEFAULT_SETTINGS, DEFAULT_CLI_CONFIG, DEFAULT_RETRY_POLICY, DEFAULT_TIE_BREAK_CONFIG, DEFAULT_ADAPTIVE_TURNS_CONFIG, toHttpCliType } from "./types";
 import { initLocale, t } from "./i18n";
+import { createSecretStore, getApiKeySecretId } from "./core/providerEnv";
+import { loadLoginShellPath } from "./core/cliPath";
+import { removeAllIsolatedDirectories } from "./core/cliProvider";
 
 export default class RonginusPlugin extends Plugin {
   settings: RonginusSettings = { ...DEFAULT_SETTINGS };
@@ -13,6 +17,9 @@ export default class RonginusPlugin extends Plugin {
 
     await this.loadSettings();
 
+    // Read the login shell PATH in the background so CLIs are found when Obsidian was started from a launcher
+    void loadLoginShellPath();
+
     // Register the debate view
     this.registerView(
       VIEW_TYPE_DEBATE,
@@ -36,6 +43,19 @@ export default class RonginusPlugin extends Plugin {
       },
     });
 
+    // Add developer command to replay captured CLI output
+    this.addCommand({
+      id: "replay-cli-fixture",
+      name: "Replay CLI output fixture",
+      checkCallback: (checking) => {
+        if (!this.settings.developerMode) return false;
+        if (!checking) {
+          new FixtureSuggestModal(this.app, this.settings.fixtureFolder, this.settings.cliConfig).open();
+        }
+        return true;
+      },
+    });
+
     // Ensure view exists on layout ready
     this.app.workspace.onLayoutReady(() => {
       void this.ensureDebateViewExists();
@@ -44,6 +64,7 @@ export default class RonginusPlugin extends Plugin {
 
   onunload(): void {
     // Intentionally no view detachment to avoid resetting user layouts.
+    removeAllIsolatedDirectories();
   }
 
   async loadSettings(): Promise<void> {
@@ -55,17 +76,51 @@ export default class RonginusPlugin extends Plugin {
       systemPrompt: i18n.defaultSystemPrompt,
       conclusionPrompt: i18n.defaultConclusionPrompt,
       votePrompt: i18n.defaultVotePrompt,
+      moderatorPrompt: i18n.defaultModeratorPrompt,
+      judgePrompt: i18n.defaultJudgePrompt,
+      judgeRubric: i18n.defaultJudgeRubric,
     };
 
     this.settings = {
       ...DEFAULT_SETTINGS,
       ...defaultPrompts,
       ...loaded,
+      retryPolicy: {
+        ...DEFAULT_RETRY_POLICY,
+        ...(loaded?.retryPolicy || {}),
+      },
+      tieBreak: {
+        ...DEFAULT_TIE_BREAK_CONFIG,
+        ...(loaded?.tieBreak || {}),
+      },
+      adaptiveTurns: {
+        ...DEFAULT_ADAPTIVE_TURNS_CONFIG,
+        ...(loaded?.adaptiveTurns || {}),
+      },
       cliConfig: {
         ...DEFAULT_CLI_CONFIG,
         ...(loaded?.cliConfig || {}),
       },
     };
+    await this.moveApiKeysToSecretStore();
+  }
+
+  /**
+   * HTTP provider API keys saved in plain text by earlier versions move to secret storage
+   */
+  private async moveApiKeysToSecretStore(): Promise<void> {
+    const store = createSecretStore(this.app);
+    const httpProviders = this.settings.cliConfig.httpProviders || [];
+    if (!store || !httpProviders.some(config => config.apiKey)) return;
+
+    this.settings.cliConfig = {
+      ...this.settings.cliConfig,
+      httpProviders: httpProviders.map(({ apiKey, ...config }) => {
+        if (apiKey) store.set(getApiKeySecretId(toHttpCliType(config.id)), apiKey);
+        return config;
+      }),
+    };
+    await this.saveSettings();
   }
 
   async saveSettings(): Promise<void> {
@@ -3,7 +3,18 @@
  */
 
 // CLI Provider types
-export type CliType = "gemini-cli" | "claude-cli" | "codex-cli";
+export type BuiltinCliType = "gemini-cli" | "claude-cli" | "codex-cli";
+
+// User-defined command providers are addressed as "custom:<id>"
+export type CustomCliType = `custom:${string}`;
+
+// OpenAI-compatible HTTP endpoints are addressed as "http:<id>"
+export type HttpCliType = `http:${string}`;
+
+// Offline scripted provider (only offered in developer mode)
+export type FakeCliType = "fake-cli";
+
+export type CliType = BuiltinCliType | CustomCliType | HttpCliType | FakeCliType;
 
 // Participant types
 export type ParticipantType = CliType | "user";
@@ -14,6 +25,8 @@ export interface Participant {
   type: ParticipantType;   // CLI type or "user"
   role?: string;           // Role (e.g., "Affirmative", "Critical") - optional
   displayName: string;     // Display name (e.g., "Claude (Affirmative)")
+  model?: string;          // Model override (e.g., "sonnet", "gemini-2.5-flash") - optional
+  extraArgs?: string;      // Extra CLI arguments (e.g., "--verbose") - optional
 }
 
 // Vote participant (no role needed)
@@ -21,6 +34,10 @@ export interface Voter {
   id: string;              // Unique ID
   type: ParticipantType;   // CLI type or "user"
   displayName: string;     // Display name (e.g., "Claude")
+  model?: string;          // Model override - optional
+  extraArgs?: string;      // Extra CLI arguments - optional
+  participantId?: string;  // Debate participant this voter speaks for (set when synced from the debate)
+  weight?: number;         // How much this voter's ballot counts (default 1)
 }
 
 // Debate configuration
@@ -35,11 +52,20 @@ export interface Message {
   timestamp: number;
 }
 
+// Token usage reported by a provider (inputTokens includes cachedTokens)
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  costUsd?: number;           // Only set when the CLI reports a cost
+}
+
 export interface StreamChunk {
-  type: "text" | "error" | "done" | "session_id";
+  type: "text" | "error" | "done" | "session_id" | "usage";
   content?: string;
   error?: string;
   sessionId?: string;
+  usage?: TokenUsage;
 }
 
 // Debate types
@@ -49,12 +75,47 @@ export interface DebateParticipant {
   enabled: boolean;
 }
 
+// parallel: everyone answers each turn at once; sequential: participants speak in order and see earlier speakers
+export type DebateFormat = "parallel" | "sequential";
+
 export interface DebateTurn {
   turnNumber: number;
   responses: DebateResponse[];
   timestamp: number;
+  moderation?: ModeratorSummary;
+  convergence?: ConvergenceCheck;  // Adaptive turns: whether to stop, continue or add a turn
+}
+
+// A moderator's summary of a turn (the moderator neither argues nor is voted on)
+export interface ModeratorSummary {
+  moderatorId: string;
+  displayName: string;
+  content: string;
+  questions: { participantId: string; question: string }[];  // Follow-up questions for the next turn
+  converged: boolean;         // The moderator judged that the debate can move to conclusions
+  usage?: TokenUsage;
+  error?: string;
+}
+
+// converged: positions have settled or are being repeated; continue: keep the planned turns;
+// disagreement: the participants still sharply disagree and another turn could help
+export type ConvergenceVerdict = "converged" | "continue" | "disagreement";
+
+// A lightweight check after a turn when the turn count is adaptive
+export interface ConvergenceCheck {
+  displayName: string;
+  verdict: ConvergenceVerdict;
+  reason: string;
+  usage?: TokenUsage;
+  error?: string;             // The check failed and the planned turns continue
 }
 
+// Why the discussion turns ended
+// planned-turns: the planned count was reached (including turns added for disagreement);
+// moderator-converged: the moderator judged the debate converged; consensus: the convergence check ended it early;
+// max-turns: disagreement was still sharp but the maximum turn count was reached
+export type DebateStopReason = "planned-turns" | "moderator-converged" | "consensus" | "max-turns";
+
 export interface DebateResponse {
   participantId: string;
   displayName: string;
@@ -62,27 +123,123 @@ export interface DebateResponse {
   isConclusion: boolean;
   timestamp: number;
   error?: string;
+  usage?: TokenUsage;
 }
 
+// How to handle an AI participant whose turn failed
+export type ParticipantFailureAction = "retry" | "replace" | "drop" | "continue";
+
 export interface DebateConclusion {
   participantId: string;
   displayName: string;
   content: string;
+  usage?: TokenUsage;
 }
 
 export interface VoteResult {
   voterId: string;
   voterDisplayName: string;
-  votedForId: string;
+  votedForId: string;           // Top choice ("" when abstained)
   votedForDisplayName: string;
+  ranking?: string[];           // Participant IDs, most preferred first (ranked-choice and Borda)
+  approvals?: string[];         // Approved participant IDs (approval)
+  scores?: Record<string, number>;  // Participant ID -> score (score voting)
   reason?: string;
+  abstained?: boolean;          // No valid ballot after re-asking; not counted (reason holds the last error)
+  weight?: number;              // Voter's weight in the tally (default 1)
+  confidence?: number;          // AI voter's self-reported confidence, 0-1 (shown only, not counted)
+  usage?: TokenUsage;
+}
+
+// How votes are counted
+// plurality: one vote each; ranked-choice: instant runoff over rankings; borda: points by rank;
+// approval: one point per approved conclusion; score: sum of scores
+export type VotingMethod = "plurality" | "ranked-choice" | "borda" | "approval" | "score";
+
+// Score range for score voting
+export const VOTE_SCORE_MIN = 0;
+export const VOTE_SCORE_MAX = 10;
+
+// One counting round (plurality, Borda, approval and score voting have a single round)
+export interface VoteRound {
+  counts: Record<string, number>;  // Participant ID -> votes or points
+  eliminated: string[];            // Participant IDs eliminated after this round (ranked-choice)
+}
+
+// How the winner was derived from the votes
+export interface VoteTally {
+  method: VotingMethod;
+  rounds: VoteRound[];
+  winnerIds: string[];
+}
+
+// vote: participants vote for a conclusion; judge: separate judges score each conclusion against a rubric
+export type DecisionMode = "vote" | "judge";
+
+// Score range for each rubric criterion
+export const JUDGE_SCORE_MIN = 1;
+export const JUDGE_SCORE_MAX = 10;
+
+// A criterion of the judging rubric
+export interface JudgeCriterion {
+  name: string;
+  description: string;
+}
+
+// One judge's scores and feedback for one conclusion
+export interface JudgeEvaluation {
+  participantId: string;
+  displayName: string;
+  scores: Record<string, number>;  // Criterion name -> score
+  feedback: string;
+}
+
+// One judge's evaluation of every conclusion
+export interface JudgeResult {
+  judgeId: string;
+  judgeDisplayName: string;
+  evaluations: JudgeEvaluation[];
+  usage?: TokenUsage;
+  error?: string;
+}
+
+// Aggregated scores for one conclusion
+export interface ScoreboardEntry {
+  participantId: string;
+  displayName: string;
+  criterionScores: Record<string, number>;  // Criterion name -> average over the judges who scored it
+  total: number;                             // Sum of the criterion averages
+}
+
+// Outcome of a judge panel
+export interface JudgingResult {
+  criteria: JudgeCriterion[];
+  judges: Voter[];
+  results: JudgeResult[];
+  scoreboard: ScoreboardEntry[];  // Highest total first
+}
+
+// One attempt at breaking a tie between conclusions
+export interface TieBreakRound {
+  policy: TieBreakPolicy;
+  tiedIds: string[];              // Participant IDs tied going into this round
+  rebuttals?: DebateResponse[];   // Extra turn between the tied participants (rebuttal)
+  votes?: VoteResult[];           // Revote restricted to the tied conclusions (runoff and rebuttal)
+  tally?: VoteTally;
+  synthesis?: DebateConclusion;   // Merged conclusion (synthesis)
+  decidedBy?: string;             // Display name of the user whose ballot broke the tie (user-vote)
+  winnerIds: string[];            // Still several when the tie persists
+  error?: string;
 }
 
 export interface DebateResult {
   theme: string;
+  format: DebateFormat;
   turns: DebateTurn[];
   conclusions: DebateConclusion[];
   votes: VoteResult[];
+  voteTally?: VoteTally;
+  tieBreaks?: TieBreakRound[];  // Runoff history when the vote was tied
   winnerId: string | null;
   winnerIds: string[];  // For tie/draw cases
   isDraw: boolean;
@@ -91,6 +248,139 @@ export interface DebateResult {
   endTime: number;
   debateParticipants: Participant[];
   voteParticipants: Voter[];
+  moderator?: Participant;
+  judging?: JudgingResult;  // Set instead of votes when a judge panel decided the winner
+  stopReason?: DebateStopReason;
+  stopDetail?: string;      // The consensus check's reason when it ended the turns
+  adaptiveTurns?: { planned: number; max: number };  // Set when the turn count was adaptive
+  usageByParticipant: Record<string, TokenUsage>;  // participantId/voterId -> usage
+  totalUsage: TokenUsage;
+}
+
+// Custom command provider types
+export type CustomOutputMode = "text" | "jsonl";
+
+export interface CustomProviderConfig {
+  id: string;                 // Unique ID (used in the "custom:<id>" type)
+  displayName: string;        // Display name (e.g., "Aider")
+  command: string;            // Executable (e.g., "ollama")
+  argsTemplate: string;       // Arguments with a {prompt} placeholder (e.g., "run llama3 {prompt}")
+  outputMode: CustomOutputMode;
+  jsonTextPath?: string;      // Dot path to the text field for JSON lines output (e.g., "message.content")
+  verified: boolean;
+}
+
+// OpenAI-compatible HTTP provider types
+export interface HttpProviderConfig {
+  id: string;                 // Unique ID (used in the "http:<id>" type)
+  displayName: string;        // Display name (e.g., "LM Studio")
+  baseUrl: string;            // Server URL (e.g., "http://localhost:1234/v1")
+  model: string;              // Model name sent with each request
+  apiKey?: string;            // Optional bearer token (kept in secret storage when available, merged in at runtime)
+  verified: boolean;
+}
+
+// How the prompt is passed to a CLI: "auto" uses argv for short prompts and stdin otherwise
+export type PromptDelivery = "auto" | "stdin" | "argv";
+
+// What an agentic CLI may do with files: "isolated" = read-only in an empty temporary folder,
+// "read-only" = read-only in the vault, "write" = may edit files in the vault
+export type SafetyLevel = "isolated" | "read-only" | "write";
+
+export const DEFAULT_SAFETY_LEVEL: SafetyLevel = "read-only";
+
+// Per-provider invocation options
+export interface ProviderOptions {
+  promptDelivery?: PromptDelivery;
+  safety?: SafetyLevel;
+  timeoutSeconds?: number;    // Overrides the default response timeout
+  maxConcurrent?: number;     // Responses this provider may run at once (0 or unset = no cap)
+  env?: Record<string, string>;   // Extra environment variables (values stored in data.json)
+  secretEnv?: string[];           // Names of variables whose values are kept in secret storage
+  workingDirectory?: string;      // Absolute, or relative to the vault root (unset = vault root)
+}
+
+// Retry policy for failed responses
+export interface RetryPolicy {
+  maxAttempts: number;            // Total attempts including the first (1 = no retry)
+  initialDelaySeconds: number;    // Wait before the first retry, doubled for each further retry
+  retryOnRateLimit: boolean;
+  retryOnTimeout: boolean;
+  retryOnEmptyExit: boolean;      // Non-zero exit without any output
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelaySeconds: 5,
+  retryOnRateLimit: true,
+  retryOnTimeout: true,
+  retryOnEmptyExit: true,
+};
+
+// How a tied vote is resolved
+// none: the debate ends as a draw; runoff: everyone revotes among the tied conclusions;
+// rebuttal: the tied participants answer each other once, then everyone revotes; synthesis: a chosen provider merges the tied conclusions;
+// user-vote: the user's ballot is the tiebreaker of record (their preferred tied conclusion wins)
+export type TieBreakPolicy = "none" | "runoff" | "rebuttal" | "synthesis" | "user-vote";
+
+export interface TieBreakConfig {
+  policy: TieBreakPolicy;
+  maxRounds: number;              // Runoff or rebuttal rounds before accepting the draw
+  synthesisType?: CliType;        // Provider that merges the tied conclusions
+  synthesisModel?: string;
+}
+
+export const DEFAULT_TIE_BREAK_CONFIG: TieBreakConfig = {
+  policy: "none",
+  maxRounds: 1,
+};
+
+// Adaptive turn count: after each turn a checker decides whether to move to conclusions early or add a turn
+export interface AdaptiveTurnsConfig {
+  maxTurns: number;               // Turns never go beyond this when extended
+  checkerType?: CliType;          // Provider that runs the check (defaults to the first AI participant)
+  checkerModel?: string;
+}
+
+export const DEFAULT_ADAPTIVE_TURNS_CONFIG: AdaptiveTurnsConfig = {
+  maxTurns: 6,
+};
+
+// Offline fake provider settings
+export interface FakeProviderConfig {
+  responseTemplate: string;   // Placeholders: {call}, {theme}, {model}
+  delayMs: number;            // Delay before each streamed chunk
+  chunkSize: number;          // Characters per streamed chunk
+}
+
+export const DEFAULT_FAKE_PROVIDER_CONFIG: FakeProviderConfig = {
+  responseTemplate: "[{model}] Response #{call} on \"{theme}\". This is a scripted answer from the offline fake provider.",
+  delayMs: 30,
+  chunkSize: 12,
+};
+
+// Raw output of one CLI process, captured in developer mode and replayed through the parsers
+export interface CliFixture {
+  version: 1;
+  provider: CliType;
+  command: string;
+  args: string[];
+  stdout: string[];           // Output lines without their trailing newline
+  stderr: string;
+  exitCode: number | null;
+  timestamp: number;
+}
+
+// What a provider supports, detected when it is verified
+export interface ProviderCapabilities {
+  version?: string;
+  executablePath?: string;    // Where the CLI was found (built-in CLIs only)
+  outputFormats: string[];    // e.g. ["text", "stream-json"]
+  stdinPrompt: boolean;       // Reads the prompt from stdin
+  jsonStreaming: boolean;     // Structured streaming output (errors and usage are reported)
+  modelSelection: boolean;    // Accepts a model flag
+  sandbox: boolean;           // Has flags to restrict or allow file edits
+  sessionResume: boolean;     // Can continue a session between turns
 }
 
 // CLI config types
@@ -101,12 +391,23 @@ export interface CliConfig {
   geminiCliPath?: string;
   claudeCliPath?: string;
   codexCliPath?: string;
+  customProviders: CustomProviderConfig[];
+  httpProviders: HttpProviderConfig[];
+  providerOptions: Partial<Record<CliType, ProviderOptions>>;
+  // Providers verified before detection have none; they are invoked as before
+  capabilities: Partial<Record<CliType, ProviderCapabilities>>;
+  fakeProvider: FakeProviderConfig;
 }
 
 export const DEFAULT_CLI_CONFIG: CliConfig = {
   geminiVerified: false,
   claudeVerified: false,
   codexVerified: false,
+  customProviders: [],
+  httpProviders: [],
+  providerOptions: {},
+  capabilities: {},
+  fakeProvider: { ...DEFAULT_FAKE_PROVIDER_CONFIG },
 };
 
 // Settings types
@@ -115,7 +416,22 @@ export interface RonginusSettings {
   systemPrompt: string;
   conclusionPrompt: string;
   votePrompt: string;
+  moderatorPrompt: string;
+  judgePrompt: string;
+  judgeRubric: string;              // One "Name: description" criterion per line
   outputFolder: string;
+  resumeSessions: boolean;
+  responseTimeoutSeconds: number;   // 0 = no timeout
+  retryPolicy: RetryPolicy;
+  tieBreak: TieBreakConfig;
+  adaptiveTurns: AdaptiveTurnsConfig;
+  voteReasks: number;               // Times an invalid AI ballot is sent back before the vote is abstained
+  forbidSelfVote: boolean;          // Voters linked to a participant cannot vote for that participant's conclusion
+  blindVoting: boolean;             // Conclusions are shown to AI voters as "Candidate A/B/C" in shuffled order
+  maxConcurrentResponses: number;   // 0 = no limit
+  developerMode: boolean;           // Offers the offline fake provider as a participant
+  captureCliOutput: boolean;        // Writes each CLI process's raw output to the fixture folder
+  fixtureFolder: string;
   cliConfig: CliConfig;
 }
 
@@ -127,25 +443,177 @@ Be clear and decisive. Summarize your position in a well-structured manner.
 Start your response with "CONCLUSION:" followed by your final answer.`,
   votePrompt: `You have seen the conclusions from all participants.
 Now you must vote for the BEST conclusion (you can also vote for your own if you believe it's the best).
-Consider clarity, logical reasoning, and completeness.
-Respond with ONLY the name of the participant you vote for (Gemini, Claude, or Codex) followed by a brief reason.
-Format: VOTE: [Name] - [Reason]`,
+Consider clarity, logical reasoning, and completeness.`,
+  moderatorPrompt: `You are the moderator of this debate. Do not argue for any position.
+Summarise the latest turn: where the participants agree and where they still disagree.
+Ask follow-up questions that would move the debate forward, addressed to specific participants.
+Decide whether the debate has converged, meaning further turns are unlikely to change the positions.`,
+  judgePrompt: `You are a judge. You did not take part in this debate.
+Evaluate each participant's final conclusion on its merits, not on who wrote it.
+Score every conclusion on each criterion of the rubric from 1 (poor) to 10 (excellent), and give brief written feedback explaining the scores.`,
+  judgeRubric: `Accuracy: Claims are correct and well supported
+Reasoning: The argument is logical and addresses counterpoints
+Actionability: The conclusion gives clear, practical guidance`,
   outputFolder: "Debates",
+  resumeSessions: true,
+  responseTimeoutSeconds: 300,
+  retryPolicy: { ...DEFAULT_RETRY_POLICY },
+  tieBreak: { ...DEFAULT_TIE_BREAK_CONFIG },
+  adaptiveTurns: { ...DEFAULT_ADAPTIVE_TURNS_CONFIG },
+  voteReasks: 2,
+  forbidSelfVote: false,
+  blindVoting: false,
+  maxConcurrentResponses: 3,
+  developerMode: false,
+  captureCliOutput: false,
+  fixtureFolder: "Ronginus/Fixtures",
   cliConfig: { ...DEFAULT_CLI_CONFIG },
 };
 
+/**
+ * Parse the judging rubric ("Name: description" per line; a line without a colon is a name only)
+ */
+export function parseJudgeRubric(text: string): JudgeCriterion[] {
+  const criteria: JudgeCriterion[] = [];
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.replace(/^\s*[-*]\s*/, "").trim();
+    if (!line) continue;
+    const match = line.match(/^([^:：]+)[:：]\s*(.*)$/);
+    const name = (match ? match[1] : line).trim();
+    if (name && !criteria.some(c => c.name === name)) {
+      criteria.push({ name, description: match ? match[2].trim() : "" });
+    }
+  }
+  return criteria;
+}
+
+/**
+ * Add two token usage records (cost is kept only if either side reported one)
+ */
+export function addTokenUsage(a: TokenUsage | undefined, b: TokenUsage): TokenUsage {
+  if (!a) return { ...b };
+  const costUsd = a.costUsd === undefined && b.costUsd === undefined
+    ? undefined
+    : (a.costUsd || 0) + (b.costUsd || 0);
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cachedTokens: a.cachedTokens + b.cachedTokens,
+    costUsd,
+  };
+}
+
+/**
+ * Build a participant display name from base name, model and role
+ * (e.g., "Claude [sonnet]（Affirmative）")
+ */
+export function formatParticipantName(baseName: string, model?: string, role?: string): string {
+  let name = model ? `${baseName} [${model}]` : baseName;
+  if (role) {
+    name += `（${role}）`;
+  }
+  return name;
+}
+
+/**
+ * Check if a participant type refers to a custom command provider
+ */
+export function isCustomCliType(type: string): type is CustomCliType {
+  return type.startsWith("custom:");
+}
+
+/**
+ * Build the participant type for a custom command provider
+ */
+export function toCustomCliType(id: string): CustomCliType {
+  return `custom:${id}`;
+}
+
+/**
+ * Find the custom provider config for a participant type
+ */
+export function findCustomProvider(config: CliConfig, type: string): CustomProviderConfig | undefined {
+  if (!isCustomCliType(type)) return undefined;
+  const id = type.slice("custom:".length);
+  return (config.customProviders || []).find(p => p.id === id);
+}
+
+/**
+ * Check if a participant type refers to an OpenAI-compatible HTTP provider
+ */
+export function isHttpCliType(type: string): type is HttpCliType {
+  return type.startsWith("http:");
+}
+
+/**
+ * Build the participant type for an OpenAI-compatible HTTP provider
+ */
+export function toHttpCliType(id: string): HttpCliType {
+  return `http:${id}`;
+}
+
+/**
+ * Find the HTTP provider config for a participant type
+ */
+export function findHttpProvider(config: CliConfig, type: string): HttpProviderConfig | undefined {
+  if (!isHttpCliType(type)) return undefined;
+  const id = type.slice("http:".length);
+  return (config.httpProviders || []).find(p => p.id === id);
+}
+
+/**
+ * Get the display name of a user-defined provider (custom command or HTTP endpoint)
+ */
+export function getUserDefinedProviderName(config: CliConfig, type: string): string | undefined {
+  return findCustomProvider(config, type)?.displayName || findHttpProvider(config, type)?.displayName;
+}
+
+/**
+ * List verified user-defined providers (custom commands and HTTP endpoints)
+ */
+export function getVerifiedUserDefinedProviders(config: CliConfig): { type: CliType; displayName: string }[] {
+  const providers: { type: CliType; displayName: string }[] = [];
+  for (const custom of config.customProviders || []) {
+    if (custom.verified) {
+      providers.push({ type: toCustomCliType(custom.id), displayName: custom.displayName });
+    }
+  }
+  for (const http of config.httpProviders || []) {
+    if (http.verified) {
+      providers.push({ type: toHttpCliType(http.id), displayName: http.displayName });
+    }
+  }
+  return providers;
+}
+
 /**
  * Check if any CLI is verified
  */
 export function hasVerifiedCli(config: CliConfig): boolean {
-  return config.geminiVerified || config.claudeVerified || config.codexVerified;
+  return countVerifiedClis(config) > 0;
 }
 
 /**
  * Count verified CLIs
  */
 export function countVerifiedClis(config: CliConfig): number {
-  return [config.geminiVerified, config.claudeVerified, config.codexVerified].filter(Boolean).length;
+  const builtin = [config.geminiVerified, config.claudeVerified, config.codexVerified].filter(Boolean).length;
+  return builtin + getVerifiedUserDefinedProviders(config).length;
+}
+
+/**
+ * Get the safety level a provider actually runs with (undefined when it has no file access).
+ * Custom commands and CLIs without sandbox flags cannot be restricted, so read-only runs them isolated.
+ */
+export function getSafetyLevel(
+  type: ParticipantType,
+  options?: ProviderOptions,
+  capabilities?: ProviderCapabilities
+): SafetyLevel | undefined {
+  if (type === "user" || type === "fake-cli" || isHttpCliType(type)) return undefined;
+  const level = options?.safety ?? DEFAULT_SAFETY_LEVEL;
+  if (level === "read-only" && (isCustomCliType(type) || capabilities?.sandbox === false)) return "isolated";
+  return level;
 }
 
 // Debate state for UI
@@ -153,8 +621,12 @@ export type DebatePhase =
   | "idle"
   | "thinking"
   | "turn_complete"
+  | "moderating"
+  | "checking"
   | "concluding"
   | "voting"
+  | "judging"
+  | "tie_break"
   | "complete"
   | "error";
 
@@ -166,22 +638,41 @@ export interface DebateState {
   turns: DebateTurn[];
   conclusions: DebateConclusion[];
   votes: VoteResult[];
+  votingMethod: VotingMethod;
+  voteTally?: VoteTally;
+  tieBreaks: TieBreakRound[];
   winnerId: string | null;
   winnerIds: string[];
   isDraw: boolean;
   finalConclusion: string;
+  adaptive: boolean;
+  stopReason?: DebateStopReason;
+  stopDetail?: string;
+  adaptiveTurns?: DebateResult["adaptiveTurns"];
   error?: string;
   streamingResponses: Map<string, string>;  // participantId -> content
+  retrying: Map<string, { attempt: number; maxAttempts: number }>;  // participantId -> retry in progress
+  queued: Set<string>;  // participantIds waiting for a concurrency slot
+  pendingFailures: DebateResponse[];          // Failed responses awaiting a user decision
+  usage?: TokenUsage;                        // Running total for the debate
+  usageByParticipant?: Record<string, TokenUsage>;
   startTime?: number;
   endTime?: number;
   // User interaction
   pendingUserInput?: {
-    type: "debate" | "vote";
+    type: "debate" | "vote" | "moderate" | "judge";
     participantId: string;
     role?: string;
+    candidateIds?: string[];  // Conclusions that can be voted for (a runoff is restricted to the tied ones)
   };
   currentParticipantId?: string;
+  format: DebateFormat;
+  speakingParticipantId: string | null;  // Current speaker in a sequential turn
   // Configuration
   debateParticipants: Participant[];
   voteParticipants: Voter[];
+  moderator?: Participant;
+  judgeParticipants: Voter[];  // Non-empty when a judge panel decides the winner
+  judgeResults: JudgeResult[];
+  judging?: JudgingResult;
 }
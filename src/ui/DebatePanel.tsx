@@ -1,21 +1,37 @@
 import * as React from "react";
 import { useState } from "react";
-import type { DebateState, RonginusSettings, DebateTurn, DebateConclusion, VoteResult, Participant, Voter, ParticipantType } from "../types";
+import type { ConvergenceCheck, DebateFormat, DebateState, DecisionMode, TieBreakRound, JudgeCriterion, JudgeEvaluation, JudgeResult, JudgingResult, VoteTally, VotingMethod, RonginusSettings, DebateTurn, ModeratorSummary, DebateConclusion, VoteResult, Participant, Voter, ParticipantType, CliConfig, TokenUsage, ParticipantFailureAction } from "../types";
+import { formatParticipantName, getSafetyLevel, JUDGE_SCORE_MAX, JUDGE_SCORE_MIN, parseJudgeRubric, VOTE_SCORE_MAX, VOTE_SCORE_MIN, getUserDefinedProviderName, getVerifiedUserDefinedProviders, isCustomCliType, isHttpCliType } from "../types";
 import { t } from "../i18n";
+import { isRankingMethod } from "../core/voteTally";
+import { CONVERGENCE_CHECKER_ID } from "../core/debateEngine";
 
 interface DebatePanelProps {
   state: DebateState;
   settings: RonginusSettings;
-  onStartDebate: (theme: string, turns: number, debateParticipants: Participant[], voteParticipants: Voter[]) => void;
+  onStartDebate: (
+    theme: string,
+    turns: number,
+    debateParticipants: Participant[],
+    voteParticipants: Voter[],
+    format: DebateFormat,
+    moderator: Participant | undefined,
+    judges: Voter[],
+    votingMethod: VotingMethod,
+    adaptive: boolean
+  ) => void;
   onStopDebate: () => void;
   onSaveNote: () => void;
   onReset: () => void;
   onUserDebateInput?: (content: string) => void;
-  onUserVoteInput?: (votedForId: string, reason: string) => void;
+  onUserVoteInput?: (votedForId: string, reason: string, ballot?: Pick<VoteResult, "ranking" | "approvals" | "scores">) => void;
+  onUserModeratorInput?: (content: string, converged: boolean) => void;
+  onUserJudgeInput?: (evaluations: JudgeEvaluation[]) => void;
+  onParticipantFailureDecision?: (participantId: string, action: ParticipantFailureAction, replacementType?: ParticipantType) => void;
 }
 
 // Helper to get base display name for a participant type
-function getBaseDisplayName(type: ParticipantType): string {
+function getBaseDisplayName(type: ParticipantType, cliConfig: CliConfig): string {
   switch (type) {
     case "gemini-cli":
       return "Gemini";
@@ -23,19 +39,62 @@ function getBaseDisplayName(type: ParticipantType): string {
       return "Claude";
     case "codex-cli":
       return "Codex";
+    case "fake-cli":
+      return "Fake";
     case "user":
       return t().user;
     default:
-      return type;
+      return getUserDefinedProviderName(cliConfig, type) || type;
   }
 }
 
+// CSS class for a participant type (user-defined providers share one style per kind)
+function getTypeClass(type: ParticipantType | undefined): string {
+  if (!type) return "";
+  if (isCustomCliType(type)) return "custom-cli";
+  if (isHttpCliType(type)) return "http-api";
+  return type;
+}
+
+// Effective file access of a participant, shown next to its name (nothing for providers without file access)
+function SafetyBadge({ type, cliConfig, i18n }: {
+  type: ParticipantType;
+  cliConfig: CliConfig;
+  i18n: ReturnType<typeof t>;
+}): React.ReactElement | null {
+  const level = type === "user"
+    ? undefined
+    : getSafetyLevel(type, cliConfig.providerOptions?.[type], cliConfig.capabilities?.[type]);
+  if (!level) return null;
+  const label = level === "isolated"
+    ? i18n.safetyIsolatedShort
+    : level === "read-only" ? i18n.safetyReadOnlyShort : i18n.safetyWriteShort;
+  return <span className={`ronginus-safety-badge ronginus-safety-${level}`}>{label}</span>;
+}
+
+// Format a token usage total for display
+function formatUsage(usage: TokenUsage, i18n: ReturnType<typeof t>): string {
+  let text = i18n.tokenUsageSummary(
+    usage.inputTokens.toLocaleString(),
+    usage.outputTokens.toLocaleString(),
+    usage.cachedTokens.toLocaleString()
+  );
+  if (usage.costUsd !== undefined) {
+    text += ` · $${usage.costUsd.toFixed(4)}`;
+  }
+  return text;
+}
+
 // Get available participant types based on settings
 function getAvailableTypes(settings: RonginusSettings): ParticipantType[] {
   const types: ParticipantType[] = [];
   if (settings.cliConfig.geminiVerified) types.push("gemini-cli");
   if (settings.cliConfig.claudeVerified) types.push("claude-cli");
   if (settings.cliConfig.codexVerified) types.push("codex-cli");
+  for (const { type } of getVerifiedUserDefinedProviders(settings.cliConfig)) {
+    types.push(type);
+  }
+  if (settings.developerMode) types.push("fake-cli");
   types.push("user");
   return types;
 }
@@ -49,37 +108,108 @@ export function DebatePanel({
   onReset,
   onUserDebateInput,
   onUserVoteInput,
+  onUserModeratorInput,
+  onUserJudgeInput,
+  onParticipantFailureDecision,
 }: DebatePanelProps): React.ReactElement {
   const [theme, setTheme] = useState("");
   const [turns, setTurns] = useState(settings.defaultTurns);
+  const [adaptive, setAdaptive] = useState(state.adaptive);
+  const [format, setFormat] = useState<DebateFormat>("parallel");
+  const [moderatorType, setModeratorType] = useState<ParticipantType | "">(state.moderator?.type ?? "");
   const [debateParticipants, setDebateParticipants] = useState<Participant[]>(state.debateParticipants);
   const [voteParticipants, setVoteParticipants] = useState<Voter[]>(state.voteParticipants);
+  const [decisionMode, setDecisionMode] = useState<DecisionMode>(state.judgeParticipants.length > 0 ? "judge" : "vote");
+  const [judgeParticipants, setJudgeParticipants] = useState<Voter[]>(state.judgeParticipants);
+  const [votingMethod, setVotingMethod] = useState<VotingMethod>(state.votingMethod);
   const [showAddDebateDialog, setShowAddDebateDialog] = useState(false);
   const [showAddVoteDialog, setShowAddVoteDialog] = useState(false);
+  const [showAddJudgeDialog, setShowAddJudgeDialog] = useState(false);
   const [userInput, setUserInput] = useState("");
   const [userVoteTarget, setUserVoteTarget] = useState("");
   const [userVoteReason, setUserVoteReason] = useState("");
+  const [userModeration, setUserModeration] = useState("");
+  const [userConverged, setUserConverged] = useState(false);
   const i18n = t();
 
   // Sync vote participants when debate participants change
   const updateDebateParticipants = (newParticipants: Participant[]) => {
-    setDebateParticipants(newParticipants);
-    // Auto-sync: create voters from debate participants
-    const newVoters: Voter[] = newParticipants.map(p => ({
+    const toVoter = (p: Participant): Voter => ({
       id: `${p.type}-voter-${p.id}`,
       type: p.type,
-      displayName: getBaseDisplayName(p.type),
-    }));
-    setVoteParticipants(newVoters);
+      displayName: formatParticipantName(getBaseDisplayName(p.type, settings.cliConfig), p.model),
+      model: p.model,
+      extraArgs: p.extraArgs,
+      participantId: p.id,
+    });
+    // Voters added by hand stay as they are; synced voters follow their participant and keep their weight
+    const keptVoters = voteParticipants.flatMap(v => {
+      if (!v.participantId) return [v];
+      const participant = newParticipants.find(p => p.id === v.participantId);
+      return participant ? [{ ...toVoter(participant), weight: v.weight }] : [];
+    });
+    // Only participants new to the debate get a voter, so a synced voter the user removed stays removed
+    const addedVoters = newParticipants
+      .filter(p => !debateParticipants.some(existing => existing.id === p.id))
+      .map(toVoter);
+    setDebateParticipants(newParticipants);
+    setVoteParticipants([...keptVoters, ...addedVoters]);
   };
 
   const isRunning = state.phase !== "idle" && state.phase !== "complete" && state.phase !== "error";
   const hasActiveDebate = state.phase !== "idle";
   const isPendingUserDebate = state.pendingUserInput?.type === "debate";
   const isPendingUserVote = state.pendingUserInput?.type === "vote";
+  const isPendingUserModeration = state.pendingUserInput?.type === "moderate";
+  const isPendingUserJudge = state.pendingUserInput?.type === "judge";
+  const needsJudge = decisionMode === "judge" && judgeParticipants.length < 1;
+  // A tie-break revote only offers the tied conclusions
+  const voteCandidates = state.pendingUserInput?.candidateIds
+    ? state.conclusions.filter(c => state.pendingUserInput?.candidateIds?.includes(c.participantId))
+    : state.conclusions;
+  // Resolve a display name for anyone who can be streaming or retrying
+  const findParticipant = (id: string): Participant | Voter | undefined =>
+    state.debateParticipants.find(p => p.id === id) ||
+    state.voteParticipants.find(v => v.id === id) ||
+    state.judgeParticipants.find(j => j.id === id) ||
+    (state.moderator?.id === id ? state.moderator : undefined) ||
+    (id === "synthesis" && settings.tieBreak.synthesisType
+      ? { id, type: settings.tieBreak.synthesisType, displayName: i18n.synthesis }
+      : undefined) ||
+    (id === CONVERGENCE_CHECKER_ID
+      ? {
+        id,
+        type: settings.adaptiveTurns.checkerType || state.debateParticipants.find(p => p.type !== "user")?.type || "user",
+        displayName: i18n.convergenceCheck,
+      }
+      : undefined);
+  // Participants waiting for a concurrency slot are shown after those already streaming
+  const streamingEntries: [string, string][] = [
+    ...Array.from(state.streamingResponses.entries()),
+    ...Array.from(state.queued)
+      .filter(id => !state.streamingResponses.has(id))
+      .map((id): [string, string] => [id, ""]),
+  ];
 
   const handleStartDebate = () => {
-    onStartDebate(theme, turns, debateParticipants, voteParticipants);
+    const moderator: Participant | undefined = moderatorType
+      ? {
+        id: "moderator",
+        type: moderatorType,
+        displayName: formatParticipantName(getBaseDisplayName(moderatorType, settings.cliConfig), undefined, i18n.moderator),
+      }
+      : undefined;
+    onStartDebate(
+      theme,
+      turns,
+      debateParticipants,
+      voteParticipants,
+      format,
+      moderator,
+      decisionMode === "judge" ? judgeParticipants : [],
+      votingMethod,
+      adaptive
+    );
   };
 
   const handleSubmitUserDebate = () => {
@@ -89,6 +219,14 @@ export function DebatePanel({
     }
   };
 
+  const handleSubmitUserModeration = () => {
+    if (userModeration.trim() && onUserModeratorInput) {
+      onUserModeratorInput(userModeration, userConverged);
+      setUserModeration("");
+      setUserConverged(false);
+    }
+  };
+
   const handleSubmitUserVote = () => {
     if (userVoteTarget && onUserVoteInput) {
       onUserVoteInput(userVoteTarget, userVoteReason);
@@ -134,6 +272,42 @@ export function DebatePanel({
               value={turns}
               onChange={(e) => setTurns(parseInt(e.target.value) || 2)}
             />
+            <label className="ronginus-adaptive-turns">
+              <input
+                type="checkbox"
+                checked={adaptive}
+                onChange={(e) => setAdaptive(e.target.checked)}
+              />
+              {i18n.adaptiveTurnsCheckbox(Math.max(turns, settings.adaptiveTurns.maxTurns))}
+            </label>
+          </div>
+
+          <div className="ronginus-input-group">
+            <label htmlFor="format-select">{i18n.debateFormat}</label>
+            <select
+              id="format-select"
+              className="ronginus-format-select"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as DebateFormat)}
+            >
+              <option value="parallel">{i18n.formatParallel}</option>
+              <option value="sequential">{i18n.formatSequential}</option>
+            </select>
+          </div>
+
+          <div className="ronginus-input-group">
+            <label htmlFor="moderator-select">{i18n.moderator}</label>
+            <select
+              id="moderator-select"
+              className="ronginus-moderator-select"
+              value={moderatorType}
+              onChange={(e) => setModeratorType(e.target.value as ParticipantType | "")}
+            >
+              <option value="">{i18n.noModerator}</option>
+              {getAvailableTypes(settings).map(type => (
+                <option key={type} value={type}>{getBaseDisplayName(type, settings.cliConfig)}</option>
+              ))}
+            </select>
           </div>
 
           {/* Debate Participants Section */}
@@ -148,27 +322,76 @@ export function DebatePanel({
             i18n={i18n}
           />
 
-          {/* Vote Participants Section */}
-          <VoterSection
-            title={i18n.voteParticipants}
-            voters={voteParticipants}
-            onUpdate={setVoteParticipants}
-            settings={settings}
-            showAddDialog={showAddVoteDialog}
-            onToggleAddDialog={() => setShowAddVoteDialog(!showAddVoteDialog)}
-            i18n={i18n}
-          />
+          <div className="ronginus-input-group">
+            <label htmlFor="decision-select">{i18n.decisionMode}</label>
+            <select
+              id="decision-select"
+              className="ronginus-decision-select"
+              value={decisionMode}
+              onChange={(e) => setDecisionMode(e.target.value as DecisionMode)}
+            >
+              <option value="vote">{i18n.decisionVote}</option>
+              <option value="judge">{i18n.decisionJudge}</option>
+            </select>
+          </div>
+
+          {decisionMode === "vote" && (
+            <div className="ronginus-input-group">
+              <label htmlFor="voting-method-select">{i18n.votingMethod}</label>
+              <select
+                id="voting-method-select"
+                className="ronginus-decision-select"
+                value={votingMethod}
+                onChange={(e) => setVotingMethod(e.target.value as VotingMethod)}
+              >
+                <option value="plurality">{i18n.methodPlurality}</option>
+                <option value="ranked-choice">{i18n.methodRankedChoice}</option>
+                <option value="borda">{i18n.methodBorda}</option>
+                <option value="approval">{i18n.methodApproval}</option>
+                <option value="score">{i18n.methodScore}</option>
+              </select>
+            </div>
+          )}
+
+          {decisionMode === "vote" ? (
+            /* Vote Participants Section */
+            <VoterSection
+              title={i18n.voteParticipants}
+              kind="voter"
+              voters={voteParticipants}
+              onUpdate={setVoteParticipants}
+              settings={settings}
+              showAddDialog={showAddVoteDialog}
+              onToggleAddDialog={() => setShowAddVoteDialog(!showAddVoteDialog)}
+              i18n={i18n}
+            />
+          ) : (
+            /* Judge Panel Section */
+            <VoterSection
+              title={i18n.judges}
+              kind="judge"
+              voters={judgeParticipants}
+              onUpdate={setJudgeParticipants}
+              settings={settings}
+              showAddDialog={showAddJudgeDialog}
+              onToggleAddDialog={() => setShowAddJudgeDialog(!showAddJudgeDialog)}
+              i18n={i18n}
+            />
+          )}
 
           <button
             className="ronginus-start-button mod-cta"
             onClick={handleStartDebate}
-            disabled={!theme.trim() || debateParticipants.length < 1}
+            disabled={!theme.trim() || debateParticipants.length < 1 || needsJudge}
           >
             {i18n.startDebate}
           </button>
           {debateParticipants.length < 1 && (
             <p className="ronginus-warning">{i18n.needOneParticipant}</p>
           )}
+          {needsJudge && (
+            <p className="ronginus-warning">{i18n.needOneJudge}</p>
+          )}
         </div>
       )}
 
@@ -198,8 +421,58 @@ export function DebatePanel({
         </div>
       )}
 
+      {/* User Moderator Input */}
+      {isPendingUserModeration && (
+        <div className="ronginus-user-input-section">
+          <h3>{i18n.moderateTurn}</h3>
+          <textarea
+            className="ronginus-user-input"
+            placeholder={i18n.moderatePlaceholder}
+            value={userModeration}
+            onChange={(e) => setUserModeration(e.target.value)}
+            rows={5}
+          />
+          <label className="ronginus-moderator-converged">
+            <input
+              type="checkbox"
+              checked={userConverged}
+              onChange={(e) => setUserConverged(e.target.checked)}
+            />
+            {i18n.moderatorConvergedCheckbox}
+          </label>
+          <button
+            className="ronginus-submit-button mod-cta"
+            onClick={handleSubmitUserModeration}
+            disabled={!userModeration.trim()}
+          >
+            {i18n.submitResponse}
+          </button>
+        </div>
+      )}
+
+      {/* User Judge Input */}
+      {isPendingUserJudge && state.conclusions.length > 0 && onUserJudgeInput && (
+        <UserJudgeInput
+          conclusions={state.conclusions}
+          criteria={parseJudgeRubric(settings.judgeRubric)}
+          onSubmit={onUserJudgeInput}
+          i18n={i18n}
+        />
+      )}
+
+      {/* User Vote Input (ranking, approval or score ballot) */}
+      {isPendingUserVote && voteCandidates.length > 0 && state.votingMethod !== "plurality" && onUserVoteInput && (
+        <UserBallotInput
+          key={state.tieBreaks.length}
+          method={state.votingMethod}
+          conclusions={voteCandidates}
+          onSubmit={onUserVoteInput}
+          i18n={i18n}
+        />
+      )}
+
       {/* User Vote Input */}
-      {isPendingUserVote && state.conclusions.length > 0 && (
+      {isPendingUserVote && voteCandidates.length > 0 && state.votingMethod === "plurality" && (
         <div className="ronginus-user-vote-section">
           <h3>{i18n.selectVote}</h3>
           <div className="ronginus-input-group">
@@ -210,7 +483,7 @@ export function DebatePanel({
               onChange={(e) => setUserVoteTarget(e.target.value)}
             >
               <option value="">{i18n.selectVote}</option>
-              {state.conclusions.map((conclusion) => (
+              {voteCandidates.map((conclusion) => (
                 <option key={conclusion.participantId} value={conclusion.participantId}>
                   {conclusion.displayName}
                 </option>
@@ -237,15 +510,40 @@ export function DebatePanel({
         </div>
       )}
 
-      {isRunning && !isPendingUserDebate && !isPendingUserVote && (
+      {isRunning && !isPendingUserDebate && !isPendingUserVote && !isPendingUserModeration && !isPendingUserJudge && (
         <div className="ronginus-progress-section">
           <div className="ronginus-status">
             <span className="ronginus-phase">{getPhaseLabel(state.phase, i18n)}</span>
             <span className="ronginus-turn-info">
               {i18n.turn} {state.currentTurn} / {state.totalTurns}
             </span>
+            {state.usage && (
+              <span className="ronginus-usage-info">{formatUsage(state.usage, i18n)}</span>
+            )}
           </div>
 
+          {state.speakingParticipantId && (
+            <div className="ronginus-speaker-info">
+              {i18n.nowSpeaking(
+                state.debateParticipants.find(p => p.id === state.speakingParticipantId)?.displayName ||
+                state.speakingParticipantId
+              )}
+            </div>
+          )}
+
+          {state.retrying.size > 0 && (
+            <div className="ronginus-retry-list">
+              {Array.from(state.retrying.entries()).map(([participantId, { attempt, maxAttempts }]) => {
+                const displayName = findParticipant(participantId)?.displayName || participantId;
+                return (
+                  <div key={participantId} className="ronginus-retry-item">
+                    {displayName}: {i18n.retrying(attempt, maxAttempts)}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
           <button
             className="ronginus-stop-button"
             onClick={onStopDebate}
@@ -256,23 +554,31 @@ export function DebatePanel({
       )}
 
       {/* Streaming responses during thinking */}
-      {state.streamingResponses.size > 0 && (
+      {streamingEntries.length > 0 && (
         <div className="ronginus-streaming-section">
           <h3>{i18n.currentResponses}</h3>
           <div className="ronginus-response-grid">
-            {Array.from(state.streamingResponses.entries()).map(([participantId, content]) => {
-              const participant = state.debateParticipants.find(p => p.id === participantId);
+            {streamingEntries.map(([participantId, content]) => {
+              const participant = findParticipant(participantId);
               const displayName = participant?.displayName || participantId;
+              const isQueued = state.queued.has(participantId);
+              // Earlier speakers of a sequential turn have finished and stay visible for reference
+              const isDone = state.speakingParticipantId !== null && state.speakingParticipantId !== participantId;
               return (
-                <div key={participantId} className={`ronginus-response-card ${participant?.type || ""}`}>
+                <div
+                  key={participantId}
+                  className={`ronginus-response-card ${getTypeClass(participant?.type)}${isQueued ? " ronginus-queued" : ""}`}
+                >
                   <div className="ronginus-response-header">
-                    <span className={`ronginus-cli-badge ${participant?.type || ""}`}>
+                    <span className={`ronginus-cli-badge ${getTypeClass(participant?.type)}`}>
                       {displayName}
                     </span>
-                    <span className="ronginus-thinking-indicator">...</span>
+                    {!isQueued && !isDone && <span className="ronginus-thinking-indicator">...</span>}
                   </div>
                   <div className="ronginus-response-content">
-                    {content || <span className="ronginus-waiting">{i18n.thinking}</span>}
+                    {content || (
+                      <span className="ronginus-waiting">{isQueued ? i18n.waitingForSlot : i18n.thinking}</span>
+                    )}
                   </div>
                 </div>
               );
@@ -281,6 +587,23 @@ export function DebatePanel({
         </div>
       )}
 
+      {/* Failed participants awaiting a decision (partial current turn) */}
+      {state.pendingFailures.length > 0 && onParticipantFailureDecision && (
+        <div className="ronginus-turns-section">
+          <h3>{i18n.participantFailed}</h3>
+          <TurnDisplay
+            turn={{ turnNumber: state.currentTurn, responses: state.pendingFailures, timestamp: Date.now() }}
+            participants={state.debateParticipants}
+            i18n={i18n}
+            failureActions={{
+              replacementTypes: getAvailableTypes(settings).filter(type => type !== "user"),
+              cliConfig: settings.cliConfig,
+              onDecision: onParticipantFailureDecision,
+            }}
+          />
+        </div>
+      )}
+
       {/* Completed turns (exclude last turn if conclusions exist, since they're the same) */}
       {(() => {
         const turnsToShow = state.turns.filter(
@@ -290,12 +613,26 @@ export function DebatePanel({
           <div className="ronginus-turns-section">
             <h3>{i18n.discussion}</h3>
             {turnsToShow.map((turn) => (
-              <TurnDisplay key={turn.turnNumber} turn={turn} participants={state.debateParticipants} i18n={i18n} />
+              <TurnDisplay
+                key={turn.turnNumber}
+                turn={turn}
+                participants={state.debateParticipants}
+                moderator={state.moderator}
+                i18n={i18n}
+              />
             ))}
           </div>
         ) : null;
       })()}
 
+      {/* Why the discussion turns ended */}
+      {state.phase === "complete" && state.adaptive && state.stopReason && (
+        <div className="ronginus-stop-reason">
+          {i18n.stopReason(state.stopReason, state.totalTurns)}
+          {state.stopDetail && <span className="ronginus-stop-detail">{state.stopDetail}</span>}
+        </div>
+      )}
+
       {/* Conclusions */}
       {state.conclusions.length > 0 && (
         <div className="ronginus-conclusions-section">
@@ -314,7 +651,49 @@ export function DebatePanel({
           <h3>{i18n.votingResults}</h3>
           <div className="ronginus-votes-list">
             {state.votes.map((vote, index) => (
-              <VoteDisplay key={index} vote={vote} />
+              <VoteDisplay key={index} vote={vote} conclusions={state.conclusions} i18n={i18n} />
+            ))}
+          </div>
+          {state.voteTally && (
+            <VoteTallyDisplay tally={state.voteTally} conclusions={state.conclusions} i18n={i18n} />
+          )}
+        </div>
+      )}
+
+      {/* Tie-break rounds */}
+      {state.tieBreaks.length > 0 && (
+        <div className="ronginus-votes-section ronginus-tie-break-section">
+          <h3>{i18n.tieBreakTitle}</h3>
+          {state.tieBreaks.map((round, index) => (
+            <TieBreakDisplay
+              key={index}
+              round={round}
+              index={index}
+              conclusions={state.conclusions}
+              participants={state.debateParticipants}
+              i18n={i18n}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Judge panel results */}
+      {state.judging && state.judging.scoreboard.length > 0 && (
+        <div className="ronginus-votes-section">
+          <h3>{i18n.scoreboard}</h3>
+          <ScoreboardTable judging={state.judging} i18n={i18n} />
+        </div>
+      )}
+      {state.judgeResults.length > 0 && (
+        <div className="ronginus-votes-section">
+          <h3>{i18n.judgeFeedback}</h3>
+          <div className="ronginus-response-grid">
+            {state.judgeResults.map((result) => (
+              <JudgeResultDisplay
+                key={result.judgeId}
+                result={result}
+                judge={state.judgeParticipants.find(j => j.id === result.judgeId)}
+              />
             ))}
           </div>
         </div>
@@ -329,8 +708,8 @@ export function DebatePanel({
               const conclusion = state.conclusions.find(c => c.participantId === winnerId);
               const participant = state.debateParticipants.find(p => p.id === winnerId);
               return (
-                <div key={winnerId} className={`ronginus-winner-card ${participant?.type || ""}`}>
-                  <span className={`ronginus-cli-badge ${participant?.type || ""} large`}>
+                <div key={winnerId} className={`ronginus-winner-card ${getTypeClass(participant?.type)}`}>
+                  <span className={`ronginus-cli-badge ${getTypeClass(participant?.type)} large`}>
                     {conclusion?.displayName || winnerId}
                   </span>
                   <div className="ronginus-final-conclusion">
@@ -350,8 +729,8 @@ export function DebatePanel({
             const winner = state.conclusions.find(c => c.participantId === state.winnerId);
             const participant = state.debateParticipants.find(p => p.id === state.winnerId);
             return (
-              <div className={`ronginus-winner-card ${participant?.type || ""}`}>
-                <span className={`ronginus-cli-badge ${participant?.type || ""} large`}>
+              <div className={`ronginus-winner-card ${getTypeClass(participant?.type)}`}>
+                <span className={`ronginus-cli-badge ${getTypeClass(participant?.type)} large`}>
                   {winner?.displayName || state.winnerId}
                 </span>
                 <div className="ronginus-final-conclusion">
@@ -363,6 +742,13 @@ export function DebatePanel({
         </div>
       )}
 
+      {/* Token usage total */}
+      {state.phase === "complete" && state.usage && (
+        <div className="ronginus-usage-section">
+          <span className="ronginus-usage-info">{formatUsage(state.usage, i18n)}</span>
+        </div>
+      )}
+
       {/* Error display */}
       {state.phase === "error" && state.error && (
         <div className="ronginus-error-section">
@@ -418,23 +804,28 @@ function ParticipantSection({
 }: ParticipantSectionProps): React.ReactElement {
   const [newType, setNewType] = useState<ParticipantType>("claude-cli");
   const [newRole, setNewRole] = useState("");
+  const [newModel, setNewModel] = useState("");
+  const [newExtraArgs, setNewExtraArgs] = useState("");
   const availableTypes = getAvailableTypes(settings);
 
   const addParticipant = () => {
     const existingCount = participants.filter(p => p.type === newType).length;
-    const baseDisplayName = getBaseDisplayName(newType);
-    const displayName = newRole
-      ? `${baseDisplayName}（${newRole}）`
-      : baseDisplayName;
+    const baseDisplayName = getBaseDisplayName(newType, settings.cliConfig);
+    const model = newType !== "user" ? newModel.trim() || undefined : undefined;
+    const extraArgs = newType !== "user" ? newExtraArgs.trim() || undefined : undefined;
 
     const newParticipant: Participant = {
       id: `${newType}-${existingCount + 1}-${Date.now()}`,
       type: newType,
       role: newRole || undefined,
-      displayName,
+      displayName: formatParticipantName(baseDisplayName, model, newRole),
+      model,
+      extraArgs,
     };
     onUpdate([...participants, newParticipant]);
     setNewRole("");
+    setNewModel("");
+    setNewExtraArgs("");
     onToggleAddDialog();
   };
 
@@ -445,10 +836,8 @@ function ParticipantSection({
   const updateRole = (id: string, role: string) => {
     onUpdate(participants.map(p => {
       if (p.id === id) {
-        const baseDisplayName = getBaseDisplayName(p.type);
-        const displayName = role
-          ? `${baseDisplayName}（${role}）`
-          : baseDisplayName;
+        const baseDisplayName = getBaseDisplayName(p.type, settings.cliConfig);
+        const displayName = formatParticipantName(baseDisplayName, p.model, role);
         return { ...p, role: role || undefined, displayName };
       }
       return p;
@@ -474,7 +863,7 @@ function ParticipantSection({
               onChange={(e) => setNewType(e.target.value as ParticipantType)}
             >
               {availableTypes.map(type => (
-                <option key={type} value={type}>{getBaseDisplayName(type)}</option>
+                <option key={type} value={type}>{getBaseDisplayName(type, settings.cliConfig)}</option>
               ))}
             </select>
           </div>
@@ -489,6 +878,15 @@ function ParticipantSection({
               />
             </div>
           )}
+          {newType !== "user" && (
+            <ModelInputs
+              model={newModel}
+              extraArgs={newExtraArgs}
+              onModelChange={setNewModel}
+              onExtraArgsChange={setNewExtraArgs}
+              i18n={i18n}
+            />
+          )}
           <div className="ronginus-dialog-buttons">
             <button onClick={onToggleAddDialog}>{i18n.cancel}</button>
             <button className="mod-cta" onClick={addParticipant}>{i18n.addParticipant}</button>
@@ -499,9 +897,10 @@ function ParticipantSection({
       <div className="ronginus-participants-list">
         {participants.map((participant) => (
           <div key={participant.id} className="ronginus-participant-item">
-            <span className={`ronginus-cli-badge ${participant.type}`}>
-              {getBaseDisplayName(participant.type)}
+            <span className={`ronginus-cli-badge ${getTypeClass(participant.type)}`}>
+              {formatParticipantName(getBaseDisplayName(participant.type, settings.cliConfig), participant.model)}
             </span>
+            <SafetyBadge type={participant.type} cliConfig={settings.cliConfig} i18n={i18n} />
             {showRole && (
               <input
                 type="text"
@@ -530,6 +929,7 @@ function ParticipantSection({
 // Voter Section Component
 interface VoterSectionProps {
   title: string;
+  kind: "voter" | "judge";
   voters: Voter[];
   onUpdate: (voters: Voter[]) => void;
   settings: RonginusSettings;
@@ -540,6 +940,7 @@ interface VoterSectionProps {
 
 function VoterSection({
   title,
+  kind,
   voters,
   onUpdate,
   settings,
@@ -548,18 +949,25 @@ function VoterSection({
   i18n,
 }: VoterSectionProps): React.ReactElement {
   const [newType, setNewType] = useState<ParticipantType>("claude-cli");
+  const [newModel, setNewModel] = useState("");
+  const [newExtraArgs, setNewExtraArgs] = useState("");
   const availableTypes = getAvailableTypes(settings);
 
   const addVoter = () => {
     const existingCount = voters.filter(v => v.type === newType).length;
-    const displayName = getBaseDisplayName(newType);
+    const model = newType !== "user" ? newModel.trim() || undefined : undefined;
+    const extraArgs = newType !== "user" ? newExtraArgs.trim() || undefined : undefined;
 
     const newVoter: Voter = {
-      id: `${newType}-voter-${existingCount + 1}-${Date.now()}`,
+      id: `${newType}-${kind}-${existingCount + 1}-${Date.now()}`,
       type: newType,
-      displayName,
+      displayName: formatParticipantName(getBaseDisplayName(newType, settings.cliConfig), model),
+      model,
+      extraArgs,
     };
     onUpdate([...voters, newVoter]);
+    setNewModel("");
+    setNewExtraArgs("");
     onToggleAddDialog();
   };
 
@@ -567,6 +975,12 @@ function VoterSection({
     onUpdate(voters.filter(v => v.id !== id));
   };
 
+  const updateWeight = (id: string, value: string) => {
+    const weight = parseFloat(value);
+    if (Number.isNaN(weight) || weight < 0) return;
+    onUpdate(voters.map(v => v.id === id ? { ...v, weight } : v));
+  };
+
   return (
     <div className="ronginus-participants-section">
       <div className="ronginus-section-header">
@@ -578,7 +992,7 @@ function VoterSection({
 
       {showAddDialog && (
         <div className="ronginus-add-dialog">
-          <h4>{i18n.addVoter}</h4>
+          <h4>{kind === "judge" ? i18n.addJudge : i18n.addVoter}</h4>
           <div className="ronginus-input-group">
             <label>{i18n.type}</label>
             <select
@@ -586,10 +1000,19 @@ function VoterSection({
               onChange={(e) => setNewType(e.target.value as ParticipantType)}
             >
               {availableTypes.map(type => (
-                <option key={type} value={type}>{getBaseDisplayName(type)}</option>
+                <option key={type} value={type}>{getBaseDisplayName(type, settings.cliConfig)}</option>
               ))}
             </select>
           </div>
+          {newType !== "user" && (
+            <ModelInputs
+              model={newModel}
+              extraArgs={newExtraArgs}
+              onModelChange={setNewModel}
+              onExtraArgsChange={setNewExtraArgs}
+              i18n={i18n}
+            />
+          )}
           <div className="ronginus-dialog-buttons">
             <button onClick={onToggleAddDialog}>{i18n.cancel}</button>
             <button className="mod-cta" onClick={addVoter}>{i18n.addParticipant}</button>
@@ -600,9 +1023,22 @@ function VoterSection({
       <div className="ronginus-participants-list">
         {voters.map((voter) => (
           <div key={voter.id} className="ronginus-participant-item">
-            <span className={`ronginus-cli-badge ${voter.type}`}>
+            <span className={`ronginus-cli-badge ${getTypeClass(voter.type)}`}>
               {voter.displayName}
             </span>
+            <SafetyBadge type={voter.type} cliConfig={settings.cliConfig} i18n={i18n} />
+            {kind === "voter" && (
+              <label className="ronginus-weight-input" title={i18n.voteWeight}>
+                ×
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={voter.weight ?? 1}
+                  onChange={(e) => updateWeight(voter.id, e.target.value)}
+                />
+              </label>
+            )}
             <button
               className="ronginus-remove-button"
               onClick={() => removeVoter(voter.id)}
@@ -612,20 +1048,115 @@ function VoterSection({
           </div>
         ))}
         {voters.length === 0 && (
-          <p className="ronginus-empty-list">{i18n.needOneParticipant}</p>
+          <p className="ronginus-empty-list">{kind === "judge" ? i18n.needOneJudge : i18n.needOneParticipant}</p>
         )}
       </div>
     </div>
   );
 }
 
+// Model and extra CLI argument inputs for the add dialogs
+interface ModelInputsProps {
+  model: string;
+  extraArgs: string;
+  onModelChange: (model: string) => void;
+  onExtraArgsChange: (extraArgs: string) => void;
+  i18n: ReturnType<typeof t>;
+}
+
+function ModelInputs({
+  model,
+  extraArgs,
+  onModelChange,
+  onExtraArgsChange,
+  i18n,
+}: ModelInputsProps): React.ReactElement {
+  return (
+    <>
+      <div className="ronginus-input-group">
+        <label>{i18n.model}</label>
+        <input
+          type="text"
+          value={model}
+          onChange={(e) => onModelChange(e.target.value)}
+          placeholder={i18n.modelPlaceholder}
+        />
+      </div>
+      <div className="ronginus-input-group">
+        <label>{i18n.extraArgs}</label>
+        <input
+          type="text"
+          value={extraArgs}
+          onChange={(e) => onExtraArgsChange(e.target.value)}
+          placeholder={i18n.extraArgsPlaceholder}
+        />
+      </div>
+    </>
+  );
+}
+
+// Actions offered on error cards while the engine waits for a decision
+interface FailureActionsConfig {
+  replacementTypes: ParticipantType[];
+  cliConfig: CliConfig;
+  onDecision: (participantId: string, action: ParticipantFailureAction, replacementType?: ParticipantType) => void;
+}
+
+interface FailureActionsProps extends FailureActionsConfig {
+  participantId: string;
+  i18n: ReturnType<typeof t>;
+}
+
+function FailureActions({
+  participantId,
+  replacementTypes,
+  cliConfig,
+  onDecision,
+  i18n,
+}: FailureActionsProps): React.ReactElement {
+  const [replacementType, setReplacementType] = useState<ParticipantType | "">(replacementTypes[0] || "");
+
+  return (
+    <div className="ronginus-failure-actions">
+      <button className="mod-cta" onClick={() => onDecision(participantId, "retry")}>
+        {i18n.retryParticipant}
+      </button>
+      {replacementTypes.length > 0 && (
+        <div className="ronginus-failure-replace">
+          <select
+            value={replacementType}
+            onChange={(e) => setReplacementType(e.target.value as ParticipantType)}
+          >
+            {replacementTypes.map(type => (
+              <option key={type} value={type}>{getBaseDisplayName(type, cliConfig)}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => replacementType && onDecision(participantId, "replace", replacementType)}
+          >
+            {i18n.replaceParticipant}
+          </button>
+        </div>
+      )}
+      <button onClick={() => onDecision(participantId, "drop")}>
+        {i18n.dropParticipant}
+      </button>
+      <button onClick={() => onDecision(participantId, "continue")}>
+        {i18n.continueWithoutParticipant}
+      </button>
+    </div>
+  );
+}
+
 interface TurnDisplayProps {
   turn: DebateTurn;
   participants: Participant[];
+  moderator?: Participant;
   i18n: ReturnType<typeof t>;
+  failureActions?: FailureActionsConfig;
 }
 
-function TurnDisplay({ turn, participants, i18n }: TurnDisplayProps): React.ReactElement {
+function TurnDisplay({ turn, participants, moderator, i18n, failureActions }: TurnDisplayProps): React.ReactElement {
   const [expanded, setExpanded] = useState(true);
 
   return (
@@ -642,9 +1173,9 @@ function TurnDisplay({ turn, participants, i18n }: TurnDisplayProps): React.Reac
           {turn.responses.map((response) => {
             const participant = participants.find(p => p.id === response.participantId);
             return (
-              <div key={response.participantId} className={`ronginus-response-card ${participant?.type || ""}`}>
+              <div key={response.participantId} className={`ronginus-response-card ${getTypeClass(participant?.type)}`}>
                 <div className="ronginus-response-header">
-                  <span className={`ronginus-cli-badge ${participant?.type || ""}`}>
+                  <span className={`ronginus-cli-badge ${getTypeClass(participant?.type)}`}>
                     {response.displayName}
                   </span>
                 </div>
@@ -655,11 +1186,88 @@ function TurnDisplay({ turn, participants, i18n }: TurnDisplayProps): React.Reac
                     response.content
                   )}
                 </div>
+                {response.error && failureActions && (
+                  <FailureActions participantId={response.participantId} i18n={i18n} {...failureActions} />
+                )}
               </div>
             );
           })}
         </div>
       )}
+      {expanded && turn.moderation && (
+        <ModerationDisplay moderation={turn.moderation} moderator={moderator} participants={participants} i18n={i18n} />
+      )}
+      {expanded && turn.convergence && (
+        <ConvergenceDisplay check={turn.convergence} i18n={i18n} />
+      )}
+    </div>
+  );
+}
+
+interface ConvergenceDisplayProps {
+  check: ConvergenceCheck;
+  i18n: ReturnType<typeof t>;
+}
+
+function ConvergenceDisplay({ check, i18n }: ConvergenceDisplayProps): React.ReactElement {
+  const verdictLabel = check.verdict === "converged"
+    ? i18n.verdictConverged
+    : check.verdict === "disagreement"
+      ? i18n.verdictDisagreement
+      : i18n.verdictContinue;
+  return (
+    <div className="ronginus-convergence-check">
+      <span className="ronginus-moderation-badge">{check.displayName}</span>
+      {check.error ? (
+        <span className="ronginus-error">{i18n.convergenceFailed}: {check.error}</span>
+      ) : (
+        <>
+          <span className={`ronginus-verdict-badge ronginus-verdict-${check.verdict}`}>{verdictLabel}</span>
+          <span className="ronginus-convergence-reason">{check.reason}</span>
+        </>
+      )}
+    </div>
+  );
+}
+
+interface ModerationDisplayProps {
+  moderation: ModeratorSummary;
+  moderator?: Participant;
+  participants: Participant[];
+  i18n: ReturnType<typeof t>;
+}
+
+function ModerationDisplay({ moderation, moderator, participants, i18n }: ModerationDisplayProps): React.ReactElement {
+  return (
+    <div className={`ronginus-response-card ${getTypeClass(moderator?.type)} ronginus-moderation`}>
+      <div className="ronginus-response-header">
+        <span className={`ronginus-cli-badge ${getTypeClass(moderator?.type)}`}>
+          {moderation.displayName}
+        </span>
+        <span className="ronginus-moderation-badge">{i18n.moderatorSummary}</span>
+        {moderation.converged && (
+          <span className="ronginus-converged-badge">{i18n.moderatorConverged}</span>
+        )}
+      </div>
+      <div className="ronginus-response-content">
+        {moderation.error ? (
+          <span className="ronginus-error">{i18n.moderatorFailed}: {moderation.error}</span>
+        ) : (
+          moderation.content
+        )}
+      </div>
+      {moderation.questions.length > 0 && (
+        <div className="ronginus-moderation-questions">
+          <strong>{i18n.moderatorQuestions}</strong>
+          <ul>
+            {moderation.questions.map((q, index) => (
+              <li key={index}>
+                {participants.find(p => p.id === q.participantId)?.displayName || q.participantId}: {q.question}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 }
@@ -673,9 +1281,9 @@ interface ConclusionDisplayProps {
 function ConclusionDisplay({ conclusion, participants, i18n }: ConclusionDisplayProps): React.ReactElement {
   const participant = participants.find(p => p.id === conclusion.participantId);
   return (
-    <div className={`ronginus-response-card ${participant?.type || ""} conclusion`}>
+    <div className={`ronginus-response-card ${getTypeClass(participant?.type)} conclusion`}>
       <div className="ronginus-response-header">
-        <span className={`ronginus-cli-badge ${participant?.type || ""}`}>
+        <span className={`ronginus-cli-badge ${getTypeClass(participant?.type)}`}>
           {conclusion.displayName}
         </span>
         <span className="ronginus-conclusion-badge">{i18n.conclusion}</span>
@@ -687,16 +1295,316 @@ function ConclusionDisplay({ conclusion, participants, i18n }: ConclusionDisplay
   );
 }
 
-function VoteDisplay({ vote }: { vote: VoteResult }): React.ReactElement {
+interface UserJudgeInputProps {
+  conclusions: DebateConclusion[];
+  criteria: JudgeCriterion[];
+  onSubmit: (evaluations: JudgeEvaluation[]) => void;
+  i18n: ReturnType<typeof t>;
+}
+
+function UserJudgeInput({ conclusions, criteria, onSubmit, i18n }: UserJudgeInputProps): React.ReactElement {
+  const [scores, setScores] = useState<Record<string, Record<string, number>>>({});
+  const [feedback, setFeedback] = useState<Record<string, string>>({});
+  const isComplete = conclusions.every(c => criteria.every(criterion => scores[c.participantId]?.[criterion.name] !== undefined));
+
+  const setScore = (participantId: string, criterion: string, value: string) => {
+    const parsed = parseInt(value);
+    const participantScores = { ...scores[participantId] };
+    if (isNaN(parsed)) {
+      delete participantScores[criterion];
+    } else {
+      participantScores[criterion] = Math.min(JUDGE_SCORE_MAX, Math.max(JUDGE_SCORE_MIN, parsed));
+    }
+    setScores({ ...scores, [participantId]: participantScores });
+  };
+
+  const handleSubmit = () => {
+    onSubmit(conclusions.map(c => ({
+      participantId: c.participantId,
+      displayName: c.displayName,
+      scores: scores[c.participantId] || {},
+      feedback: feedback[c.participantId]?.trim() || "",
+    })));
+  };
+
+  return (
+    <div className="ronginus-user-vote-section">
+      <h3>{i18n.scoreConclusions}</h3>
+      {conclusions.map((conclusion) => (
+        <div key={conclusion.participantId} className="ronginus-judge-input">
+          <span className="ronginus-cli-badge small">{conclusion.displayName}</span>
+          <div className="ronginus-judge-scores">
+            {criteria.map((criterion) => (
+              <label key={criterion.name} title={criterion.description}>
+                {criterion.name}
+                <input
+                  type="number"
+                  min={JUDGE_SCORE_MIN}
+                  max={JUDGE_SCORE_MAX}
+                  value={scores[conclusion.participantId]?.[criterion.name] ?? ""}
+                  onChange={(e) => setScore(conclusion.participantId, criterion.name, e.target.value)}
+                />
+              </label>
+            ))}
+          </div>
+          <textarea
+            className="ronginus-user-input"
+            placeholder={i18n.judgeFeedbackPlaceholder}
+            value={feedback[conclusion.participantId] || ""}
+            onChange={(e) => setFeedback({ ...feedback, [conclusion.participantId]: e.target.value })}
+            rows={2}
+          />
+        </div>
+      ))}
+      <button
+        className="ronginus-submit-button mod-cta"
+        onClick={handleSubmit}
+        disabled={!isComplete}
+      >
+        {i18n.submitScores}
+      </button>
+    </div>
+  );
+}
+
+function ScoreboardTable({ judging, i18n }: { judging: JudgingResult; i18n: ReturnType<typeof t> }): React.ReactElement {
+  return (
+    <table className="ronginus-scoreboard">
+      <thead>
+        <tr>
+          <th></th>
+          {judging.criteria.map(criterion => (
+            <th key={criterion.name} title={criterion.description}>{criterion.name}</th>
+          ))}
+          <th>{i18n.scoreTotal}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {judging.scoreboard.map(entry => (
+          <tr key={entry.participantId}>
+            <td>{entry.displayName}</td>
+            {judging.criteria.map(criterion => (
+              <td key={criterion.name}>{entry.criterionScores[criterion.name] ?? "-"}</td>
+            ))}
+            <td><strong>{entry.total}</strong></td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function JudgeResultDisplay({ result, judge }: { result: JudgeResult; judge?: Voter }): React.ReactElement {
+  return (
+    <div className={`ronginus-response-card ${getTypeClass(judge?.type)}`}>
+      <div className="ronginus-response-header">
+        <span className={`ronginus-cli-badge ${getTypeClass(judge?.type)}`}>
+          {result.judgeDisplayName}
+        </span>
+      </div>
+      <div className="ronginus-response-content">
+        {result.error ? (
+          <span className="ronginus-error">{result.error}</span>
+        ) : (
+          result.evaluations.map(evaluation => (
+            <div key={evaluation.participantId} className="ronginus-judge-evaluation">
+              <strong>{evaluation.displayName}</strong>{" "}
+              <span className="ronginus-judge-evaluation-scores">
+                {Object.entries(evaluation.scores).map(([name, score]) => `${name} ${score}`).join(" · ")}
+              </span>
+              {evaluation.feedback && <div>{evaluation.feedback}</div>}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface UserBallotInputProps {
+  method: VotingMethod;
+  conclusions: DebateConclusion[];
+  onSubmit: (votedForId: string, reason: string, ballot: Pick<VoteResult, "ranking" | "approvals" | "scores">) => void;
+  i18n: ReturnType<typeof t>;
+}
+
+// Ballot for ranked-choice, Borda, approval and score voting
+function UserBallotInput({ method, conclusions, onSubmit, i18n }: UserBallotInputProps): React.ReactElement {
+  const [ranking, setRanking] = useState<string[]>(conclusions.map(c => c.participantId));
+  const [approvals, setApprovals] = useState<string[]>([]);
+  const [scores, setScores] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState("");
+  const ranked = isRankingMethod(method);
+  const getName = (id: string) => conclusions.find(c => c.participantId === id)?.displayName || id;
+
+  const move = (index: number, offset: number) => {
+    const next = [...ranking];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setRanking(next);
+  };
+
+  const toggleApproval = (id: string) => {
+    setApprovals(approvals.includes(id) ? approvals.filter(a => a !== id) : [...approvals, id]);
+  };
+
+  const setScore = (id: string, value: string) => {
+    const parsed = parseInt(value);
+    const next = { ...scores };
+    if (isNaN(parsed)) {
+      delete next[id];
+    } else {
+      next[id] = Math.min(VOTE_SCORE_MAX, Math.max(VOTE_SCORE_MIN, parsed));
+    }
+    setScores(next);
+  };
+
+  const isComplete = ranked
+    ? true
+    : method === "approval"
+      ? approvals.length > 0
+      : conclusions.every(c => scores[c.participantId] !== undefined);
+
+  const handleSubmit = () => {
+    if (ranked) {
+      onSubmit(ranking[0], reason, { ranking });
+    } else if (method === "approval") {
+      // Keep the approvals in conclusion order
+      const ordered = conclusions.map(c => c.participantId).filter(id => approvals.includes(id));
+      onSubmit(ordered[0], reason, { approvals: ordered });
+    } else {
+      const top = [...conclusions].sort((a, b) => scores[b.participantId] - scores[a.participantId])[0];
+      onSubmit(top.participantId, reason, { scores });
+    }
+  };
+
+  return (
+    <div className="ronginus-user-vote-section">
+      <h3>
+        {ranked ? i18n.rankConclusions : method === "approval" ? i18n.approveConclusions : i18n.scoreEachConclusion}
+      </h3>
+      <div className="ronginus-ballot">
+        {ranked && ranking.map((id, index) => (
+          <div key={id} className="ronginus-ballot-item">
+            <span className="ronginus-ballot-rank">{index + 1}.</span>
+            <span className="ronginus-cli-badge small">{getName(id)}</span>
+            <button onClick={() => move(index, -1)} disabled={index === 0} aria-label={i18n.moveUp}>↑</button>
+            <button onClick={() => move(index, 1)} disabled={index === ranking.length - 1} aria-label={i18n.moveDown}>↓</button>
+          </div>
+        ))}
+        {method === "approval" && conclusions.map(conclusion => (
+          <label key={conclusion.participantId} className="ronginus-ballot-item">
+            <input
+              type="checkbox"
+              checked={approvals.includes(conclusion.participantId)}
+              onChange={() => toggleApproval(conclusion.participantId)}
+            />
+            <span className="ronginus-cli-badge small">{conclusion.displayName}</span>
+          </label>
+        ))}
+        {method === "score" && conclusions.map(conclusion => (
+          <label key={conclusion.participantId} className="ronginus-ballot-item">
+            <span className="ronginus-cli-badge small">{conclusion.displayName}</span>
+            <input
+              type="number"
+              min={VOTE_SCORE_MIN}
+              max={VOTE_SCORE_MAX}
+              value={scores[conclusion.participantId] ?? ""}
+              onChange={(e) => setScore(conclusion.participantId, e.target.value)}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="ronginus-input-group">
+        <label>{i18n.voteReason}</label>
+        <input
+          type="text"
+          className="ronginus-vote-reason-input"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder={i18n.voteReason}
+        />
+      </div>
+      <button
+        className="ronginus-submit-button mod-cta"
+        onClick={handleSubmit}
+        disabled={!isComplete}
+      >
+        {i18n.submitVote}
+      </button>
+    </div>
+  );
+}
+
+// Round-by-round explanation of how the votes produced the winner
+function VoteTallyDisplay({ tally, conclusions, i18n }: {
+  tally: VoteTally;
+  conclusions: DebateConclusion[];
+  i18n: ReturnType<typeof t>;
+}): React.ReactElement {
+  const getName = (id: string) => conclusions.find(c => c.participantId === id)?.displayName || id;
+  return (
+    <div className="ronginus-vote-tally">
+      <h4>{i18n.tallyTitle}</h4>
+      <p className="ronginus-vote-tally-explanation">{i18n.tallyExplanation(tally.method, conclusions.length)}</p>
+      {tally.rounds.map((round, index) => (
+        <div key={index} className="ronginus-vote-tally-round">
+          {tally.rounds.length > 1 && <strong>{i18n.tallyRound(index + 1)}</strong>}
+          <ul>
+            {Object.entries(round.counts)
+              .sort(([, a], [, b]) => b - a)
+              .map(([id, count]) => (
+                <li key={id}>{getName(id)}: {count}</li>
+              ))}
+          </ul>
+          {round.eliminated.length > 0 && (
+            <span className="ronginus-vote-tally-eliminated">
+              {i18n.tallyEliminated(round.eliminated.map(getName).join(", "))}
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function VoteDisplay({ vote, conclusions, i18n }: {
+  vote: VoteResult;
+  conclusions: DebateConclusion[];
+  i18n: ReturnType<typeof t>;
+}): React.ReactElement {
+  const getName = (id: string) => conclusions.find(c => c.participantId === id)?.displayName || id;
+  // Full ballot beyond the top choice
+  const ballot = vote.ranking && vote.ranking.length > 1
+    ? vote.ranking.map((id, index) => `${index + 1}. ${getName(id)}`).join("  ")
+    : vote.approvals && vote.approvals.length > 1
+      ? vote.approvals.map(getName).join(", ")
+      : vote.scores
+        ? Object.entries(vote.scores).map(([id, score]) => `${getName(id)} ${score}`).join(" · ")
+        : undefined;
   return (
     <div className="ronginus-vote-item">
       <span className="ronginus-cli-badge small">
         {vote.voterDisplayName}
       </span>
       <span className="ronginus-vote-arrow">→</span>
-      <span className="ronginus-cli-badge small">
-        {vote.votedForDisplayName}
-      </span>
+      {vote.abstained ? (
+        <span className="ronginus-abstained-badge">{i18n.abstained}</span>
+      ) : (
+        <span className="ronginus-cli-badge small">
+          {vote.votedForDisplayName}
+        </span>
+      )}
+      {vote.weight !== undefined && vote.weight !== 1 && (
+        <span className="ronginus-vote-weight" title={i18n.voteWeight}>×{vote.weight}</span>
+      )}
+      {vote.confidence !== undefined && (
+        <span className="ronginus-vote-confidence" title={i18n.voteConfidence}>
+          {i18n.voteConfidence}: {Math.round(vote.confidence * 100)}%
+        </span>
+      )}
+      {ballot && (
+        <span className="ronginus-vote-ballot">{ballot}</span>
+      )}
       {vote.reason && (
         <span className="ronginus-vote-reason">{vote.reason}</span>
       )}
@@ -704,16 +1612,99 @@ function VoteDisplay({ vote }: { vote: VoteResult }): React.ReactElement {
   );
 }
 
+// One tie-break round: rebuttals or synthesis, the revote and its outcome
+function TieBreakDisplay({ round, index, conclusions, participants, i18n }: {
+  round: TieBreakRound;
+  index: number;
+  conclusions: DebateConclusion[];
+  participants: Participant[];
+  i18n: ReturnType<typeof t>;
+}): React.ReactElement {
+  const getName = (id: string) => conclusions.find(c => c.participantId === id)?.displayName || id;
+  const tiedConclusions = conclusions.filter(c => round.tiedIds.includes(c.participantId));
+  const policyLabel = round.policy === "rebuttal"
+    ? i18n.rebuttal
+    : round.policy === "synthesis"
+      ? i18n.synthesis
+      : round.policy === "user-vote" ? i18n.userVote : i18n.runoff;
+  return (
+    <div className="ronginus-tie-break-round">
+      <h4>{i18n.tieBreakRoundTitle(index + 1, policyLabel)}</h4>
+      <p className="ronginus-tie-break-tied">{i18n.tieBreakTied(round.tiedIds.map(getName).join(", "))}</p>
+      {round.rebuttals && round.rebuttals.length > 0 && (
+        <div className="ronginus-response-grid">
+          {round.rebuttals.map((response) => {
+            const participant = participants.find(p => p.id === response.participantId);
+            return (
+              <div key={response.participantId} className={`ronginus-response-card ${getTypeClass(participant?.type)}`}>
+                <div className="ronginus-response-header">
+                  <span className={`ronginus-cli-badge ${getTypeClass(participant?.type)}`}>
+                    {response.displayName}
+                  </span>
+                  <span className="ronginus-conclusion-badge">{i18n.rebuttal}</span>
+                </div>
+                <div className="ronginus-response-content">
+                  {response.error ? <span className="ronginus-error">{response.error}</span> : response.content}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {round.votes && round.votes.length > 0 && (
+        <div className="ronginus-votes-list">
+          {round.votes.map((vote, voteIndex) => (
+            <VoteDisplay key={voteIndex} vote={vote} conclusions={tiedConclusions} i18n={i18n} />
+          ))}
+        </div>
+      )}
+      {round.tally && (
+        <VoteTallyDisplay tally={round.tally} conclusions={tiedConclusions} i18n={i18n} />
+      )}
+      {round.synthesis && (
+        <div className="ronginus-response-card conclusion">
+          <div className="ronginus-response-header">
+            <span className="ronginus-cli-badge">{round.synthesis.displayName}</span>
+            <span className="ronginus-conclusion-badge">{i18n.synthesis}</span>
+          </div>
+          <div className="ronginus-response-content">
+            {round.synthesis.content}
+          </div>
+        </div>
+      )}
+      {round.error && (
+        <p className="ronginus-error-message">{round.error}</p>
+      )}
+      {round.decidedBy && (
+        <p className="ronginus-tie-break-tied">
+          {i18n.tieBreakDecidedBy(round.decidedBy)}: <strong>{getName(round.winnerIds[0])}</strong>
+        </p>
+      )}
+      {round.policy !== "synthesis" && round.winnerIds.length > 1 && (
+        <span className="ronginus-tie-break-still-tied">{i18n.tieBreakStillTied}</span>
+      )}
+    </div>
+  );
+}
+
 function getPhaseLabel(phase: string, i18n: ReturnType<typeof t>): string {
   switch (phase) {
     case "thinking":
       return i18n.thinking;
     case "turn_complete":
       return i18n.turnComplete;
+    case "moderating":
+      return i18n.moderating;
+    case "checking":
+      return i18n.checking;
     case "concluding":
       return i18n.concluding;
     case "voting":
       return i18n.voting;
+    case "judging":
+      return i18n.judging;
+    case "tie_break":
+      return i18n.tieBreaking;
     case "complete":
       return i18n.complete;
     case "error":
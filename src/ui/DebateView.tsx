@@ -3,14 +3,17 @@ import * as React from "react";
 import { createRoot, Root } from "react-dom/client";
 import type RonginusPlugin from "../plugin";
 import { DebatePanel } from "./DebatePanel";
-import type { DebateState, DebateResult, Participant, Voter, ParticipantType } from "../types";
-import { DebateEngine, UserInputRequest, UserInputResponse } from "../core/debateEngine";
+import type { DebateFormat, DebateState, DebateResult, JudgeEvaluation, Participant, VoteResult, Voter, VotingMethod, ParticipantType, CliConfig, ParticipantFailureAction } from "../types";
+import { formatParticipantName, getUserDefinedProviderName, getVerifiedUserDefinedProviders } from "../types";
+import { DebateEngine, ParticipantFailureDecision, UserInputRequest, UserInputResponse } from "../core/debateEngine";
+import { createVaultFixtureRecorder } from "../core/cliFixture";
+import { createSecretStore, withProviderSecrets } from "../core/providerEnv";
 import { t } from "../i18n";
 
 export const VIEW_TYPE_DEBATE = "ronginus-debate-view";
 
 // Helper to get base display name for a participant type
-function getBaseDisplayName(type: ParticipantType): string {
+function getBaseDisplayName(type: ParticipantType, cliConfig: CliConfig): string {
   switch (type) {
     case "gemini-cli":
       return "Gemini";
@@ -18,10 +21,12 @@ function getBaseDisplayName(type: ParticipantType): string {
       return "Claude";
     case "codex-cli":
       return "Codex";
+    case "fake-cli":
+      return "Fake";
     case "user":
       return t().user;
     default:
-      return type;
+      return getUserDefinedProviderName(cliConfig, type) || type;
   }
 }
 
@@ -32,6 +37,7 @@ export class DebateView extends ItemView {
   private state: DebateState = this.getInitialState();
   private panelKey: number = 0;
   private userInputResolver: ((response: UserInputResponse) => void) | null = null;
+  private failureResolvers = new Map<string, (decision: ParticipantFailureDecision) => void>();
 
   constructor(leaf: WorkspaceLeaf, plugin: RonginusPlugin) {
     super(leaf);
@@ -46,21 +52,28 @@ export class DebateView extends ItemView {
       participants.push({
         id: "gemini-cli-1",
         type: "gemini-cli",
-        displayName: getBaseDisplayName("gemini-cli"),
+        displayName: getBaseDisplayName("gemini-cli", cliConfig),
       });
     }
     if (cliConfig.claudeVerified) {
       participants.push({
         id: "claude-cli-1",
         type: "claude-cli",
-        displayName: getBaseDisplayName("claude-cli"),
+        displayName: getBaseDisplayName("claude-cli", cliConfig),
       });
     }
     if (cliConfig.codexVerified) {
       participants.push({
         id: "codex-cli-1",
         type: "codex-cli",
-        displayName: getBaseDisplayName("codex-cli"),
+        displayName: getBaseDisplayName("codex-cli", cliConfig),
+      });
+    }
+    for (const { type } of getVerifiedUserDefinedProviders(cliConfig)) {
+      participants.push({
+        id: `${type}-1`,
+        type,
+        displayName: getBaseDisplayName(type, cliConfig),
       });
     }
 
@@ -73,7 +86,10 @@ export class DebateView extends ItemView {
       return participants.map(p => ({
         id: `${p.type}-voter-${p.id}`,
         type: p.type,
-        displayName: getBaseDisplayName(p.type),
+        displayName: formatParticipantName(getBaseDisplayName(p.type, this.plugin.settings.cliConfig), p.model),
+        model: p.model,
+        extraArgs: p.extraArgs,
+        participantId: p.id,
       }));
     }
 
@@ -85,21 +101,28 @@ export class DebateView extends ItemView {
       voters.push({
         id: "gemini-cli-voter-1",
         type: "gemini-cli",
-        displayName: getBaseDisplayName("gemini-cli"),
+        displayName: getBaseDisplayName("gemini-cli", cliConfig),
       });
     }
     if (cliConfig.claudeVerified) {
       voters.push({
         id: "claude-cli-voter-1",
         type: "claude-cli",
-        displayName: getBaseDisplayName("claude-cli"),
+        displayName: getBaseDisplayName("claude-cli", cliConfig),
       });
     }
     if (cliConfig.codexVerified) {
       voters.push({
         id: "codex-cli-voter-1",
         type: "codex-cli",
-        displayName: getBaseDisplayName("codex-cli"),
+        displayName: getBaseDisplayName("codex-cli", cliConfig),
+      });
+    }
+    for (const { type } of getVerifiedUserDefinedProviders(cliConfig)) {
+      voters.push({
+        id: `${type}-voter-1`,
+        type,
+        displayName: getBaseDisplayName(type, cliConfig),
       });
     }
 
@@ -115,15 +138,25 @@ export class DebateView extends ItemView {
       turns: [],
       conclusions: [],
       votes: [],
+      votingMethod: "plurality",
       winnerId: null,
       winnerIds: [],
       isDraw: false,
       finalConclusion: "",
+      adaptive: false,
       streamingResponses: new Map(),
+      retrying: new Map(),
+      queued: new Set(),
+      pendingFailures: [],
+      format: "parallel",
+      speakingParticipantId: null,
       startTime: undefined,
       endTime: undefined,
       debateParticipants: [],
       voteParticipants: [],
+      judgeParticipants: [],
+      judgeResults: [],
+      tieBreaks: [],
     };
   }
 
@@ -169,14 +202,19 @@ export class DebateView extends ItemView {
         key={this.panelKey}
         state={this.state}
         settings={this.plugin.settings}
-        onStartDebate={(theme, turns, debateParticipants, voteParticipants) => {
-          void this.startDebate(theme, turns, debateParticipants, voteParticipants);
+        onStartDebate={(theme, turns, debateParticipants, voteParticipants, format, moderator, judges, votingMethod, adaptive) => {
+          void this.startDebate(theme, turns, debateParticipants, voteParticipants, format, moderator, judges, votingMethod, adaptive);
         }}
         onStopDebate={() => this.stopDebate()}
         onSaveNote={() => { void this.saveNote(); }}
         onReset={() => this.resetDebate()}
         onUserDebateInput={(content) => this.handleUserDebateInput(content)}
-        onUserVoteInput={(votedForId, reason) => this.handleUserVoteInput(votedForId, reason)}
+        onUserVoteInput={(votedForId, reason, ballot) => this.handleUserVoteInput(votedForId, reason, ballot)}
+        onUserModeratorInput={(content, converged) => this.handleUserModeratorInput(content, converged)}
+        onUserJudgeInput={(evaluations) => this.handleUserJudgeInput(evaluations)}
+        onParticipantFailureDecision={(participantId, action, replacementType) =>
+          this.handleParticipantFailureDecision(participantId, action, replacementType)
+        }
       />
     );
   }
@@ -186,6 +224,13 @@ export class DebateView extends ItemView {
     this.renderPanel();
   }
 
+  private clearRetrying(participantId: string): void {
+    if (!this.state.retrying.has(participantId)) return;
+    const retrying = new Map(this.state.retrying);
+    retrying.delete(participantId);
+    this.updateState({ retrying });
+  }
+
   private handleUserDebateInput(content: string): void {
     if (this.userInputResolver) {
       this.userInputResolver({ content });
@@ -194,19 +239,69 @@ export class DebateView extends ItemView {
     }
   }
 
-  private handleUserVoteInput(votedForId: string, reason: string): void {
+  private handleUserVoteInput(
+    votedForId: string,
+    reason: string,
+    ballot?: Pick<VoteResult, "ranking" | "approvals" | "scores">
+  ): void {
+    if (this.userInputResolver) {
+      this.userInputResolver({ content: "", votedForId, reason, ...ballot });
+      this.userInputResolver = null;
+      this.updateState({ pendingUserInput: undefined });
+    }
+  }
+
+  private handleUserModeratorInput(content: string, converged: boolean): void {
+    if (this.userInputResolver) {
+      this.userInputResolver({ content, converged });
+      this.userInputResolver = null;
+      this.updateState({ pendingUserInput: undefined });
+    }
+  }
+
+  private handleUserJudgeInput(evaluations: JudgeEvaluation[]): void {
     if (this.userInputResolver) {
-      this.userInputResolver({ content: "", votedForId, reason });
+      this.userInputResolver({ content: "", evaluations });
       this.userInputResolver = null;
       this.updateState({ pendingUserInput: undefined });
     }
   }
 
+  private handleParticipantFailureDecision(
+    participantId: string,
+    action: ParticipantFailureAction,
+    replacementType?: ParticipantType
+  ): void {
+    const resolver = this.failureResolvers.get(participantId);
+    if (resolver) {
+      this.failureResolvers.delete(participantId);
+      this.updateState({
+        pendingFailures: this.state.pendingFailures.filter(r => r.participantId !== participantId),
+      });
+      resolver({ action, replacementType });
+    }
+  }
+
+  /**
+   * Release the engine from any pending failure decisions (used when stopping)
+   */
+  private resolvePendingFailures(): void {
+    for (const resolver of this.failureResolvers.values()) {
+      resolver({ action: "continue" });
+    }
+    this.failureResolvers.clear();
+  }
+
   private async startDebate(
     theme: string,
     turns: number,
     debateParticipants: Participant[],
-    voteParticipants: Voter[]
+    voteParticipants: Voter[],
+    format: DebateFormat,
+    moderator?: Participant,
+    judges: Voter[] = [],
+    votingMethod: VotingMethod = "plurality",
+    adaptive = false
   ): Promise<void> {
     const i18n = t();
     if (!theme.trim()) {
@@ -222,7 +317,13 @@ export class DebateView extends ItemView {
 
     // Use vault root as working directory
     const vaultPath = (this.app.vault.adapter as { basePath?: string }).basePath || "";
-    this.debateEngine = new DebateEngine(this.plugin.settings, vaultPath);
+    const settings = this.plugin.settings;
+    const fixtureRecorder = settings.developerMode && settings.captureCliOutput
+      ? createVaultFixtureRecorder(this.app.vault, settings.fixtureFolder)
+      : undefined;
+    // Secret environment values are merged in memory only, never into the saved settings
+    const cliConfig = withProviderSecrets(settings.cliConfig, createSecretStore(this.app));
+    this.debateEngine = new DebateEngine({ ...settings, cliConfig }, vaultPath, fixtureRecorder);
 
     this.updateState({
       phase: "thinking",
@@ -232,16 +333,34 @@ export class DebateView extends ItemView {
       turns: [],
       conclusions: [],
       votes: [],
+      votingMethod,
+      voteTally: undefined,
       winnerId: null,
       winnerIds: [],
       isDraw: false,
       finalConclusion: "",
+      adaptive,
+      stopReason: undefined,
+      stopDetail: undefined,
+      adaptiveTurns: undefined,
       error: undefined,
       streamingResponses: new Map(),
+      retrying: new Map(),
+      queued: new Set(),
+      pendingFailures: [],
+      format,
+      speakingParticipantId: null,
+      usage: undefined,
+      usageByParticipant: undefined,
       startTime: undefined,
       endTime: undefined,
       debateParticipants,
       voteParticipants,
+      moderator,
+      judgeParticipants: judges,
+      judgeResults: [],
+      tieBreaks: [],
+      judging: undefined,
     });
 
     this.debateEngine.setCallbacks({
@@ -252,19 +371,66 @@ export class DebateView extends ItemView {
         this.updateState({
           currentTurn: turnNumber,
           streamingResponses: new Map(),
+          retrying: new Map(),
+          pendingFailures: [],
         });
       },
+      onSpeakerChange: (participantId) => {
+        this.updateState({ speakingParticipantId: participantId });
+      },
       onResponseStream: (participantId, content) => {
         const newMap = new Map(this.state.streamingResponses);
         newMap.set(participantId, content);
         this.updateState({ streamingResponses: newMap });
       },
+      onResponseComplete: (participantId) => {
+        this.clearRetrying(participantId);
+      },
+      onRetry: (participantId, attempt, maxAttempts) => {
+        const retrying = new Map(this.state.retrying);
+        retrying.set(participantId, { attempt, maxAttempts });
+        const streamingResponses = new Map(this.state.streamingResponses);
+        if (streamingResponses.has(participantId)) {
+          streamingResponses.set(participantId, "");
+        }
+        this.updateState({ retrying, streamingResponses });
+      },
+      onQueueChange: (participantId, queued) => {
+        const queuedIds = new Set(this.state.queued);
+        if (queued) {
+          queuedIds.add(participantId);
+        } else {
+          queuedIds.delete(participantId);
+        }
+        this.updateState({ queued: queuedIds });
+      },
       onTurnComplete: (turn) => {
         this.updateState({
           turns: [...this.state.turns, turn],
           streamingResponses: new Map(),
         });
       },
+      onModerationComplete: (turnNumber, summary) => {
+        const streamingResponses = new Map(this.state.streamingResponses);
+        streamingResponses.delete(summary.moderatorId);
+        this.updateState({
+          turns: this.state.turns.map(turn =>
+            turn.turnNumber === turnNumber ? { ...turn, moderation: summary } : turn
+          ),
+          streamingResponses,
+        });
+        this.clearRetrying(summary.moderatorId);
+      },
+      onTotalTurnsChange: (totalTurns) => {
+        this.updateState({ totalTurns });
+      },
+      onConvergenceCheck: (turnNumber, check) => {
+        this.updateState({
+          turns: this.state.turns.map(turn =>
+            turn.turnNumber === turnNumber ? { ...turn, convergence: check } : turn
+          ),
+        });
+      },
       onConclusionStream: (participantId, content) => {
         const newMap = new Map(this.state.streamingResponses);
         newMap.set(participantId, content);
@@ -274,21 +440,47 @@ export class DebateView extends ItemView {
         this.updateState({
           conclusions: [...this.state.conclusions, conclusion],
         });
+        this.clearRetrying(conclusion.participantId);
       },
       onVoteComplete: (vote) => {
         this.updateState({
           votes: [...this.state.votes, vote],
         });
+        this.clearRetrying(vote.voterId);
+      },
+      onJudgeComplete: (result) => {
+        this.updateState({
+          judgeResults: [...this.state.judgeResults, result],
+        });
+        this.clearRetrying(result.judgeId);
+      },
+      onJudgingComplete: (judging) => {
+        this.updateState({ judging });
+      },
+      onTieBreakComplete: (round) => {
+        this.updateState({
+          tieBreaks: [...this.state.tieBreaks, round],
+          streamingResponses: new Map(),
+        });
+      },
+      onUsage: (_participantId, _usage, total) => {
+        this.updateState({ usage: total });
       },
       onDebateComplete: (result) => {
         this.updateState({
           phase: "complete",
+          voteTally: result.voteTally,
           winnerId: result.winnerId,
           winnerIds: result.winnerIds,
           isDraw: result.isDraw,
           finalConclusion: result.finalConclusion,
+          stopReason: result.stopReason,
+          stopDetail: result.stopDetail,
+          adaptiveTurns: result.adaptiveTurns,
           startTime: result.startTime,
           endTime: result.endTime,
+          usage: result.totalUsage,
+          usageByParticipant: result.usageByParticipant,
         });
       },
       onError: (error) => {
@@ -309,15 +501,37 @@ export class DebateView extends ItemView {
               type: request.type,
               participantId: request.participantId,
               role: request.role,
+              candidateIds: request.candidates?.map(c => c.id),
             },
             currentParticipantId: request.participantId,
           });
         });
       },
+      onParticipantFailure: async (request) => {
+        return new Promise((resolve) => {
+          this.failureResolvers.set(request.response.participantId, resolve);
+          this.updateState({
+            pendingFailures: [...this.state.pendingFailures, request.response],
+          });
+        });
+      },
+      onParticipantsChange: (participants) => {
+        this.updateState({ debateParticipants: participants });
+      },
     });
 
     try {
-      await this.debateEngine.runDebate(theme, turns, debateParticipants, voteParticipants);
+      await this.debateEngine.runDebate(
+        theme,
+        turns,
+        debateParticipants,
+        voteParticipants,
+        format,
+        moderator,
+        judges,
+        votingMethod,
+        adaptive
+      );
     } catch (error) {
       if (error instanceof Error && error.name === "AbortError") {
         return;
@@ -329,7 +543,8 @@ export class DebateView extends ItemView {
   private stopDebate(): void {
     this.debateEngine?.stop();
     this.userInputResolver = null;
-    this.updateState({ phase: "idle", pendingUserInput: undefined });
+    this.resolvePendingFailures();
+    this.updateState({ phase: "idle", pendingUserInput: undefined, pendingFailures: [] });
     new Notice(t().debateStopped);
   }
 
@@ -342,9 +557,11 @@ export class DebateView extends ItemView {
 
     const result: DebateResult = {
       theme: this.state.theme,
+      format: this.state.format,
       turns: this.state.turns,
       conclusions: this.state.conclusions,
       votes: this.state.votes,
+      voteTally: this.state.voteTally,
       winnerId: this.state.winnerId,
       winnerIds: this.state.winnerIds,
       isDraw: this.state.isDraw,
@@ -353,6 +570,14 @@ export class DebateView extends ItemView {
       endTime: this.state.endTime ?? Date.now(),
       debateParticipants: this.state.debateParticipants,
       voteParticipants: this.state.voteParticipants,
+      moderator: this.state.moderator,
+      judging: this.state.judging,
+      tieBreaks: this.state.tieBreaks.length > 0 ? this.state.tieBreaks : undefined,
+      stopReason: this.state.stopReason,
+      stopDetail: this.state.stopDetail,
+      adaptiveTurns: this.state.adaptiveTurns,
+      usageByParticipant: this.state.usageByParticipant || {},
+      totalUsage: this.state.usage || { inputTokens: 0, outputTokens: 0, cachedTokens: 0 },
     };
 
     const markdown = DebateEngine.generateMarkdownNote(result);
@@ -387,6 +612,7 @@ export class DebateView extends ItemView {
   private resetDebate(): void {
     this.debateEngine?.stop();
     this.userInputResolver = null;
+    this.resolvePendingFailures();
     const defaultParticipants = this.getDefaultParticipants();
     this.state = {
       ...this.getInitialState(),
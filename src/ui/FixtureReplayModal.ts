@@ -0,0 +1,91 @@
+import { App, FuzzySuggestModal, Modal, Notice, TFile } from "obsidian";
+import { parseCliFixture, replayCliFixture } from "../core/cliFixture";
+import type { CliConfig, CliFixture, StreamChunk } from "../types";
+import { t } from "../i18n";
+
+/**
+ * Pick a captured fixture from the fixture folder and replay it
+ */
+export class FixtureSuggestModal extends FuzzySuggestModal<TFile> {
+  private folder: string;
+  private cliConfig: CliConfig;
+
+  constructor(app: App, folder: string, cliConfig: CliConfig) {
+    super(app);
+    this.folder = folder;
+    this.cliConfig = cliConfig;
+    this.setPlaceholder(t().selectFixture);
+  }
+
+  getItems(): TFile[] {
+    const prefix = this.folder.replace(/\/+$/, "") + "/";
+    return this.app.vault.getFiles()
+      .filter(file => file.extension === "json" && file.path.startsWith(prefix))
+      .sort((a, b) => b.stat.mtime - a.stat.mtime);
+  }
+
+  getItemText(file: TFile): string {
+    return file.basename;
+  }
+
+  onChooseItem(file: TFile): void {
+    void this.replay(file);
+  }
+
+  private async replay(file: TFile): Promise<void> {
+    const i18n = t();
+    try {
+      const fixture = parseCliFixture(await this.app.vault.read(file));
+      const chunks = await replayCliFixture(fixture, this.cliConfig);
+      new FixtureReplayModal(this.app, file.path, fixture, chunks).open();
+    } catch (error) {
+      new Notice(i18n.fixtureReplayFailed((error as Error).message));
+    }
+  }
+}
+
+/**
+ * Show the chunks the provider parser produced from a fixture
+ */
+class FixtureReplayModal extends Modal {
+  private path: string;
+  private fixture: CliFixture;
+  private chunks: StreamChunk[];
+
+  constructor(app: App, path: string, fixture: CliFixture, chunks: StreamChunk[]) {
+    super(app);
+    this.path = path;
+    this.fixture = fixture;
+    this.chunks = chunks;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    const i18n = t();
+    contentEl.addClass("ronginus-fixture-replay-modal");
+    contentEl.createEl("h2", { text: i18n.fixtureReplay });
+
+    const info = contentEl.createDiv({ cls: "ronginus-fixture-info" });
+    info.createDiv({ text: this.path });
+    info.createDiv({ text: [this.fixture.command, ...this.fixture.args].join(" ") });
+    info.createDiv({ text: i18n.fixtureExitCode(this.fixture.exitCode) });
+
+    const text = this.chunks
+      .filter(chunk => chunk.type === "text")
+      .map(chunk => chunk.content || "")
+      .join("");
+    contentEl.createEl("h3", { text: i18n.fixtureParsedText });
+    contentEl.createEl("pre", { text: text || i18n.fixtureNoText, cls: "ronginus-fixture-output" });
+
+    contentEl.createEl("h3", { text: i18n.fixtureChunks(this.chunks.length) });
+    contentEl.createEl("pre", {
+      text: this.chunks.map(chunk => JSON.stringify(chunk)).join("\n"),
+      cls: "ronginus-fixture-output",
+    });
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
@@ -1,34 +1,207 @@
 import { App, PluginSettingTab, Setting, Notice, Modal } from "obsidian";
 import type RonginusPlugin from "../plugin";
-import {
-  verifyGeminiCli,
-  verifyClaudeCli,
-  verifyCodexCli,
-  validateCliPath,
-  isWindows,
-} from "../core/cliProvider";
-import { DEFAULT_CLI_CONFIG, countVerifiedClis } from "../types";
+import { verifyProvider, validateCliPath, isWindows } from "../core/cliProvider";
+import { createSecretStore, formatEnvLines, getApiKeySecretId, getEnvSecretId, parseEnvLines, withProviderSecrets } from "../core/providerEnv";
+import { DEFAULT_CLI_CONFIG, DEFAULT_FAKE_PROVIDER_CONFIG, DEFAULT_SAFETY_LEVEL, DEFAULT_SETTINGS, countVerifiedClis, getSafetyLevel, getVerifiedUserDefinedProviders, toCustomCliType, toHttpCliType } from "../types";
+import type {
+  AdaptiveTurnsConfig,
+  BuiltinCliType,
+  CliConfig,
+  CustomCliType,
+  CustomOutputMode,
+  CustomProviderConfig,
+  FakeProviderConfig,
+  HttpCliType,
+  HttpProviderConfig,
+  PromptDelivery,
+  ProviderCapabilities,
+  ProviderOptions,
+  SafetyLevel,
+  TieBreakConfig,
+  TieBreakPolicy,
+} from "../types";
 import { t } from "../i18n";
 
 type CliType = "gemini" | "claude" | "codex";
 
+/**
+ * Add the per-provider response timeout field to a provider modal
+ */
+function addTimeoutSetting(containerEl: HTMLElement, options: ProviderOptions): void {
+  const i18n = t();
+  new Setting(containerEl)
+    .setName(i18n.providerTimeout)
+    .setDesc(i18n.providerTimeoutDesc)
+    .addText((text) => {
+      text
+        .setValue(options.timeoutSeconds !== undefined ? String(options.timeoutSeconds) : "")
+        .onChange((value) => {
+          const seconds = parseInt(value, 10);
+          options.timeoutSeconds = Number.isNaN(seconds) || seconds < 0 ? undefined : seconds;
+        });
+      text.inputEl.type = "number";
+      text.inputEl.min = "0";
+    });
+}
+
+/**
+ * Add the file access (safety level) dropdown to a provider modal
+ */
+function addSafetySetting(
+  containerEl: HTMLElement,
+  options: ProviderOptions,
+  custom = false,
+  onChange?: () => void
+): void {
+  const i18n = t();
+  new Setting(containerEl)
+    .setName(i18n.safetyLevel)
+    .setDesc(custom ? i18n.customSafetyLevelDesc : i18n.safetyLevelDesc)
+    .addDropdown((dropdown) => {
+      dropdown.addOption("isolated", i18n.safetyIsolated);
+      if (!custom) {
+        dropdown.addOption("read-only", i18n.safetyReadOnly);
+      }
+      dropdown
+        .addOption("write", i18n.safetyWrite)
+        .setValue(options.safety === "write" ? "write" : custom ? "isolated" : options.safety || DEFAULT_SAFETY_LEVEL)
+        .onChange((value) => {
+          options.safety = value as SafetyLevel;
+          onChange?.();
+        });
+    });
+}
+
+/**
+ * Add the per-provider concurrency cap field to a provider modal
+ */
+function addConcurrencySetting(containerEl: HTMLElement, options: ProviderOptions): void {
+  const i18n = t();
+  new Setting(containerEl)
+    .setName(i18n.providerMaxConcurrent)
+    .setDesc(i18n.providerMaxConcurrentDesc)
+    .addText((text) => {
+      text
+        .setValue(options.maxConcurrent !== undefined ? String(options.maxConcurrent) : "")
+        .onChange((value) => {
+          const count = parseInt(value, 10);
+          options.maxConcurrent = Number.isNaN(count) || count < 1 ? undefined : count;
+        });
+      text.inputEl.type = "number";
+      text.inputEl.min = "1";
+    });
+}
+
+// Shown in place of stored secret values; a line left at the mask keeps its stored value
+const SECRET_MASK = "********";
+
+/**
+ * Add the working directory and environment variable fields to a provider modal.
+ * Secret values typed here are collected in secretValues until the modal is saved.
+ * Returns a function that disables the working directory while isolated() holds (call it when the safety level changes).
+ */
+function addEnvironmentSettings(
+  app: App,
+  containerEl: HTMLElement,
+  options: ProviderOptions,
+  secretValues: Record<string, string>,
+  isolated: () => boolean
+): () => void {
+  const i18n = t();
+  const workingDirectory = new Setting(containerEl)
+    .setName(i18n.providerWorkingDirectory)
+    .addText((text) =>
+      text
+        .setValue(options.workingDirectory || "")
+        .onChange((value) => {
+          options.workingDirectory = value.trim() || undefined;
+        })
+    );
+  // Isolated runs always start in an empty temporary folder, so the field would have no effect
+  const refreshWorkingDirectory = () => {
+    const disabled = isolated();
+    workingDirectory
+      .setDesc(disabled ? i18n.providerWorkingDirectoryIsolated : i18n.providerWorkingDirectoryDesc)
+      .setDisabled(disabled);
+  };
+  refreshWorkingDirectory();
+
+  new Setting(containerEl)
+    .setName(i18n.providerEnv)
+    .setDesc(i18n.providerEnvDesc)
+    .addTextArea((text) => {
+      text
+        .setPlaceholder(i18n.providerEnvPlaceholder)
+        .setValue(formatEnvLines(options.env))
+        .onChange((value) => {
+          const env = parseEnvLines(value);
+          options.env = Object.keys(env).length > 0 ? env : undefined;
+        });
+      text.inputEl.rows = 3;
+      text.inputEl.addClass("ronginus-env-textarea");
+    });
+
+  // Without secret storage every value has to go into the plain variables above
+  if (!createSecretStore(app)) return refreshWorkingDirectory;
+
+  new Setting(containerEl)
+    .setName(i18n.providerSecretEnv)
+    .setDesc(i18n.providerSecretEnvDesc)
+    .addTextArea((text) => {
+      text
+        .setPlaceholder(i18n.providerSecretEnvPlaceholder)
+        .setValue((options.secretEnv || []).map(name => `${name}=${SECRET_MASK}`).join("\n"))
+        .onChange((value) => {
+          const env = parseEnvLines(value);
+          for (const name of Object.keys(secretValues)) {
+            delete secretValues[name];
+          }
+          for (const [name, secret] of Object.entries(env)) {
+            if (secret !== SECRET_MASK) secretValues[name] = secret;
+          }
+          const names = Object.keys(env);
+          options.secretEnv = names.length > 0 ? names : undefined;
+        });
+      text.inputEl.rows = 3;
+      text.inputEl.addClass("ronginus-env-textarea");
+    });
+  return refreshWorkingDirectory;
+}
+
 /**
  * Modal for CLI path configuration
  */
 class CliPathModal extends Modal {
   private cliType: CliType;
+  private capabilities?: ProviderCapabilities;
   private currentPath: string;
-  private onSave: (path: string | undefined) => void | Promise<void>;
+  private savedOptions: ProviderOptions;
+  private options: ProviderOptions;
+  private secretValues: Record<string, string> = {};
+  private onSave: (
+    path: string | undefined,
+    options: ProviderOptions,
+    secretValues: Record<string, string>
+  ) => void | Promise<void>;
 
   constructor(
     app: App,
     cliType: CliType,
+    capabilities: ProviderCapabilities | undefined,
     currentPath: string | undefined,
-    onSave: (path: string | undefined) => void | Promise<void>
+    options: ProviderOptions | undefined,
+    onSave: (
+      path: string | undefined,
+      options: ProviderOptions,
+      secretValues: Record<string, string>
+    ) => void | Promise<void>
   ) {
     super(app);
     this.cliType = cliType;
+    this.capabilities = capabilities;
     this.currentPath = currentPath || "";
+    this.savedOptions = { ...options };
+    this.options = { ...options };
     this.onSave = onSave;
   }
 
@@ -62,6 +235,28 @@ class CliPathModal extends Modal {
     const noteEl = contentEl.createDiv({ cls: "ronginus-cli-path-note" });
     noteEl.textContent = isWindows() ? i18n.cliPathNoteWindows : i18n.cliPathNoteUnix;
 
+    new Setting(contentEl)
+      .setName(i18n.promptDelivery)
+      .setDesc(i18n.promptDeliveryDesc)
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("auto", i18n.promptDeliveryAuto)
+          .addOption("stdin", i18n.promptDeliveryStdin)
+          .addOption("argv", i18n.promptDeliveryArgv)
+          .setValue(this.options.promptDelivery || "auto")
+          .onChange((value) => {
+            this.options.promptDelivery = value as PromptDelivery;
+          })
+      );
+
+    let refreshWorkingDirectory = () => {};
+    addSafetySetting(contentEl, this.options, false, () => refreshWorkingDirectory());
+    addTimeoutSetting(contentEl, this.options);
+    addConcurrencySetting(contentEl, this.options);
+    refreshWorkingDirectory = addEnvironmentSettings(this.app, contentEl, this.options, this.secretValues, () =>
+      getSafetyLevel(`${this.cliType}-cli`, this.options, this.capabilities) === "isolated"
+    );
+
     new Setting(contentEl)
       .addButton((btn) =>
         btn.setButtonText(i18n.clear).onClick(() => {
@@ -97,12 +292,279 @@ class CliPathModal extends Modal {
         return;
       }
     }
-    void this.onSave(path || undefined);
+    void this.onSave(path || undefined, this.options, this.secretValues);
     this.close();
   }
 
+  // Clears only the path; option edits made in the modal are discarded like Cancel does
   private async clear() {
-    await this.onSave(undefined);
+    await this.onSave(undefined, this.savedOptions, {});
+    this.close();
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+/**
+ * Modal for adding or editing a custom command provider
+ */
+class CustomProviderModal extends Modal {
+  private config: CustomProviderConfig;
+  private options: ProviderOptions;
+  private secretValues: Record<string, string> = {};
+  private onSave: (
+    config: CustomProviderConfig,
+    options: ProviderOptions,
+    secretValues: Record<string, string>
+  ) => void | Promise<void>;
+
+  constructor(
+    app: App,
+    config: CustomProviderConfig | undefined,
+    options: ProviderOptions | undefined,
+    onSave: (
+      config: CustomProviderConfig,
+      options: ProviderOptions,
+      secretValues: Record<string, string>
+    ) => void | Promise<void>
+  ) {
+    super(app);
+    this.config = config
+      ? { ...config }
+      : {
+        id: `cmd-${Date.now().toString(36)}`,
+        displayName: "",
+        command: "",
+        argsTemplate: "{prompt}",
+        outputMode: "text",
+        verified: false,
+      };
+    this.options = { ...options };
+    this.onSave = onSave;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    const i18n = t();
+    contentEl.addClass("ronginus-custom-provider-modal");
+    contentEl.createEl("h2", { text: this.config.displayName ? i18n.editCustomProvider : i18n.addCustomProvider });
+
+    new Setting(contentEl)
+      .setName(i18n.customProviderName)
+      .addText((text) =>
+        text
+          .setPlaceholder("Aider")
+          .setValue(this.config.displayName)
+          .onChange((value) => {
+            this.config.displayName = value;
+          })
+      );
+
+    new Setting(contentEl)
+      .setName(i18n.customProviderCommand)
+      .setDesc(i18n.customProviderCommandDesc)
+      .addText((text) =>
+        text
+          .setPlaceholder("/usr/local/bin/ollama")
+          .setValue(this.config.command)
+          .onChange((value) => {
+            this.config.command = value;
+          })
+      );
+
+    new Setting(contentEl)
+      .setName(i18n.customProviderArgs)
+      .setDesc(i18n.customProviderArgsDesc)
+      .addText((text) =>
+        text
+          .setPlaceholder("run llama3 {prompt}")
+          .setValue(this.config.argsTemplate)
+          .onChange((value) => {
+            this.config.argsTemplate = value;
+          })
+      );
+
+    new Setting(contentEl)
+      .setName(i18n.customProviderOutputMode)
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("text", i18n.outputModeText)
+          .addOption("jsonl", i18n.outputModeJsonl)
+          .setValue(this.config.outputMode)
+          .onChange((value) => {
+            this.config.outputMode = value as CustomOutputMode;
+          })
+      );
+
+    new Setting(contentEl)
+      .setName(i18n.customProviderJsonPath)
+      .setDesc(i18n.customProviderJsonPathDesc)
+      .addText((text) =>
+        text
+          .setValue(this.config.jsonTextPath || "")
+          .onChange((value) => {
+            this.config.jsonTextPath = value || undefined;
+          })
+      );
+
+    let refreshWorkingDirectory = () => {};
+    addSafetySetting(contentEl, this.options, true, () => refreshWorkingDirectory());
+    addTimeoutSetting(contentEl, this.options);
+    addConcurrencySetting(contentEl, this.options);
+    refreshWorkingDirectory = addEnvironmentSettings(this.app, contentEl, this.options, this.secretValues, () =>
+      getSafetyLevel(toCustomCliType(this.config.id), this.options) === "isolated"
+    );
+
+    new Setting(contentEl)
+      .addButton((btn) =>
+        btn.setButtonText(i18n.cancel).onClick(() => {
+          this.close();
+        })
+      )
+      .addButton((btn) =>
+        btn
+          .setButtonText(i18n.save)
+          .setCta()
+          .onClick(() => {
+            this.save();
+          })
+      );
+  }
+
+  private save() {
+    const i18n = t();
+    const displayName = this.config.displayName.trim();
+    const command = this.config.command.trim();
+    if (!displayName || !command) {
+      new Notice(i18n.customProviderRequired);
+      return;
+    }
+    // Changing the invocation requires verifying again
+    void this.onSave({ ...this.config, displayName, command, verified: false }, this.options, this.secretValues);
+    this.close();
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
+/**
+ * Modal for adding or editing an OpenAI-compatible HTTP provider
+ */
+class HttpProviderModal extends Modal {
+  private config: HttpProviderConfig;
+  private options: ProviderOptions;
+  private onSave: (config: HttpProviderConfig, options: ProviderOptions) => void | Promise<void>;
+
+  constructor(
+    app: App,
+    config: HttpProviderConfig | undefined,
+    options: ProviderOptions | undefined,
+    onSave: (config: HttpProviderConfig, options: ProviderOptions) => void | Promise<void>
+  ) {
+    super(app);
+    this.config = config
+      ? { ...config }
+      : {
+        id: `api-${Date.now().toString(36)}`,
+        displayName: "",
+        baseUrl: "http://localhost:1234/v1",
+        model: "",
+        verified: false,
+      };
+    this.options = { ...options };
+    this.onSave = onSave;
+    // A key kept in secret storage is shown masked; the mask is left in place when the key is unchanged
+    if (createSecretStore(app)?.get(getApiKeySecretId(toHttpCliType(this.config.id)))) {
+      this.config.apiKey = SECRET_MASK;
+    }
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    const i18n = t();
+    contentEl.addClass("ronginus-custom-provider-modal");
+    contentEl.createEl("h2", { text: this.config.displayName ? i18n.editHttpProvider : i18n.addHttpProvider });
+
+    new Setting(contentEl)
+      .setName(i18n.customProviderName)
+      .addText((text) =>
+        text
+          .setPlaceholder("Local llama")
+          .setValue(this.config.displayName)
+          .onChange((value) => {
+            this.config.displayName = value;
+          })
+      );
+
+    new Setting(contentEl)
+      .setName(i18n.httpProviderBaseUrl)
+      .setDesc(i18n.httpProviderBaseUrlDesc)
+      .addText((text) =>
+        text
+          .setValue(this.config.baseUrl)
+          .onChange((value) => {
+            this.config.baseUrl = value;
+          })
+      );
+
+    new Setting(contentEl)
+      .setName(i18n.httpProviderModel)
+      .addText((text) =>
+        text
+          .setValue(this.config.model)
+          .onChange((value) => {
+            this.config.model = value;
+          })
+      );
+
+    new Setting(contentEl)
+      .setName(i18n.httpProviderApiKey)
+      .setDesc(i18n.httpProviderApiKeyDesc)
+      .addText((text) => {
+        text
+          .setValue(this.config.apiKey || "")
+          .onChange((value) => {
+            this.config.apiKey = value || undefined;
+          });
+        text.inputEl.type = "password";
+      });
+
+    addTimeoutSetting(contentEl, this.options);
+    addConcurrencySetting(contentEl, this.options);
+
+    new Setting(contentEl)
+      .addButton((btn) =>
+        btn.setButtonText(i18n.cancel).onClick(() => {
+          this.close();
+        })
+      )
+      .addButton((btn) =>
+        btn
+          .setButtonText(i18n.save)
+          .setCta()
+          .onClick(() => {
+            this.save();
+          })
+      );
+  }
+
+  private save() {
+    const i18n = t();
+    const displayName = this.config.displayName.trim();
+    const baseUrl = this.config.baseUrl.trim();
+    const model = this.config.model.trim();
+    if (!displayName || !baseUrl || !model) {
+      new Notice(i18n.httpProviderRequired);
+      return;
+    }
+    // Changing the endpoint requires verifying again
+    void this.onSave({ ...this.config, displayName, baseUrl, model, verified: false }, this.options);
     this.close();
   }
 
@@ -114,7 +576,7 @@ class CliPathModal extends Modal {
 
 export class SettingsTab extends PluginSettingTab {
   plugin: RonginusPlugin;
-  private verifyingCli: CliType | null = null;
+  private verifyingCli: CliType | CustomCliType | HttpCliType | null = null;
 
   constructor(app: App, plugin: RonginusPlugin) {
     super(app, plugin);
@@ -142,9 +604,10 @@ export class SettingsTab extends PluginSettingTab {
       name: i18n.geminiCli,
       cliType: "gemini",
       isVerified: cliConfig.geminiVerified,
+      capabilities: cliConfig.capabilities?.["gemini-cli"],
       customPath: cliConfig.geminiCliPath,
       installCmd: i18n.installGemini,
-      onVerify: () => this.handleVerifyGeminiCli(),
+      onVerify: () => this.handleVerifyCli("gemini"),
       onDisable: () => this.handleDisableCli("gemini"),
     });
 
@@ -153,9 +616,10 @@ export class SettingsTab extends PluginSettingTab {
       name: i18n.claudeCli,
       cliType: "claude",
       isVerified: cliConfig.claudeVerified,
+      capabilities: cliConfig.capabilities?.["claude-cli"],
       customPath: cliConfig.claudeCliPath,
       installCmd: i18n.installClaude,
-      onVerify: () => this.handleVerifyClaudeCli(),
+      onVerify: () => this.handleVerifyCli("claude"),
       onDisable: () => this.handleDisableCli("claude"),
     });
 
@@ -164,12 +628,51 @@ export class SettingsTab extends PluginSettingTab {
       name: i18n.codexCli,
       cliType: "codex",
       isVerified: cliConfig.codexVerified,
+      capabilities: cliConfig.capabilities?.["codex-cli"],
       customPath: cliConfig.codexCliPath,
       installCmd: i18n.installCodex,
-      onVerify: () => this.handleVerifyCodexCli(),
+      onVerify: () => this.handleVerifyCli("codex"),
       onDisable: () => this.handleDisableCli("codex"),
     });
 
+    // Custom command providers
+    new Setting(containerEl).setName(i18n.customProviders).setHeading();
+
+    const customIntroEl = containerEl.createDiv({ cls: "setting-item-description ronginus-cli-intro" });
+    customIntroEl.textContent = i18n.customProvidersIntro;
+
+    for (const custom of cliConfig.customProviders || []) {
+      this.createCustomProviderRow(containerEl, custom);
+    }
+
+    new Setting(containerEl)
+      .addButton((button) =>
+        button
+          .setButtonText(i18n.addCustomProvider)
+          .onClick(() => {
+            this.openCustomProviderModal();
+          })
+      );
+
+    // OpenAI-compatible HTTP providers
+    new Setting(containerEl).setName(i18n.httpProviders).setHeading();
+
+    const httpIntroEl = containerEl.createDiv({ cls: "setting-item-description ronginus-cli-intro" });
+    httpIntroEl.textContent = i18n.httpProvidersIntro;
+
+    for (const http of cliConfig.httpProviders || []) {
+      this.createHttpProviderRow(containerEl, http);
+    }
+
+    new Setting(containerEl)
+      .addButton((button) =>
+        button
+          .setButtonText(i18n.addHttpProvider)
+          .onClick(() => {
+            this.openHttpProviderModal();
+          })
+      );
+
     // Show CLI count status
     const verifiedCount = countVerifiedClis(cliConfig);
     const statusEl = containerEl.createDiv({ cls: "ronginus-cli-count-status" });
@@ -197,66 +700,477 @@ export class SettingsTab extends PluginSettingTab {
           })
       );
 
-    // Prompts section
-    new Setting(containerEl).setName(i18n.prompts).setHeading();
+    new Setting(containerEl)
+      .setName(i18n.resumeSessions)
+      .setDesc(i18n.resumeSessionsDesc)
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.resumeSessions)
+          .onChange(async (value) => {
+            this.plugin.settings.resumeSessions = value;
+            await this.plugin.saveSettings();
+          })
+      );
 
     new Setting(containerEl)
-      .setName(i18n.systemPrompt)
-      .setDesc(i18n.systemPromptDesc)
-      .addTextArea((text) => {
+      .setName(i18n.responseTimeout)
+      .setDesc(i18n.responseTimeoutDesc)
+      .addText((text) => {
         text
-          .setPlaceholder("System prompt...")
-          .setValue(this.plugin.settings.systemPrompt)
+          .setValue(String(this.plugin.settings.responseTimeoutSeconds))
           .onChange(async (value) => {
-            this.plugin.settings.systemPrompt = value;
+            const seconds = parseInt(value, 10);
+            if (Number.isNaN(seconds) || seconds < 0) return;
+            this.plugin.settings.responseTimeoutSeconds = seconds;
             await this.plugin.saveSettings();
           });
-        text.inputEl.rows = 4;
-        text.inputEl.addClass("ronginus-settings-textarea");
+        text.inputEl.type = "number";
+        text.inputEl.min = "0";
       });
 
     new Setting(containerEl)
-      .setName(i18n.conclusionPrompt)
-      .setDesc(i18n.conclusionPromptDesc)
-      .addTextArea((text) => {
+      .setName(i18n.maxConcurrentResponses)
+      .setDesc(i18n.maxConcurrentResponsesDesc)
+      .addText((text) => {
         text
-          .setPlaceholder("Conclusion prompt...")
-          .setValue(this.plugin.settings.conclusionPrompt)
+          .setValue(String(this.plugin.settings.maxConcurrentResponses))
           .onChange(async (value) => {
-            this.plugin.settings.conclusionPrompt = value;
+            const count = parseInt(value, 10);
+            if (Number.isNaN(count) || count < 0) return;
+            this.plugin.settings.maxConcurrentResponses = count;
             await this.plugin.saveSettings();
           });
-        text.inputEl.rows = 4;
-        text.inputEl.addClass("ronginus-settings-textarea");
+        text.inputEl.type = "number";
+        text.inputEl.min = "0";
       });
 
+    // Retry section
+    new Setting(containerEl).setName(i18n.retry).setHeading();
+
+    const retryPolicy = this.plugin.settings.retryPolicy;
+
     new Setting(containerEl)
-      .setName(i18n.votePrompt)
-      .addTextArea((text) => {
+      .setName(i18n.retryMaxAttempts)
+      .setDesc(i18n.retryMaxAttemptsDesc)
+      .addText((text) => {
         text
-          .setPlaceholder("Vote prompt...")
-          .setValue(this.plugin.settings.votePrompt)
+          .setValue(String(retryPolicy.maxAttempts))
           .onChange(async (value) => {
-            this.plugin.settings.votePrompt = value;
+            const attempts = parseInt(value, 10);
+            if (Number.isNaN(attempts) || attempts < 1) return;
+            this.plugin.settings.retryPolicy = { ...this.plugin.settings.retryPolicy, maxAttempts: attempts };
             await this.plugin.saveSettings();
           });
-        text.inputEl.rows = 4;
-        text.inputEl.addClass("ronginus-settings-textarea");
+        text.inputEl.type = "number";
+        text.inputEl.min = "1";
       });
 
-    // Add note about auto-appended format instruction
-    containerEl.createEl("p", {
-      text: i18n.votePromptDesc,
-      cls: "ronginus-vote-prompt-note",
-    });
-  }
-
-  private createCliVerifyRow(
-    containerEl: HTMLElement,
-    options: {
+    new Setting(containerEl)
+      .setName(i18n.retryInitialDelay)
+      .setDesc(i18n.retryInitialDelayDesc)
+      .addText((text) => {
+        text
+          .setValue(String(retryPolicy.initialDelaySeconds))
+          .onChange(async (value) => {
+            const seconds = parseFloat(value);
+            if (Number.isNaN(seconds) || seconds < 0) return;
+            this.plugin.settings.retryPolicy = { ...this.plugin.settings.retryPolicy, initialDelaySeconds: seconds };
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.type = "number";
+        text.inputEl.min = "0";
+      });
+
+    const retryToggles: { name: string; key: "retryOnRateLimit" | "retryOnTimeout" | "retryOnEmptyExit" }[] = [
+      { name: i18n.retryOnRateLimit, key: "retryOnRateLimit" },
+      { name: i18n.retryOnTimeout, key: "retryOnTimeout" },
+      { name: i18n.retryOnEmptyExit, key: "retryOnEmptyExit" },
+    ];
+    for (const { name, key } of retryToggles) {
+      new Setting(containerEl)
+        .setName(name)
+        .addToggle((toggle) =>
+          toggle
+            .setValue(retryPolicy[key])
+            .onChange(async (value) => {
+              this.plugin.settings.retryPolicy = { ...this.plugin.settings.retryPolicy, [key]: value };
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    // Voting section
+    new Setting(containerEl).setName(i18n.votingSettings).setHeading();
+
+    new Setting(containerEl)
+      .setName(i18n.voteReasks)
+      .setDesc(i18n.voteReasksDesc)
+      .addText((text) => {
+        text
+          .setValue(String(this.plugin.settings.voteReasks))
+          .onChange(async (value) => {
+            const reasks = parseInt(value, 10);
+            if (Number.isNaN(reasks) || reasks < 0) return;
+            this.plugin.settings.voteReasks = reasks;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.type = "number";
+        text.inputEl.min = "0";
+      });
+
+    new Setting(containerEl)
+      .setName(i18n.forbidSelfVote)
+      .setDesc(i18n.forbidSelfVoteDesc)
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.forbidSelfVote)
+          .onChange(async (value) => {
+            this.plugin.settings.forbidSelfVote = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(i18n.blindVoting)
+      .setDesc(i18n.blindVotingDesc)
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.blindVoting)
+          .onChange(async (value) => {
+            this.plugin.settings.blindVoting = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Tie-break section
+    new Setting(containerEl).setName(i18n.tieBreak).setHeading();
+
+    const tieBreak = this.plugin.settings.tieBreak;
+
+    new Setting(containerEl)
+      .setName(i18n.tieBreakPolicy)
+      .setDesc(i18n.tieBreakPolicyDesc)
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("none", i18n.tieBreakNone)
+          .addOption("runoff", i18n.tieBreakRunoff)
+          .addOption("rebuttal", i18n.tieBreakRebuttal)
+          .addOption("synthesis", i18n.tieBreakSynthesis)
+          .addOption("user-vote", i18n.tieBreakUserVote)
+          .setValue(tieBreak.policy)
+          .onChange(async (value) => {
+            this.plugin.settings.tieBreak = { ...this.plugin.settings.tieBreak, policy: value as TieBreakPolicy };
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    if (tieBreak.policy === "runoff" || tieBreak.policy === "rebuttal") {
+      new Setting(containerEl)
+        .setName(i18n.tieBreakMaxRounds)
+        .setDesc(i18n.tieBreakMaxRoundsDesc)
+        .addText((text) => {
+          text
+            .setValue(String(tieBreak.maxRounds))
+            .onChange(async (value) => {
+              const rounds = parseInt(value, 10);
+              if (Number.isNaN(rounds) || rounds < 1) return;
+              this.plugin.settings.tieBreak = { ...this.plugin.settings.tieBreak, maxRounds: rounds };
+              await this.plugin.saveSettings();
+            });
+          text.inputEl.type = "number";
+          text.inputEl.min = "1";
+        });
+    }
+
+    if (tieBreak.policy === "synthesis") {
+      const synthesizers = this.getVerifiedProviderOptions();
+
+      new Setting(containerEl)
+        .setName(i18n.tieBreakSynthesizer)
+        .setDesc(i18n.tieBreakSynthesizerDesc)
+        .addDropdown((dropdown) => {
+          dropdown.addOption("", i18n.tieBreakSelectSynthesizer);
+          for (const { type, displayName } of synthesizers) {
+            dropdown.addOption(type, displayName);
+          }
+          dropdown
+            .setValue(tieBreak.synthesisType || "")
+            .onChange(async (value) => {
+              this.plugin.settings.tieBreak = { ...this.plugin.settings.tieBreak, synthesisType: (value || undefined) as TieBreakConfig["synthesisType"] };
+              await this.plugin.saveSettings();
+            });
+        });
+
+      new Setting(containerEl)
+        .setName(i18n.tieBreakSynthesisModel)
+        .addText((text) =>
+          text
+            .setValue(tieBreak.synthesisModel || "")
+            .onChange(async (value) => {
+              this.plugin.settings.tieBreak = { ...this.plugin.settings.tieBreak, synthesisModel: value.trim() || undefined };
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    // Adaptive turns section
+    new Setting(containerEl).setName(i18n.adaptiveTurns).setHeading();
+
+    const adaptiveTurns = this.plugin.settings.adaptiveTurns;
+
+    new Setting(containerEl)
+      .setName(i18n.adaptiveMaxTurns)
+      .setDesc(i18n.adaptiveMaxTurnsDesc)
+      .addText((text) => {
+        text
+          .setValue(String(adaptiveTurns.maxTurns))
+          .onChange(async (value) => {
+            const maxTurns = parseInt(value, 10);
+            if (Number.isNaN(maxTurns) || maxTurns < 1) return;
+            this.plugin.settings.adaptiveTurns = { ...this.plugin.settings.adaptiveTurns, maxTurns };
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.type = "number";
+        text.inputEl.min = "1";
+      });
+
+    new Setting(containerEl)
+      .setName(i18n.adaptiveChecker)
+      .setDesc(i18n.adaptiveCheckerDesc)
+      .addDropdown((dropdown) => {
+        dropdown.addOption("", i18n.adaptiveCheckerDefault);
+        for (const { type, displayName } of this.getVerifiedProviderOptions()) {
+          dropdown.addOption(type, displayName);
+        }
+        dropdown
+          .setValue(adaptiveTurns.checkerType || "")
+          .onChange(async (value) => {
+            this.plugin.settings.adaptiveTurns = { ...this.plugin.settings.adaptiveTurns, checkerType: (value || undefined) as AdaptiveTurnsConfig["checkerType"] };
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName(i18n.adaptiveCheckerModel)
+      .setDesc(i18n.adaptiveCheckerModelDesc)
+      .addText((text) =>
+        text
+          .setValue(adaptiveTurns.checkerModel || "")
+          .onChange(async (value) => {
+            this.plugin.settings.adaptiveTurns = { ...this.plugin.settings.adaptiveTurns, checkerModel: value.trim() || undefined };
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Prompts section
+    new Setting(containerEl).setName(i18n.prompts).setHeading();
+
+    new Setting(containerEl)
+      .setName(i18n.systemPrompt)
+      .setDesc(i18n.systemPromptDesc)
+      .addTextArea((text) => {
+        text
+          .setPlaceholder("System prompt...")
+          .setValue(this.plugin.settings.systemPrompt)
+          .onChange(async (value) => {
+            this.plugin.settings.systemPrompt = value;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 4;
+        text.inputEl.addClass("ronginus-settings-textarea");
+      });
+
+    new Setting(containerEl)
+      .setName(i18n.conclusionPrompt)
+      .setDesc(i18n.conclusionPromptDesc)
+      .addTextArea((text) => {
+        text
+          .setPlaceholder("Conclusion prompt...")
+          .setValue(this.plugin.settings.conclusionPrompt)
+          .onChange(async (value) => {
+            this.plugin.settings.conclusionPrompt = value;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 4;
+        text.inputEl.addClass("ronginus-settings-textarea");
+      });
+
+    new Setting(containerEl)
+      .setName(i18n.votePrompt)
+      .addTextArea((text) => {
+        text
+          .setPlaceholder("Vote prompt...")
+          .setValue(this.plugin.settings.votePrompt)
+          .onChange(async (value) => {
+            this.plugin.settings.votePrompt = value;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 4;
+        text.inputEl.addClass("ronginus-settings-textarea");
+      });
+
+    // Add note about auto-appended format instruction
+    containerEl.createEl("p", {
+      text: i18n.votePromptDesc,
+      cls: "ronginus-vote-prompt-note",
+    });
+
+    new Setting(containerEl)
+      .setName(i18n.moderatorPrompt)
+      .setDesc(i18n.moderatorPromptDesc)
+      .addTextArea((text) => {
+        text
+          .setValue(this.plugin.settings.moderatorPrompt)
+          .onChange(async (value) => {
+            this.plugin.settings.moderatorPrompt = value;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 4;
+        text.inputEl.addClass("ronginus-settings-textarea");
+      });
+
+    new Setting(containerEl)
+      .setName(i18n.judgePrompt)
+      .setDesc(i18n.judgePromptDesc)
+      .addTextArea((text) => {
+        text
+          .setValue(this.plugin.settings.judgePrompt)
+          .onChange(async (value) => {
+            this.plugin.settings.judgePrompt = value;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 4;
+        text.inputEl.addClass("ronginus-settings-textarea");
+      });
+
+    new Setting(containerEl)
+      .setName(i18n.judgeRubric)
+      .setDesc(i18n.judgeRubricDesc)
+      .addTextArea((text) => {
+        text
+          .setValue(this.plugin.settings.judgeRubric)
+          .onChange(async (value) => {
+            this.plugin.settings.judgeRubric = value;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 4;
+        text.inputEl.addClass("ronginus-settings-textarea");
+      });
+
+    // Developer section
+    new Setting(containerEl).setName(i18n.developer).setHeading();
+
+    new Setting(containerEl)
+      .setName(i18n.developerMode)
+      .setDesc(i18n.developerModeDesc)
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.developerMode)
+          .onChange(async (value) => {
+            this.plugin.settings.developerMode = value;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    if (this.plugin.settings.developerMode) {
+      this.createFakeProviderSettings(containerEl);
+      this.createFixtureSettings(containerEl);
+    }
+  }
+
+  private createFixtureSettings(containerEl: HTMLElement): void {
+    const i18n = t();
+
+    new Setting(containerEl)
+      .setName(i18n.captureCliOutput)
+      .setDesc(i18n.captureCliOutputDesc)
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.captureCliOutput)
+          .onChange(async (value) => {
+            this.plugin.settings.captureCliOutput = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(i18n.fixtureFolder)
+      .setDesc(i18n.fixtureFolderDesc)
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_SETTINGS.fixtureFolder)
+          .setValue(this.plugin.settings.fixtureFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.fixtureFolder = value || DEFAULT_SETTINGS.fixtureFolder;
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  private createFakeProviderSettings(containerEl: HTMLElement): void {
+    const i18n = t();
+    const fakeProvider = this.plugin.settings.cliConfig.fakeProvider || DEFAULT_FAKE_PROVIDER_CONFIG;
+    const updateFakeProvider = async (updates: Partial<FakeProviderConfig>) => {
+      this.plugin.settings.cliConfig = {
+        ...this.plugin.settings.cliConfig,
+        fakeProvider: { ...(this.plugin.settings.cliConfig.fakeProvider || DEFAULT_FAKE_PROVIDER_CONFIG), ...updates },
+      };
+      await this.plugin.saveSettings();
+    };
+
+    new Setting(containerEl)
+      .setName(i18n.fakeResponseTemplate)
+      .setDesc(i18n.fakeResponseTemplateDesc)
+      .addTextArea((text) => {
+        text
+          .setValue(fakeProvider.responseTemplate)
+          .onChange(async (value) => {
+            await updateFakeProvider({ responseTemplate: value });
+          });
+        text.inputEl.rows = 3;
+        text.inputEl.addClass("ronginus-settings-textarea");
+      });
+
+    new Setting(containerEl)
+      .setName(i18n.fakeDelay)
+      .setDesc(i18n.fakeDelayDesc)
+      .addText((text) => {
+        text
+          .setValue(String(fakeProvider.delayMs))
+          .onChange(async (value) => {
+            const delayMs = parseInt(value, 10);
+            if (Number.isNaN(delayMs) || delayMs < 0) return;
+            await updateFakeProvider({ delayMs });
+          });
+        text.inputEl.type = "number";
+        text.inputEl.min = "0";
+      });
+
+    new Setting(containerEl)
+      .setName(i18n.fakeChunkSize)
+      .setDesc(i18n.fakeChunkSizeDesc)
+      .addText((text) => {
+        text
+          .setValue(String(fakeProvider.chunkSize))
+          .onChange(async (value) => {
+            const chunkSize = parseInt(value, 10);
+            if (Number.isNaN(chunkSize) || chunkSize < 1) return;
+            await updateFakeProvider({ chunkSize });
+          });
+        text.inputEl.type = "number";
+        text.inputEl.min = "1";
+      });
+  }
+
+  private createCliVerifyRow(
+    containerEl: HTMLElement,
+    options: {
       name: string;
       cliType: CliType;
       isVerified: boolean;
+      capabilities?: ProviderCapabilities;
       customPath?: string;
       installCmd: string;
       onVerify: () => Promise<void>;
@@ -277,6 +1191,7 @@ export class SettingsTab extends PluginSettingTab {
       // Verified state: show status badge and Disable button
       statusEl.addClass("ronginus-cli-status--success");
       statusEl.textContent = i18n.verified;
+      this.addCapabilitySummary(setting.descEl, options.capabilities);
 
       setting.addButton((button) =>
         button
@@ -317,163 +1232,414 @@ export class SettingsTab extends PluginSettingTab {
     );
   }
 
-  private openCliPathModal(cliType: CliType, currentPath?: string): void {
+  /**
+   * CLI config with secret environment values filled in, for running providers
+   */
+  /**
+   * Verified providers for dropdowns that pick a single provider (synthesis, convergence checker)
+   */
+  private getVerifiedProviderOptions(): ReturnType<typeof getVerifiedUserDefinedProviders> {
+    const cliConfig = this.plugin.settings.cliConfig;
+    return [
+      ...(cliConfig.geminiVerified ? [{ type: "gemini-cli" as const, displayName: "Gemini" }] : []),
+      ...(cliConfig.claudeVerified ? [{ type: "claude-cli" as const, displayName: "Claude" }] : []),
+      ...(cliConfig.codexVerified ? [{ type: "codex-cli" as const, displayName: "Codex" }] : []),
+      ...getVerifiedUserDefinedProviders(cliConfig),
+      ...(this.plugin.settings.developerMode ? [{ type: "fake-cli" as const, displayName: "Fake" }] : []),
+    ];
+  }
+
+  private getRuntimeCliConfig(): CliConfig {
+    return withProviderSecrets(this.plugin.settings.cliConfig, createSecretStore(this.app));
+  }
+
+  /**
+   * Show where the CLI was found and its detected version and capabilities under a verified provider
+   */
+  private addCapabilitySummary(descEl: HTMLElement, capabilities?: ProviderCapabilities): void {
+    if (!capabilities) return;
     const i18n = t();
-    new CliPathModal(
-      this.app,
-      cliType,
-      currentPath,
-      async (path: string | undefined) => {
-        const cliConfig = this.plugin.settings.cliConfig;
-        const pathKey = cliType === "gemini" ? "geminiCliPath" :
-                        cliType === "claude" ? "claudeCliPath" : "codexCliPath";
+    if (capabilities.executablePath) {
+      descEl.createDiv({ cls: "ronginus-cli-capabilities", text: i18n.cliFoundAt(capabilities.executablePath) });
+    }
+    const parts: string[] = [];
+    if (capabilities.version) parts.push(i18n.cliVersion(capabilities.version));
+    if (capabilities.jsonStreaming) parts.push(i18n.capabilityJsonStreaming);
+    if (capabilities.modelSelection) parts.push(i18n.capabilityModelSelection);
+    if (capabilities.sandbox) parts.push(i18n.capabilitySandbox);
+    if (capabilities.sessionResume) parts.push(i18n.capabilitySessionResume);
+    if (capabilities.stdinPrompt) parts.push(i18n.capabilityStdinPrompt);
+    if (parts.length === 0) return;
+    descEl.createDiv({ cls: "ronginus-cli-capabilities", text: parts.join(" · ") });
+  }
 
-        if (path) {
-          this.plugin.settings.cliConfig = { ...cliConfig, [pathKey]: path };
-          await this.plugin.saveSettings();
-          new Notice(i18n.cliPathSaved);
-        } else {
-          // Clear the path
-          const newConfig = { ...cliConfig };
-          delete newConfig[pathKey];
-          this.plugin.settings.cliConfig = newConfig;
-          await this.plugin.saveSettings();
-          new Notice(i18n.cliPathCleared);
-        }
-        this.display();
-      }
-    ).open();
+  /**
+   * Store (or clear) the capabilities detected for a provider
+   */
+  private setCapabilities(type: BuiltinCliType | CustomCliType | HttpCliType, capabilities: ProviderCapabilities | undefined): void {
+    const next = { ...this.plugin.settings.cliConfig.capabilities };
+    if (capabilities) {
+      next[type] = capabilities;
+    } else {
+      delete next[type];
+    }
+    this.plugin.settings.cliConfig = { ...this.plugin.settings.cliConfig, capabilities: next };
   }
 
-  private async handleDisableCli(cliType: CliType): Promise<void> {
+  private createCustomProviderRow(containerEl: HTMLElement, config: CustomProviderConfig): void {
     const i18n = t();
-    const verifiedKey = cliType === "gemini" ? "geminiVerified" :
-                        cliType === "claude" ? "claudeVerified" : "codexVerified";
-    const cliName = cliType === "gemini" ? "Gemini" : cliType === "claude" ? "Claude" : "Codex";
+    this.createUserDefinedProviderRow(containerEl, {
+      type: toCustomCliType(config.id),
+      name: config.displayName,
+      desc: `${config.command} ${config.argsTemplate}`,
+      isVerified: config.verified,
+      capabilities: this.plugin.settings.cliConfig.capabilities?.[toCustomCliType(config.id)],
+      editTooltip: i18n.editCustomProvider,
+      removeTooltip: i18n.removeCustomProvider,
+      onVerify: () => this.handleVerifyCustomCli(config),
+      onDisable: () => this.updateCustomProvider({ ...config, verified: false }),
+      onEdit: () => this.openCustomProviderModal(config),
+      onRemove: () => this.removeCustomProvider(config),
+    });
+  }
+
+  private createHttpProviderRow(containerEl: HTMLElement, config: HttpProviderConfig): void {
+    const i18n = t();
+    this.createUserDefinedProviderRow(containerEl, {
+      type: toHttpCliType(config.id),
+      name: config.displayName,
+      desc: `${config.model} @ ${config.baseUrl}`,
+      isVerified: config.verified,
+      capabilities: this.plugin.settings.cliConfig.capabilities?.[toHttpCliType(config.id)],
+      editTooltip: i18n.editHttpProvider,
+      removeTooltip: i18n.removeHttpProvider,
+      onVerify: () => this.handleVerifyHttpProvider(config),
+      onDisable: () => this.updateHttpProvider({ ...config, verified: false }),
+      onEdit: () => this.openHttpProviderModal(config),
+      onRemove: () => this.removeHttpProvider(config),
+    });
+  }
 
+  private createUserDefinedProviderRow(
+    containerEl: HTMLElement,
+    options: {
+      type: CustomCliType | HttpCliType;
+      name: string;
+      desc: string;
+      isVerified: boolean;
+      capabilities?: ProviderCapabilities;
+      editTooltip: string;
+      removeTooltip: string;
+      onVerify: () => Promise<void>;
+      onDisable: () => Promise<void>;
+      onEdit: () => void;
+      onRemove: () => Promise<void>;
+    }
+  ): void {
+    const i18n = t();
+    const setting = new Setting(containerEl)
+      .setName(options.name)
+      .setDesc(options.desc);
+
+    const statusEl = setting.controlEl.createDiv({ cls: "ronginus-cli-row-status" });
+
+    const isVerifying = this.verifyingCli === options.type;
+
+    if (options.isVerified) {
+      statusEl.addClass("ronginus-cli-status--success");
+      statusEl.textContent = i18n.verified;
+      this.addCapabilitySummary(setting.descEl, options.capabilities);
+
+      setting.addButton((button) =>
+        button
+          .setButtonText(i18n.disable)
+          .setDisabled(isVerifying)
+          .onClick(() => void options.onDisable())
+      );
+    } else if (isVerifying) {
+      statusEl.addClass("ronginus-cli-status--verifying");
+      statusEl.textContent = i18n.verifying;
+
+      setting.addButton((button) =>
+        button
+          .setButtonText(i18n.verifying)
+          .setDisabled(true)
+      );
+    } else {
+      setting.addButton((button) =>
+        button
+          .setButtonText(i18n.verify)
+          .setCta()
+          .setDisabled(this.verifyingCli !== null)
+          .onClick(() => void options.onVerify())
+      );
+    }
+
+    setting.addExtraButton((button) =>
+      button
+        .setIcon("settings")
+        .setTooltip(options.editTooltip)
+        .setDisabled(isVerifying)
+        .onClick(() => options.onEdit())
+    );
+
+    setting.addExtraButton((button) =>
+      button
+        .setIcon("trash")
+        .setTooltip(options.removeTooltip)
+        .setDisabled(isVerifying)
+        .onClick(() => void options.onRemove())
+    );
+  }
+
+  private openCustomProviderModal(config?: CustomProviderConfig): void {
+    const options = config
+      ? this.plugin.settings.cliConfig.providerOptions?.[toCustomCliType(config.id)]
+      : undefined;
+    new CustomProviderModal(this.app, config, options, async (updated, updatedOptions, secretValues) => {
+      this.setProviderOptions(toCustomCliType(updated.id), updatedOptions, secretValues);
+      await this.updateCustomProvider(updated);
+      new Notice(t().customProviderSaved);
+    }).open();
+  }
+
+  /**
+   * Store (or with undefined, remove) a provider's options without saving.
+   * Secret values go to the secret store; secrets no longer listed are cleared.
+   */
+  private setProviderOptions(
+    type: BuiltinCliType | CustomCliType | HttpCliType,
+    options: ProviderOptions | undefined,
+    secretValues: Record<string, string> = {}
+  ): void {
+    const store = createSecretStore(this.app);
+    if (store) {
+      const previous = this.plugin.settings.cliConfig.providerOptions?.[type]?.secretEnv || [];
+      for (const name of previous) {
+        if (!options?.secretEnv?.includes(name)) store.set(getEnvSecretId(type, name), null);
+      }
+      for (const [name, value] of Object.entries(secretValues)) {
+        store.set(getEnvSecretId(type, name), value);
+      }
+    }
+
+    const providerOptions = { ...this.plugin.settings.cliConfig.providerOptions };
+    if (options) {
+      providerOptions[type] = options;
+    } else {
+      delete providerOptions[type];
+    }
+    this.plugin.settings.cliConfig = { ...this.plugin.settings.cliConfig, providerOptions };
+  }
+
+  private async updateCustomProvider(config: CustomProviderConfig): Promise<void> {
+    const customProviders = this.plugin.settings.cliConfig.customProviders || [];
+    const exists = customProviders.some(p => p.id === config.id);
     this.plugin.settings.cliConfig = {
       ...this.plugin.settings.cliConfig,
-      [verifiedKey]: false,
+      customProviders: exists
+        ? customProviders.map(p => (p.id === config.id ? config : p))
+        : [...customProviders, config],
     };
     await this.plugin.saveSettings();
     this.display();
-    new Notice(i18n.cliDisabled(cliName));
   }
 
-  private async handleVerifyGeminiCli(): Promise<void> {
+  private async removeCustomProvider(config: CustomProviderConfig): Promise<void> {
+    this.setProviderOptions(toCustomCliType(config.id), undefined);
+    this.setCapabilities(toCustomCliType(config.id), undefined);
+    this.plugin.settings.cliConfig = {
+      ...this.plugin.settings.cliConfig,
+      customProviders: (this.plugin.settings.cliConfig.customProviders || []).filter(p => p.id !== config.id),
+    };
+    await this.plugin.saveSettings();
+    this.display();
+    new Notice(t().customProviderRemoved(config.displayName));
+  }
+
+  private async handleVerifyCustomCli(config: CustomProviderConfig): Promise<void> {
     const i18n = t();
 
     // Set verifying state and refresh UI
-    this.verifyingCli = "gemini";
+    this.verifyingCli = toCustomCliType(config.id);
     this.display();
 
     try {
-      const customPath = this.plugin.settings.cliConfig.geminiCliPath;
-      const result = await verifyGeminiCli(customPath);
+      const type = toCustomCliType(config.id);
+      const result = await verifyProvider(type, this.getRuntimeCliConfig());
 
       // Clear verifying state
       this.verifyingCli = null;
 
-      if (!result.success) {
-        this.plugin.settings.cliConfig = {
-          ...this.plugin.settings.cliConfig,
-          geminiVerified: false,
-        };
-        await this.plugin.saveSettings();
-        this.display();
+      this.setCapabilities(type, result.capabilities);
+      await this.updateCustomProvider({ ...config, verified: result.success });
 
+      if (!result.success) {
         if (result.stage === "version") {
-          new Notice(`${i18n.notFound}: ${result.error || "Gemini CLI not found"}`);
+          new Notice(`${i18n.notFound}: ${result.error || config.command}`);
         } else {
-          new Notice(`${i18n.loginRequired}: ${i18n.runGeminiAuth}`);
+          new Notice(`${i18n.error}: ${result.error || config.command}`);
         }
         return;
       }
 
-      // Success - save first, then refresh UI, then show notice
-      this.plugin.settings.cliConfig = {
-        ...this.plugin.settings.cliConfig,
-        geminiVerified: true,
-      };
-      await this.plugin.saveSettings();
-      this.display();
-      new Notice(i18n.cliVerifiedSuccess("Gemini"));
+      new Notice(i18n.customProviderVerified(config.displayName));
     } catch (err) {
       // Clear verifying state
       this.verifyingCli = null;
 
-      this.plugin.settings.cliConfig = {
-        ...this.plugin.settings.cliConfig,
-        geminiVerified: false,
-      };
-      await this.plugin.saveSettings();
-      this.display();
+      await this.updateCustomProvider({ ...config, verified: false });
       new Notice(`${i18n.error}: ${String(err)}`);
     }
   }
 
-  private async handleVerifyClaudeCli(): Promise<void> {
+  private openHttpProviderModal(config?: HttpProviderConfig): void {
+    const options = config
+      ? this.plugin.settings.cliConfig.providerOptions?.[toHttpCliType(config.id)]
+      : undefined;
+    new HttpProviderModal(this.app, config, options, async (updated, updatedOptions) => {
+      this.setProviderOptions(toHttpCliType(updated.id), updatedOptions);
+      await this.updateHttpProvider(this.storeApiKey(updated));
+      new Notice(t().httpProviderSaved);
+    }).open();
+  }
+
+  private async updateHttpProvider(config: HttpProviderConfig): Promise<void> {
+    const httpProviders = this.plugin.settings.cliConfig.httpProviders || [];
+    const exists = httpProviders.some(p => p.id === config.id);
+    this.plugin.settings.cliConfig = {
+      ...this.plugin.settings.cliConfig,
+      httpProviders: exists
+        ? httpProviders.map(p => (p.id === config.id ? config : p))
+        : [...httpProviders, config],
+    };
+    await this.plugin.saveSettings();
+    this.display();
+  }
+
+  /**
+   * Move a provider's API key into secret storage, returning the config to save without it.
+   * Without secret storage the key stays in the config.
+   */
+  private storeApiKey(config: HttpProviderConfig): HttpProviderConfig {
+    const store = createSecretStore(this.app);
+    if (!store) return config;
+    const { apiKey, ...rest } = config;
+    if (apiKey !== SECRET_MASK) {
+      store.set(getApiKeySecretId(toHttpCliType(config.id)), apiKey || null);
+    }
+    return rest;
+  }
+
+  private async removeHttpProvider(config: HttpProviderConfig): Promise<void> {
+    createSecretStore(this.app)?.set(getApiKeySecretId(toHttpCliType(config.id)), null);
+    this.setProviderOptions(toHttpCliType(config.id), undefined);
+    this.setCapabilities(toHttpCliType(config.id), undefined);
+    this.plugin.settings.cliConfig = {
+      ...this.plugin.settings.cliConfig,
+      httpProviders: (this.plugin.settings.cliConfig.httpProviders || []).filter(p => p.id !== config.id),
+    };
+    await this.plugin.saveSettings();
+    this.display();
+    new Notice(t().customProviderRemoved(config.displayName));
+  }
+
+  private async handleVerifyHttpProvider(config: HttpProviderConfig): Promise<void> {
     const i18n = t();
 
     // Set verifying state and refresh UI
-    this.verifyingCli = "claude";
+    this.verifyingCli = toHttpCliType(config.id);
     this.display();
 
     try {
-      const customPath = this.plugin.settings.cliConfig.claudeCliPath;
-      const result = await verifyClaudeCli(customPath);
+      const type = toHttpCliType(config.id);
+      const result = await verifyProvider(type, this.getRuntimeCliConfig());
 
       // Clear verifying state
       this.verifyingCli = null;
 
-      if (!result.success) {
-        this.plugin.settings.cliConfig = {
-          ...this.plugin.settings.cliConfig,
-          claudeVerified: false,
-        };
-        await this.plugin.saveSettings();
-        this.display();
+      this.setCapabilities(type, result.capabilities);
+      await this.updateHttpProvider({ ...config, verified: result.success });
 
-        if (result.stage === "version") {
-          new Notice(`${i18n.notFound}: ${result.error || "Claude CLI not found"}`);
+      if (!result.success) {
+        if (result.stage === "auth") {
+          new Notice(`${i18n.apiKeyRequired}: ${result.error || config.baseUrl}`);
         } else {
-          new Notice(`${i18n.loginRequired}: ${i18n.runClaudeLogin}`);
+          new Notice(`${i18n.error}: ${result.error || config.baseUrl}`);
         }
         return;
       }
 
-      // Success
-      this.plugin.settings.cliConfig = {
-        ...this.plugin.settings.cliConfig,
-        claudeVerified: true,
-      };
-      await this.plugin.saveSettings();
-      this.display();
-      new Notice(i18n.cliVerifiedSuccess("Claude"));
+      new Notice(i18n.customProviderVerified(config.displayName));
     } catch (err) {
       // Clear verifying state
       this.verifyingCli = null;
 
-      this.plugin.settings.cliConfig = {
-        ...this.plugin.settings.cliConfig,
-        claudeVerified: false,
-      };
-      await this.plugin.saveSettings();
-      this.display();
+      await this.updateHttpProvider({ ...config, verified: false });
       new Notice(`${i18n.error}: ${String(err)}`);
     }
   }
 
-  private async handleVerifyCodexCli(): Promise<void> {
+  private openCliPathModal(cliType: CliType, currentPath?: string): void {
+    const i18n = t();
+    const providerType: BuiltinCliType = `${cliType}-cli`;
+    new CliPathModal(
+      this.app,
+      cliType,
+      this.plugin.settings.cliConfig.capabilities?.[providerType],
+      currentPath,
+      this.plugin.settings.cliConfig.providerOptions?.[providerType],
+      async (path: string | undefined, options: ProviderOptions, secretValues: Record<string, string>) => {
+        this.setProviderOptions(providerType, options, secretValues);
+        const cliConfig = { ...this.plugin.settings.cliConfig };
+        const pathKey = cliType === "gemini" ? "geminiCliPath" :
+                        cliType === "claude" ? "claudeCliPath" : "codexCliPath";
+
+        if (path) {
+          this.plugin.settings.cliConfig = { ...cliConfig, [pathKey]: path };
+          await this.plugin.saveSettings();
+          new Notice(i18n.cliPathSaved);
+        } else {
+          // Clear the path
+          const newConfig = { ...cliConfig };
+          delete newConfig[pathKey];
+          this.plugin.settings.cliConfig = newConfig;
+          await this.plugin.saveSettings();
+          new Notice(i18n.cliPathCleared);
+        }
+        this.display();
+      }
+    ).open();
+  }
+
+  private async handleDisableCli(cliType: CliType): Promise<void> {
     const i18n = t();
+    const verifiedKey = cliType === "gemini" ? "geminiVerified" :
+                        cliType === "claude" ? "claudeVerified" : "codexVerified";
+    const cliName = cliType === "gemini" ? "Gemini" : cliType === "claude" ? "Claude" : "Codex";
+
+    this.plugin.settings.cliConfig = {
+      ...this.plugin.settings.cliConfig,
+      [verifiedKey]: false,
+    };
+    await this.plugin.saveSettings();
+    this.display();
+    new Notice(i18n.cliDisabled(cliName));
+  }
+
+  private async handleVerifyCli(cliType: CliType): Promise<void> {
+    const i18n = t();
+    const providerType: BuiltinCliType = `${cliType}-cli`;
+    const verifiedKey = cliType === "gemini" ? "geminiVerified" :
+                        cliType === "claude" ? "claudeVerified" : "codexVerified";
+    const cliName = cliType === "gemini" ? "Gemini" : cliType === "claude" ? "Claude" : "Codex";
 
     // Set verifying state and refresh UI
-    this.verifyingCli = "codex";
+    this.verifyingCli = cliType;
     this.display();
 
     try {
-      const customPath = this.plugin.settings.cliConfig.codexCliPath;
-      const result = await verifyCodexCli(customPath);
+      const result = await verifyProvider(providerType, this.getRuntimeCliConfig());
 
       // Clear verifying state
       this.verifyingCli = null;
@@ -481,34 +1647,39 @@ export class SettingsTab extends PluginSettingTab {
       if (!result.success) {
         this.plugin.settings.cliConfig = {
           ...this.plugin.settings.cliConfig,
-          codexVerified: false,
+          [verifiedKey]: false,
         };
         await this.plugin.saveSettings();
         this.display();
 
         if (result.stage === "version") {
-          new Notice(`${i18n.notFound}: ${result.error || "Codex CLI not found"}`);
+          new Notice(`${i18n.notFound}: ${result.error || `${cliName} CLI not found`}`);
+        } else if (cliType === "gemini") {
+          new Notice(`${i18n.loginRequired}: ${i18n.runGeminiAuth}`);
+        } else if (cliType === "claude") {
+          new Notice(`${i18n.loginRequired}: ${i18n.runClaudeLogin}`);
         } else {
           new Notice(`${i18n.apiKeyRequired}: ${i18n.setOpenaiKey}`);
         }
         return;
       }
 
-      // Success
+      // Success - save first, then refresh UI, then show notice
+      this.setCapabilities(providerType, result.capabilities);
       this.plugin.settings.cliConfig = {
         ...this.plugin.settings.cliConfig,
-        codexVerified: true,
+        [verifiedKey]: true,
       };
       await this.plugin.saveSettings();
       this.display();
-      new Notice(i18n.cliVerifiedSuccess("Codex"));
+      new Notice(i18n.cliVerifiedSuccess(cliName));
     } catch (err) {
       // Clear verifying state
       this.verifyingCli = null;
 
       this.plugin.settings.cliConfig = {
         ...this.plugin.settings.cliConfig,
-        codexVerified: false,
+        [verifiedKey]: false,
       };
       await this.plugin.saveSettings();
       this.display();